@@ -13,7 +13,39 @@ export const config = {
   driverApiUrl: process.env.DRIVER_API_URL || 'http://localhost:3000/api/drivers',
   paymentApiUrl: process.env.PAYMENT_API_URL || 'http://localhost:3000/api/payments',
   notificationApiUrl: process.env.NOTIFICATION_API_URL || 'http://localhost:3000/api/notifications',
+  // Server-sent events, one driver position per event (?driverId= selects the driver)
+  driverLocationStreamUrl:
+    process.env.DRIVER_LOCATION_STREAM_URL || 'http://localhost:3000/api/drivers/locations/stream',
+  driverLocationReconnectMs: parseInt(process.env.DRIVER_LOCATION_RECONNECT_MS || '5000', 10),
+  // 'dummy' (in-process mock data) or 'http' (call the URLs above)
+  apiMode: process.env.API_MODE || 'dummy',
+  apiTimeouts: {
+    booking: parseInt(process.env.BOOKING_API_TIMEOUT_MS || '1500', 10),
+    driver: parseInt(process.env.DRIVER_API_TIMEOUT_MS || '1500', 10),
+    payment: parseInt(process.env.PAYMENT_API_TIMEOUT_MS || '2000', 10),
+    notification: parseInt(process.env.NOTIFICATION_API_TIMEOUT_MS || '3000', 10),
+  },
+  apiRetryBackoffMs: parseInt(process.env.API_RETRY_BACKOFF_MS || '200', 10),
+  // Per-dependency circuit breakers around ApiClient calls
+  circuitBreaker: {
+    failureRateThreshold: parseFloat(process.env.CIRCUIT_FAILURE_RATE || '0.5'),
+    minimumRequests: parseInt(process.env.CIRCUIT_MIN_REQUESTS || '5', 10),
+    windowSize: parseInt(process.env.CIRCUIT_WINDOW_SIZE || '20', 10),
+    openDurationMs: parseInt(process.env.CIRCUIT_OPEN_MS || '30000', 10),
+  },
   
+  // Decision tree flow definitions (*.json / *.yaml), validated at startup
+  flowsDir: process.env.FLOWS_DIR || path.resolve(__dirname, '../../data/flows'),
+
+  // Cancellation fee / free window and driver-late rules
+  policiesFile: process.env.POLICIES_FILE || path.resolve(__dirname, '../../data/policies.json'),
+
+  // A pending yes/no question expires after this long (e.g. "cancel my booking?")
+  confirmationTimeoutMs: parseInt(process.env.CONFIRMATION_TIMEOUT_MS || '300000', 10),
+
+  // Persistence: 'memory' (default) or 'postgres'
+  persistenceDriver: process.env.PERSISTENCE_DRIVER || 'memory',
+
   // Database
   db: {
     host: process.env.DB_HOST || 'localhost',
@@ -21,6 +53,7 @@ export const config = {
     name: process.env.DB_NAME || 'rideshare_chatbot',
     user: process.env.DB_USER || 'postgres',
     password: process.env.DB_PASSWORD || 'password',
+    poolSize: parseInt(process.env.DB_POOL_SIZE || '10', 10),
   },
   
   // JWT
@@ -28,11 +61,68 @@ export const config = {
   
   // NLP
   enableNlp: process.env.ENABLE_NLP === 'true',
-  nlpConfidenceThreshold: parseFloat(process.env.NLP_CONFIDENCE_THRESHOLD || '0.7'),
+  // Calibrated probability below which an intent is reported as unknown (see npm run eval:nlp)
+  nlpConfidenceThreshold: parseFloat(process.env.NLP_CONFIDENCE_THRESHOLD || '0.5'),
+  // Versioned training phrases (<language>/v<N>.json, highest wins) and the held-out set that gates
+  // retraining: eval.json for English, eval.<language>.json next to it for the others
+  nlpCorpusDir: process.env.NLP_CORPUS_DIR || path.resolve(__dirname, '../../data/nlp/corpus'),
+  nlpEvalFile: process.env.NLP_EVAL_FILE || path.resolve(__dirname, '../../data/nlp/eval.json'),
+  // A retrained model replaces the active one only at or above this held-out accuracy
+  nlpMinEvalAccuracy: parseFloat(process.env.NLP_MIN_EVAL_ACCURACY || '0.75'),
   
+  // Languages
+  // Conversations start in this language unless /initiate names one (en | es | fr)
+  defaultLanguage: process.env.DEFAULT_LANGUAGE || 'en',
+  // Message catalog: <language>.json with every bot string and translated flow messages
+  i18nDir: process.env.I18N_DIR || path.resolve(__dirname, '../../data/i18n'),
+
   // Safety
   enableSafetyDetection: process.env.ENABLE_SAFETY_DETECTION === 'true',
-  escalationTimeout: parseInt(process.env.ESCALATION_TIMEOUT || '30000', 10),
+  // A rider's safety events over this window make up the pattern attached to every escalation
+  safetyPatternWindowHours: parseInt(process.env.SAFETY_PATTERN_WINDOW_HOURS || '24', 10),
+  // Medium-severity events don't escalate alone; this many in one ride do
+  safetyMediumEscalationCount: parseInt(process.env.SAFETY_MEDIUM_ESCALATION_COUNT || '3', 10),
+  // A driver named in safety events by this many different riders within the window is flagged
+  driverFlagRiderCount: parseInt(process.env.DRIVER_FLAG_RIDER_COUNT || '3', 10),
+  driverFlagWindowDays: parseInt(process.env.DRIVER_FLAG_WINDOW_DAYS || '30', 10),
+  // Trip sharing: links are <TRIP_SHARE_URL>/<token> and stop working after the TTL or when
+  // the booking completes; active links are checked on this interval
+  tripShareUrl: process.env.TRIP_SHARE_URL || 'http://localhost:3001/api/trip-share/live',
+  tripShareTtlMinutes: parseInt(process.env.TRIP_SHARE_TTL_MINUTES || '120', 10),
+  tripShareCheckIntervalMs: parseInt(process.env.TRIP_SHARE_CHECK_INTERVAL_MS || '60000', 10),
+  // Ride monitor: during an in-progress ride, the driver's position is checked on this interval.
+  // Further than the deviation distance from the pickup → dropoff line, or stopped for the
+  // long-stop time away from both ends, the rider is asked whether everything is okay; no reply
+  // within the check-in timeout escalates to safety
+  enableRideMonitor: process.env.ENABLE_RIDE_MONITOR === 'true',
+  rideMonitorIntervalMs: parseInt(process.env.RIDE_MONITOR_INTERVAL_MS || '15000', 10),
+  rideDeviationMeters: parseInt(process.env.RIDE_DEVIATION_METERS || '1000', 10),
+  rideLongStopMinutes: parseInt(process.env.RIDE_LONG_STOP_MINUTES || '5', 10),
+  rideCheckInTimeoutMs: parseInt(process.env.RIDE_CHECK_IN_TIMEOUT_MS || '120000', 10),
+  // Escalation SLA: how long a ticket of each priority may wait for an agent to claim it.
+  // Past that it moves up a priority, supervisors are alerted and the rider is told
+  enableEscalationSla: process.env.ENABLE_ESCALATION_SLA === 'true',
+  escalationSlaMs: {
+    critical: parseInt(process.env.ESCALATION_SLA_CRITICAL_MS || '30000', 10),
+    high: parseInt(process.env.ESCALATION_SLA_HIGH_MS || '60000', 10),
+    medium: parseInt(process.env.ESCALATION_SLA_MEDIUM_MS || '120000', 10),
+    low: parseInt(process.env.ESCALATION_SLA_LOW_MS || '300000', 10),
+  },
+  escalationSlaCheckIntervalMs: parseInt(process.env.ESCALATION_SLA_CHECK_INTERVAL_MS || '5000', 10),
+  escalationSupervisorId: process.env.ESCALATION_SUPERVISOR_ID || 'support-supervisor',
+  // Outbound webhooks: escalation and ticket events POSTed to each URL, signed with the
+  // secret (HMAC-SHA256). Failures retry with exponential backoff from the base delay;
+  // after the last attempt the delivery is a dead letter
+  webhookUrls: (process.env.WEBHOOK_URLS || '').split(',').map((url) => url.trim()).filter(Boolean),
+  webhookSecret: process.env.WEBHOOK_SECRET || 'default-webhook-secret',
+  // Comma-separated; every event when empty
+  webhookEvents: (process.env.WEBHOOK_EVENTS || '').split(',').map((event) => event.trim()).filter(Boolean),
+  webhookTimeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '5000', 10),
+  webhookMaxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '6', 10),
+  webhookRetryBaseMs: parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '2000', 10),
+  // Rider ↔ driver relay: open relays are checked on this interval and closed once the
+  // booking completes or is cancelled
+  driverRelayCheckIntervalMs: parseInt(process.env.DRIVER_RELAY_CHECK_INTERVAL_MS || '30000', 10),
   maxRetryAttempts: parseInt(process.env.MAX_RETRY_ATTEMPTS || '3', 10),
   
   // Logging
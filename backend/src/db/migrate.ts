@@ -0,0 +1,56 @@
+import { Pool } from 'pg';
+import { migrations } from './migrations';
+import { getPool, closePool } from './pool';
+import logger from '../utils/logger';
+
+/**
+ * Apply pending schema migrations. Each migration runs in its own
+ * transaction and is recorded in schema_migrations.
+ */
+export async function runMigrations(pool: Pool): Promise<string[]> {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      id          TEXT PRIMARY KEY,
+      applied_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `);
+
+  const { rows } = await pool.query<{ id: string }>('SELECT id FROM schema_migrations');
+  const applied = new Set(rows.map((row) => row.id));
+  const newlyApplied: string[] = [];
+
+  for (const migration of migrations) {
+    if (applied.has(migration.id)) continue;
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(migration.up);
+      await client.query('INSERT INTO schema_migrations (id) VALUES ($1)', [migration.id]);
+      await client.query('COMMIT');
+      newlyApplied.push(migration.id);
+      logger.info('Migration applied', { migration: migration.id });
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  return newlyApplied;
+}
+
+// CLI: npm run migrate
+if (require.main === module) {
+  runMigrations(getPool())
+    .then((applied) => {
+      console.log(applied.length ? `Applied: ${applied.join(', ')}` : 'Schema is up to date');
+      return closePool();
+    })
+    .catch(async (error) => {
+      console.error('Migration failed:', error.message);
+      await closePool();
+      process.exit(1);
+    });
+}
@@ -0,0 +1,60 @@
+import type { Migration } from './index';
+
+const migration: Migration = {
+  id: '001_initial_schema',
+  up: `
+    CREATE TABLE conversations (
+      id                UUID PRIMARY KEY,
+      booking_id        TEXT NOT NULL,
+      user_id           TEXT NOT NULL,
+      driver_id         TEXT,
+      support_agent_id  TEXT,
+      status            TEXT NOT NULL,
+      escalation_type   TEXT,
+      created_at        TIMESTAMPTZ NOT NULL,
+      updated_at        TIMESTAMPTZ NOT NULL
+    );
+    CREATE INDEX idx_conversations_user ON conversations (user_id, updated_at DESC);
+
+    CREATE TABLE chat_messages (
+      id               UUID PRIMARY KEY,
+      seq              BIGSERIAL,
+      conversation_id  UUID NOT NULL REFERENCES conversations (id) ON DELETE CASCADE,
+      sender           TEXT NOT NULL,
+      message          TEXT NOT NULL,
+      timestamp        TIMESTAMPTZ NOT NULL,
+      metadata         JSONB
+    );
+    CREATE INDEX idx_chat_messages_conversation ON chat_messages (conversation_id, seq);
+
+    CREATE TABLE escalation_requests (
+      id               UUID PRIMARY KEY,
+      conversation_id  UUID NOT NULL,
+      booking_id       TEXT,
+      user_id          TEXT,
+      escalation_type  TEXT NOT NULL,
+      reason           TEXT NOT NULL,
+      priority         TEXT NOT NULL,
+      timestamp        TIMESTAMPTZ NOT NULL,
+      context          JSONB NOT NULL DEFAULT '{}'::jsonb,
+      chat_transcript  JSONB
+    );
+    CREATE INDEX idx_escalation_requests_conversation ON escalation_requests (conversation_id);
+
+    CREATE TABLE support_tickets (
+      id                     UUID PRIMARY KEY,
+      escalation_request_id  UUID NOT NULL REFERENCES escalation_requests (id),
+      conversation_id        UUID NOT NULL,
+      user_id                TEXT,
+      status                 TEXT NOT NULL,
+      assigned_agent         TEXT,
+      created_at             TIMESTAMPTZ NOT NULL,
+      resolved_at            TIMESTAMPTZ,
+      resolution             TEXT,
+      booking_context        JSONB
+    );
+    CREATE INDEX idx_support_tickets_user ON support_tickets (user_id, status);
+  `,
+};
+
+export default migration;
@@ -0,0 +1,11 @@
+import type { Migration } from './index';
+
+// Multi-turn dialog state (active flow, pending confirmation, slots)
+const migration: Migration = {
+  id: '002_dialog_state',
+  up: `
+    ALTER TABLE conversations ADD COLUMN dialog_state JSONB;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,11 @@
+import type { Migration } from './index';
+
+// Cancellation executed from the chat (fee, refund, idempotency key)
+const migration: Migration = {
+  id: '003_conversation_cancellation',
+  up: `
+    ALTER TABLE conversations ADD COLUMN cancellation JSONB;
+  `,
+};
+
+export default migration;
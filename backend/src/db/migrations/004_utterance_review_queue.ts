@@ -0,0 +1,31 @@
+import type { Migration } from './index';
+
+// Unresolved rider utterances awaiting a label (see ReviewQueueService)
+const migration: Migration = {
+  id: '004_utterance_review_queue',
+  up: `
+    CREATE TABLE utterance_reviews (
+      id                UUID PRIMARY KEY,
+      text              TEXT NOT NULL,
+      normalized_text   TEXT NOT NULL,
+      source            TEXT NOT NULL,
+      status            TEXT NOT NULL,
+      occurrences       INTEGER NOT NULL DEFAULT 1,
+      conversation_id   UUID NOT NULL,
+      predicted_intent  TEXT,
+      confidence        DOUBLE PRECISION NOT NULL DEFAULT 0,
+      candidates        JSONB,
+      escalation_type   TEXT,
+      label             TEXT,
+      labelled_by       TEXT,
+      training_job_id   UUID,
+      corpus_version    INTEGER,
+      created_at        TIMESTAMPTZ NOT NULL,
+      updated_at        TIMESTAMPTZ NOT NULL
+    );
+    CREATE INDEX idx_utterance_reviews_status ON utterance_reviews (status, updated_at DESC);
+    CREATE INDEX idx_utterance_reviews_text ON utterance_reviews (normalized_text);
+  `,
+};
+
+export default migration;
@@ -0,0 +1,12 @@
+import type { Migration } from './index';
+
+// The rider's language per conversation; review items go back into that language's corpus
+const migration: Migration = {
+  id: '005_language',
+  up: `
+    ALTER TABLE conversations ADD COLUMN language TEXT NOT NULL DEFAULT 'en';
+    ALTER TABLE utterance_reviews ADD COLUMN language TEXT NOT NULL DEFAULT 'en';
+  `,
+};
+
+export default migration;
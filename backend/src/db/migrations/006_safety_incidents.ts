@@ -0,0 +1,41 @@
+import type { Migration } from './index';
+
+// Safety events and their audit timeline, handled by trust & safety (see SafetyIncidentService)
+const migration: Migration = {
+  id: '006_safety_incidents',
+  up: `
+    CREATE TABLE safety_events (
+      id               TEXT PRIMARY KEY,
+      conversation_id  UUID NOT NULL,
+      user_id          TEXT NOT NULL,
+      driver_id        TEXT,
+      severity         TEXT NOT NULL,
+      score            INTEGER,
+      keywords         JSONB NOT NULL DEFAULT '[]'::jsonb,
+      timestamp        TIMESTAMPTZ NOT NULL,
+      status           TEXT NOT NULL,
+      escalated_to     TEXT,
+      assigned_to      TEXT,
+      acknowledged_by  TEXT,
+      acknowledged_at  TIMESTAMPTZ,
+      resolved_by      TEXT,
+      resolved_at      TIMESTAMPTZ,
+      outcome          TEXT
+    );
+    CREATE INDEX idx_safety_events_status ON safety_events (status, timestamp DESC);
+
+    CREATE TABLE safety_event_audit (
+      id        UUID PRIMARY KEY,
+      seq       BIGSERIAL,
+      event_id  TEXT NOT NULL REFERENCES safety_events (id) ON DELETE CASCADE,
+      action    TEXT NOT NULL,
+      actor     TEXT NOT NULL,
+      note      TEXT,
+      details   JSONB,
+      at        TIMESTAMPTZ NOT NULL
+    );
+    CREATE INDEX idx_safety_event_audit_event ON safety_event_audit (event_id, seq);
+  `,
+};
+
+export default migration;
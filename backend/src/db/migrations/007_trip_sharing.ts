@@ -0,0 +1,33 @@
+import type { Migration } from './index';
+
+// Riders' trusted contacts and the live trip links sent to them (see TripShareService)
+const migration: Migration = {
+  id: '007_trip_sharing',
+  up: `
+    CREATE TABLE trusted_contacts (
+      id          UUID PRIMARY KEY,
+      user_id     TEXT NOT NULL,
+      name        TEXT NOT NULL,
+      phone       TEXT NOT NULL,
+      created_at  TIMESTAMPTZ NOT NULL
+    );
+    CREATE INDEX idx_trusted_contacts_user ON trusted_contacts (user_id, created_at);
+
+    CREATE TABLE trip_shares (
+      id               UUID PRIMARY KEY,
+      token_hash       TEXT NOT NULL UNIQUE,
+      user_id          TEXT NOT NULL,
+      booking_id       TEXT NOT NULL,
+      conversation_id  UUID NOT NULL,
+      driver_id        TEXT,
+      status           TEXT NOT NULL,
+      recipients       JSONB NOT NULL DEFAULT '[]'::jsonb,
+      created_at       TIMESTAMPTZ NOT NULL,
+      expires_at       TIMESTAMPTZ NOT NULL,
+      ended_at         TIMESTAMPTZ
+    );
+    CREATE INDEX idx_trip_shares_status ON trip_shares (status, created_at DESC);
+  `,
+};
+
+export default migration;
@@ -0,0 +1,23 @@
+import type { Migration } from './index';
+
+// Tickets carry their escalation's priority for the agent queue. Conversations
+// keep their ticket apart from the agent who has taken them over: until now
+// support_agent_id held the ticket id.
+const migration: Migration = {
+  id: '008_agent_console',
+  up: `
+    ALTER TABLE support_tickets ADD COLUMN priority TEXT NOT NULL DEFAULT 'medium';
+    UPDATE support_tickets t
+       SET priority = r.priority
+      FROM escalation_requests r
+     WHERE r.id = t.escalation_request_id;
+    CREATE INDEX idx_support_tickets_queue ON support_tickets (status, priority, created_at);
+
+    ALTER TABLE conversations ADD COLUMN support_ticket_id TEXT;
+    UPDATE conversations
+       SET support_ticket_id = support_agent_id, support_agent_id = NULL
+     WHERE support_agent_id IS NOT NULL;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,14 @@
+import type { Migration } from './index';
+
+// SLA per ticket: when an agent should have claimed it and how many times it
+// went past that. Tickets opened before this have no due date; the SLA
+// checker counts theirs from created_at.
+const migration: Migration = {
+  id: '009_escalation_sla',
+  up: `
+    ALTER TABLE support_tickets ADD COLUMN sla_due_at TIMESTAMPTZ;
+    ALTER TABLE support_tickets ADD COLUMN sla_breaches INTEGER NOT NULL DEFAULT 0;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,24 @@
+import type { Migration } from './index';
+
+// Outbound webhook deliveries (see WebhookService): the delivery log, pending
+// retries and dead letters
+const migration: Migration = {
+  id: '010_webhook_deliveries',
+  up: `
+    CREATE TABLE webhook_deliveries (
+      id               UUID PRIMARY KEY,
+      event            TEXT NOT NULL,
+      url              TEXT NOT NULL,
+      body             TEXT NOT NULL,
+      status           TEXT NOT NULL,
+      attempts         JSONB NOT NULL DEFAULT '[]'::jsonb,
+      next_attempt_at  TIMESTAMPTZ,
+      created_at       TIMESTAMPTZ NOT NULL,
+      delivered_at     TIMESTAMPTZ
+    );
+    CREATE INDEX idx_webhook_deliveries_created ON webhook_deliveries (created_at DESC);
+    CREATE INDEX idx_webhook_deliveries_due ON webhook_deliveries (next_attempt_at) WHERE status = 'pending';
+  `,
+};
+
+export default migration;
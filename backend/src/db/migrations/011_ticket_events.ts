@@ -0,0 +1,22 @@
+import type { Migration } from './index';
+
+// A conversation keeps one open ticket; later escalations become events on it.
+// Existing tickets start their history with the escalation that opened them.
+const migration: Migration = {
+  id: '011_ticket_events',
+  up: `
+    ALTER TABLE support_tickets ADD COLUMN events JSONB NOT NULL DEFAULT '[]'::jsonb;
+    UPDATE support_tickets t
+       SET events = jsonb_build_array(jsonb_build_object(
+             'escalationRequestId', r.id,
+             'escalationType', r.escalation_type,
+             'priority', r.priority,
+             'reason', r.reason,
+             'at', r.timestamp))
+      FROM escalation_requests r
+     WHERE r.id = t.escalation_request_id;
+    CREATE INDEX idx_support_tickets_conversation ON support_tickets (conversation_id, status);
+  `,
+};
+
+export default migration;
@@ -0,0 +1,12 @@
+import type { Migration } from './index';
+
+// The rider's chat with their driver, per conversation. Receipts live in the
+// relayed messages' metadata.
+const migration: Migration = {
+  id: '012_driver_relay',
+  up: `
+    ALTER TABLE conversations ADD COLUMN driver_relay JSONB;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,11 @@
+import type { Migration } from './index';
+
+// Open relays are looked up on startup so their sweep picks up again
+const migration: Migration = {
+  id: '013_open_driver_relays',
+  up: `
+    CREATE INDEX idx_conversations_open_driver_relay ON conversations (id) WHERE driver_relay->>'status' = 'open';
+  `,
+};
+
+export default migration;
@@ -0,0 +1,36 @@
+import initialSchema from './001_initial_schema';
+import dialogState from './002_dialog_state';
+import conversationCancellation from './003_conversation_cancellation';
+import utteranceReviewQueue from './004_utterance_review_queue';
+import language from './005_language';
+import safetyIncidents from './006_safety_incidents';
+import tripSharing from './007_trip_sharing';
+import agentConsole from './008_agent_console';
+import escalationSla from './009_escalation_sla';
+import webhookDeliveries from './010_webhook_deliveries';
+import ticketEvents from './011_ticket_events';
+import driverRelay from './012_driver_relay';
+import openDriverRelays from './013_open_driver_relays';
+
+export interface Migration {
+  id: string;
+  up: string;
+}
+
+// Applied in array order; never reorder or edit a shipped migration —
+// add a new one instead.
+export const migrations: Migration[] = [
+  initialSchema,
+  dialogState,
+  conversationCancellation,
+  utteranceReviewQueue,
+  language,
+  safetyIncidents,
+  tripSharing,
+  agentConsole,
+  escalationSla,
+  webhookDeliveries,
+  ticketEvents,
+  driverRelay,
+  openDriverRelays,
+];
@@ -0,0 +1,34 @@
+import { Pool } from 'pg';
+import config from '../config';
+import logger from '../utils/logger';
+
+let pool: Pool | null = null;
+
+/**
+ * Lazily created, process-wide PostgreSQL connection pool
+ * built from config.db.
+ */
+export function getPool(): Pool {
+  if (!pool) {
+    pool = new Pool({
+      host: config.db.host,
+      port: config.db.port,
+      database: config.db.name,
+      user: config.db.user,
+      password: config.db.password,
+      max: config.db.poolSize,
+    });
+
+    pool.on('error', (error) => {
+      logger.error('Idle PostgreSQL client error', { message: error.message });
+    });
+  }
+  return pool;
+}
+
+export async function closePool(): Promise<void> {
+  if (pool) {
+    await pool.end();
+    pool = null;
+  }
+}
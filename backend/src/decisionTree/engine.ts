@@ -6,444 +6,138 @@
 // Flow C: Unable to contact driver
 // Flow D: Cancel booking
 // + Payment, Contact, Safety, Talk-to-agent flows
+//
+// Flows are data (backend/data/flows/*.json|yaml) interpreted here.
+// Node types: api_call → set → condition → response
+// Response messages are written in English; the message catalog
+// holds their translations (flows.<flowId>.<nodeId>).
 // ============================================================
 
-import { DecisionTreeNode } from '../types';
+import { FlowDefinition, FlowNode, FlowPriority, Language, LANGUAGES, ResponseFlowNode } from '../types';
 import logger from '../utils/logger';
-import apiClient from '../utils/apiClient';
+import apiClient, { ApiService } from '../utils/apiClient';
+import config from '../config';
+import { conversationService } from '../services/conversationService';
+import policyService from '../services/policyService';
+import tripShareService, { TripShareError } from '../services/tripShareService';
+import rideMonitorService from '../services/rideMonitorService';
+import driverRelayService, { DriverRelayError } from '../services/driverRelayService';
+import catalog from '../i18n/catalog';
+import { loadFlows } from './flowLoader';
+import { computeValue, evaluateCondition, resolveValue } from './expressions';
 
-class DecisionTreeEngine {
-  private trees: Map<string, DecisionTreeNode>;
-
-  constructor() {
-    this.trees = this.initializeTrees();
-  }
+// Operations callable from `api_call` nodes; args arrive already resolved
+export type FlowOperation = (...args: any[]) => Promise<any> | any;
 
-  private initializeTrees(): Map<string, DecisionTreeNode> {
-    return new Map([
-      ['where_is_driver', this.flowA_WhereIsDriver()],
-      ['driver_late', this.flowB_DriverIsLate()],
-      ['cannot_contact_driver', this.flowC_UnableToContactDriver()],
-      ['cancel_booking', this.flowD_CancelBooking()],
-      ['contact_driver', this.createContactDriverFlow()],
-      ['payment_query', this.createPaymentQueryFlow()],
-      ['safety_concern', this.createSafetyFlow()],
-      ['call_driver', this.createCallDriverFlow()],
-      ['message_driver', this.createMessageDriverFlow()],
-      ['talk_to_agent', this.createTalkToAgentFlow()],
-      ['ok_thanks', this.createOkThanksFlow()],
-      ['gratitude', this.createGratitudeFlow()],
-    ]);
-  }
-
-  // ─────────────────────────────────────────────
-  // FLOW A: Where is my driver? (BRD §11)
-  // - Fetch real-time driver location & ETA
-  // - Response: "Your driver {{DriverName}} is {{X}} minutes away."
-  // - Follow-up: Contact driver, Driver is late, OK thanks
-  // ─────────────────────────────────────────────
-  private flowA_WhereIsDriver(): DecisionTreeNode {
-    return {
-      id: 'flow_a_where_is_driver',
-      type: 'action',
-      message: 'Let me check your driver\'s location...',
-      handler: async (context) => {
-        try {
-          const driver = await apiClient.getDriver(context.driverId || 'driver_789');
-          return {
-            success: true,
-            data: driver,
-            message: `Your driver ${driver.name} is ${driver.eta} minutes away, driving a ${driver.vehicleInfo}.`,
-            // BRD Follow-ups: Contact driver, Driver is late, OK thanks
-            suggestedActions: ['contact_driver', 'driver_late', 'ok_thanks'],
-          };
-        } catch (error) {
-          logger.error('Flow A: Could not get driver location', { error });
-          return {
-            success: false,
-            message: 'Unable to fetch driver location right now. Let me connect you with support.',
-            escalate: true,
-            escalationType: 'support',
-            suggestedActions: ['talk_to_agent'],
-          };
-        }
-      },
-      suggestedActions: ['contact_driver', 'driver_late', 'ok_thanks'],
-    };
-  }
+// Guards against cycles in a definition (condition → set → condition ...)
+const MAX_STEPS = 50;
 
-  // ─────────────────────────────────────────────
-  // FLOW B: Driver is Late (BRD §11)
-  // - Validate delay threshold
-  // - If within limit: Apology + updated ETA
-  // - If exceeded: Wait, Cancel ride, Talk/Call driver
-  // ─────────────────────────────────────────────
-  private flowB_DriverIsLate(): DecisionTreeNode {
-    return {
-      id: 'flow_b_driver_late',
-      type: 'action',
-      message: 'Let me check the delay status...',
-      handler: async (context) => {
-        try {
-          const driver = await apiClient.getDriver(context.driverId || 'driver_789');
-          const traffic = await apiClient.getTrafficInfo();
-          const DELAY_THRESHOLD = 15; // BRD: validate delay threshold
+// ChatbotService puts the conversation's language in the context
+const languageOf = (context: Record<string, any>): Language => context.language || 'en';
 
-          if (driver.eta > DELAY_THRESHOLD) {
-            // Exceeded threshold
-            return {
-              success: true,
-              message: `We sincerely apologize. Your driver ${driver.name} is significantly delayed (ETA: ${driver.eta} min). ` +
-                `Traffic is ${traffic.congestionLevel} with a ${traffic.delayMinutes} min delay. ` +
-                `What would you like to do?`,
-              // BRD: Wait, Cancel ride, Talk/Call driver
-              suggestedActions: ['wait', 'cancel_booking', 'call_driver', 'talk_to_agent'],
-            };
-          } else {
-            // Within limit
-            return {
-              success: true,
-              message: `We apologize for the delay. Your driver ${driver.name} is running a bit late due to ${traffic.congestionLevel} traffic. ` +
-                `Updated ETA: ${driver.eta} minutes. They should arrive within the updated time.`,
-              suggestedActions: ['contact_driver', 'cancel_booking', 'ok_thanks'],
-            };
-          }
-        } catch (error) {
-          logger.error('Flow B: Could not check delay', { error });
-          return {
-            success: false,
-            message: 'Unable to check driver delay status. Let me connect you with support.',
-            escalate: true,
-            escalationType: 'support',
-          };
-        }
-      },
-    };
-  }
-
-  // ─────────────────────────────────────────────
-  // FLOW C: Unable to Contact Driver (BRD §11)
-  // - Validate call/message attempts
-  // - Suggest retry or automated message
-  // - If unresolved: escalate to support
-  // ─────────────────────────────────────────────
-  private flowC_UnableToContactDriver(): DecisionTreeNode {
-    return {
-      id: 'flow_c_cannot_contact',
-      type: 'action',
-      message: 'I\'m sorry you can\'t reach your driver. Let me help...',
-      handler: async (context) => {
-        const attemptCount = (context.contactAttempts || 0) + 1;
-
-        if (attemptCount >= 3) {
-          // BRD: If unresolved → escalate to support
-          return {
-            success: false,
-            message: `We've tried multiple times to reach your driver without success. ` +
-              `I'm escalating this to our support team immediately. ` +
-              `A support agent will assist you within 1-2 minutes.`,
-            escalate: true,
-            escalationType: 'support',
-            suggestedActions: ['talk_to_agent'],
-          };
-        }
-
-        // BRD: Suggest retry or automated message
-        try {
-          const driver = await apiClient.getDriver(context.driverId || 'driver_789');
-          return {
-            success: true,
-            message: `Attempt ${attemptCount}/3: I understand the frustration. Your driver ${driver.name} may be in a low-reception area.\n\n` +
-              `Would you like me to:\n` +
-              `• 📞 Try calling again\n` +
-              `• 💬 Send an automated message to the driver\n` +
-              `• 👨‍💼 Connect you with support`,
-            suggestedActions: ['call_driver', 'message_driver', 'talk_to_agent'],
-            contactAttempts: attemptCount,
-          };
-        } catch (error) {
-          return {
-            success: true,
-            message: `Attempt ${attemptCount}/3: Would you like to retry or shall I send an automated message?`,
-            suggestedActions: ['call_driver', 'message_driver', 'talk_to_agent'],
-            contactAttempts: attemptCount,
-          };
-        }
-      },
-      suggestedActions: ['call_driver', 'message_driver', 'talk_to_agent'],
-    };
-  }
-
-  // ─────────────────────────────────────────────
-  // FLOW D: Cancel Booking (BRD §11)
-  // - Display cancellation policy
-  // - Confirm user intent
-  // - Execute cancellation
-  // - Show refund or penalty details
-  // ─────────────────────────────────────────────
-  private flowD_CancelBooking(): DecisionTreeNode {
-    return {
-      id: 'flow_d_cancel_booking',
-      type: 'action',
-      message: 'Let me check the cancellation details for your booking...',
-      handler: async (context) => {
-        try {
-          const booking = await apiClient.getBooking(context.bookingId);
-          const timeSinceBooking = booking.createdAt
-            ? Date.now() - new Date(booking.createdAt).getTime()
-            : 0;
-          const isFreeCancel = timeSinceBooking < 2 * 60 * 1000;
-
-          if (isFreeCancel) {
-            return {
-              success: true,
-              isFree: true,
-              message: `📋 **Cancellation Policy:**\n\n` +
-                `✅ Free cancellation available!\n` +
-                `Your booking was made less than 2 minutes ago.\n\n` +
-                `Booking: #${booking.id}\n` +
-                `Estimated fare: ${booking.estimatedFare}\n` +
-                `Refund: Full refund will be processed\n\n` +
-                `Would you like to proceed with cancellation?`,
-              suggestedActions: ['cancel_booking', 'where_is_driver', 'ok_thanks'],
-            };
-          } else {
-            return {
-              success: true,
-              isFree: false,
-              message: `📋 **Cancellation Policy:**\n\n` +
-                `⚠️ Cancelling now will incur a small fee.\n\n` +
-                `Booking: #${booking.id}\n` +
-                `Estimated fare: ${booking.estimatedFare}\n` +
-                `Cancellation fee: $3.50\n` +
-                `Refund amount: Estimated fare minus cancellation fee\n\n` +
-                `Would you like to confirm the cancellation?`,
-              suggestedActions: ['cancel_booking', 'where_is_driver', 'ok_thanks'],
-            };
-          }
-        } catch (error) {
-          logger.error('Flow D: Error checking cancellation policy', { error });
-          return {
-            success: false,
-            message: 'Unable to process cancellation right now. Let me connect you with support.',
-            escalate: true,
-            escalationType: 'support',
-          };
-        }
-      },
-    };
-  }
-
-  // ─────────────────────────────────────────────
-  // BRD §5.5.1: Escalation to Driver
-  // Call or message option, share chatbot context
-  // ─────────────────────────────────────────────
-  private createContactDriverFlow(): DecisionTreeNode {
-    return {
-      id: 'contact_driver_root',
-      type: 'action',
-      message: 'How would you like to contact your driver?',
-      handler: async (context) => {
-        try {
-          const driver = await apiClient.getDriver(context.driverId || 'driver_789');
-          return {
-            success: true,
-            message: `📞 **Contact Your Driver**\n\n` +
-              `Driver: ${driver.name}\n` +
-              `Phone: ${driver.phone}\n` +
-              `Vehicle: ${driver.vehicleInfo}\n` +
-              `Rating: ⭐ ${driver.rating}\n\n` +
-              `How would you like to reach them?`,
-            suggestedActions: ['call_driver', 'message_driver'],
-          };
-        } catch (error) {
-          return {
-            success: true,
-            message: 'How would you like to contact your driver?',
-            suggestedActions: ['call_driver', 'message_driver'],
-          };
-        }
-      },
-      suggestedActions: ['call_driver', 'message_driver'],
-    };
-  }
-
-  private createCallDriverFlow(): DecisionTreeNode {
-    return {
-      id: 'call_driver',
-      type: 'action',
-      message: 'Initiating call to your driver...',
-      handler: async (context) => {
-        try {
-          const driver = await apiClient.getDriver(context.driverId || 'driver_789');
-          // BRD §5.5.1: Share chatbot conversation context with driver
-          await apiClient.sendNotification(
-            context.driverId || 'driver_789',
-            `Rider is trying to reach you. Booking: ${context.bookingId}`
-          );
-          return {
-            success: true,
-            message: `📞 Calling ${driver.name} at ${driver.phone}...\n\n` +
-              `Your chatbot conversation has been shared with the driver for context.\n` +
-              `If the call doesn't connect, try sending a message instead.`,
-            suggestedActions: ['message_driver', 'cannot_contact_driver'],
-          };
-        } catch (error) {
-          return {
-            success: true,
-            message: 'Initiating call to your driver... If the call doesn\'t connect, try messaging.',
-            suggestedActions: ['message_driver', 'cannot_contact_driver'],
-          };
-        }
-      },
-    };
-  }
+class DecisionTreeEngine {
+  private operations: Map<string, FlowOperation>;
+  private flows: Map<string, FlowDefinition>;
 
-  private createMessageDriverFlow(): DecisionTreeNode {
-    return {
-      id: 'message_driver',
-      type: 'action',
-      message: 'Sending message to your driver...',
-      handler: async (context) => {
-        try {
-          const driver = await apiClient.getDriver(context.driverId || 'driver_789');
-          await apiClient.sendNotification(
-            context.driverId || 'driver_789',
-            `Message from rider. Booking: ${context.bookingId}. Please check your app.`
-          );
-          return {
-            success: true,
-            message: `💬 An automated message has been sent to **${driver.name}**.\n\n` +
-              `They will receive a notification to check their app. ` +
-              `If you don't hear back within 2 minutes, we can escalate to support.`,
-            suggestedActions: ['cannot_contact_driver', 'where_is_driver', 'ok_thanks'],
-          };
-        } catch (error) {
-          return {
-            success: true,
-            message: 'Your message has been sent to the driver. Please wait for a response.',
-            suggestedActions: ['cannot_contact_driver', 'ok_thanks'],
-          };
-        }
-      },
-    };
+  constructor() {
+    this.operations = this.initializeOperations();
+    this.flows = this.loadDefinitions();
   }
 
-  private createPaymentQueryFlow(): DecisionTreeNode {
-    return {
-      id: 'payment_query_root',
-      type: 'action',
-      message: 'Let me get your payment details...',
-      handler: async (context) => {
-        try {
-          const payment = await apiClient.getPaymentDetails(context.bookingId);
-          return {
-            success: true,
-            data: payment,
-            message: `Your estimated fare is $${payment.estimatedFare}. Payment method: ${payment.method}. Status: ${payment.status}.`,
-            suggestedActions: ['talk_to_agent', 'ok_thanks'],
-          };
-        } catch (error) {
-          logger.error('Error fetching payment details', { error });
-          return {
-            success: false,
-            message: 'Unable to get payment details. Please contact support.',
-            escalate: true,
-            escalationType: 'support',
-          };
-        }
-      },
-      suggestedActions: ['talk_to_agent', 'ok_thanks'],
-    };
+  private initializeOperations(): Map<string, FlowOperation> {
+    return new Map<string, FlowOperation>([
+      ['getDriver', (driverId: string) => apiClient.getDriver(driverId)],
+      ['getBooking', (bookingId: string) => apiClient.getBooking(bookingId)],
+      ['getTrafficInfo', () => apiClient.getTrafficInfo()],
+      ['getPaymentDetails', (bookingId: string) => apiClient.getPaymentDetails(bookingId)],
+      ['sendNotification', (userId: string, message: string, data?: any) =>
+        apiClient.sendNotification(userId, message, data)],
+      ['cancelBooking', (bookingId: string, reason: string, idempotencyKey?: string) =>
+        apiClient.cancelBooking(bookingId, reason, idempotencyKey)],
+      ['evaluateCancellationPolicy', (booking: any) => policyService.evaluateCancellation(booking)],
+      ['evaluateDelayPolicy', (booking: any, driver: any) => policyService.evaluateDelay(booking, driver)],
+      ['recordCancellation', (conversationId: string, cancellation: any) =>
+        conversationService.recordCancellation(conversationId, cancellation)],
+      // { url, expiresAt, contactNames, shareId }, or { reason } when there is no one to
+      // share with or the trip is over
+      ['shareTrip', (userId: string, bookingId: string, conversationId: string, driverId: string, language: Language) =>
+        tripShareService
+          .shareTrip({ userId, bookingId, conversationId, driverId: driverId || undefined, language })
+          .then(({ share, url }) => ({
+            url,
+            expiresAt: share.expiresAt,
+            contactNames: share.recipients.map((recipient) => recipient.name).join(', '),
+            shareId: share.id,
+          }))
+          .catch((error) => {
+            if (error instanceof TripShareError) return { reason: error.reason };
+            throw error;
+          })],
+      // { opened, driverName }, or { reason } when there is no driver or the ride is over
+      ['openDriverRelay', (conversationId: string) =>
+        driverRelayService
+          .open(conversationId)
+          .then(({ driverName }) => ({ opened: true, driverName }))
+          .catch((error) => {
+            if (error instanceof DriverRelayError) return { reason: error.reason };
+            throw error;
+          })],
+      // { ended }, or { reason } when there is no open chat to end
+      ['endDriverRelay', (conversationId: string) =>
+        driverRelayService
+          .end(conversationId)
+          .then(() => ({ ended: true }))
+          .catch((error) => {
+            if (error instanceof DriverRelayError) return { reason: error.reason };
+            throw error;
+          })],
+      // Null when the relay isn't open (or has just closed)
+      ['relayToDriver', (conversationId: string, message: string) =>
+        driverRelayService.relayFromRider(conversationId, message, { automated: true })],
+      // The rider's yes / no to the ride monitor's check-in: { escalated, ticket? }
+      ['answerRideCheckIn', (conversationId: string, okay: boolean) =>
+        rideMonitorService.answerCheckIn(conversationId, okay)],
+      // Degraded mode: while a dependency's circuit is open, answer from the
+      // last known data instead of creating a support ticket for every message
+      ['isDegraded', (service: ApiService) => apiClient.isDegraded(service)],
+      ['getLastKnown', (service: ApiService, key: string) => apiClient.getLastKnown(service, key)],
+    ]);
   }
 
-  // ─────────────────────────────────────────────
-  // BRD Epic 6: Safety flow
-  // ─────────────────────────────────────────────
-  private createSafetyFlow(): DecisionTreeNode {
-    return {
-      id: 'safety_root',
-      type: 'escalation',
-      message: 'Your safety is our top priority. Connecting you with emergency support.',
-      escalationType: 'safety',
-      handler: async (context) => {
-        logger.warn('Safety escalation via decision tree', {
-          userId: context.userId,
-          conversationId: context.conversationId,
-        });
-        return {
-          success: true,
-          message: '🚨 Your safety is our top priority. I\'m connecting you with emergency support immediately.',
-          escalate: true,
-          escalationType: 'safety',
-          suggestedActions: ['emergency_contact', 'talk_to_agent'],
-        };
-      },
-    };
+  private loadDefinitions(): Map<string, FlowDefinition> {
+    const definitions = loadFlows(config.flowsDir, new Set(this.operations.keys()));
+    logger.info('Decision tree flows loaded', {
+      flowsDir: config.flowsDir,
+      flows: definitions.map((flow) => flow.intent),
+    });
+    this.reportUntranslated(definitions);
+    return new Map(definitions.map((flow) => [flow.intent, flow]));
   }
 
-  // ─────────────────────────────────────────────
-  // BRD §5.5.2: Talk to agent escalation
-  // ─────────────────────────────────────────────
-  private createTalkToAgentFlow(): DecisionTreeNode {
-    return {
-      id: 'talk_to_agent',
-      type: 'escalation',
-      message: 'Connecting you with a support agent...',
-      escalationType: 'support',
-      handler: async (_context) => {
-        return {
-          success: true,
-          message: '👨‍💼 I\'m connecting you with a support agent. Your chat history and booking details will be shared automatically.',
-          escalate: true,
-          escalationType: 'support',
-          suggestedActions: [],
-        };
-      },
-    };
+  // Untranslated nodes still work (in English), so this warns instead of failing startup
+  private reportUntranslated(definitions: FlowDefinition[]): void {
+    for (const language of LANGUAGES.filter((candidate) => candidate !== 'en')) {
+      const missing = definitions.flatMap((flow) =>
+        Object.entries(flow.nodes)
+          .filter(([nodeId, node]) => node.type === 'response' && !catalog.flowMessages(language, flow.id, nodeId))
+          .map(([nodeId]) => `${flow.id}.${nodeId}`)
+      );
+      if (missing.length) {
+        logger.warn('Flow messages without a translation; answering in English', { language, missing });
+      }
+    }
   }
 
-  // ─────────────────────────────────────────────
-  // Flow A follow-up: OK, thanks
-  // ─────────────────────────────────────────────
-  private createOkThanksFlow(): DecisionTreeNode {
-    return {
-      id: 'ok_thanks',
-      type: 'message',
-      message: '😊 You\'re welcome! If you need anything else during your ride, just tap a quick action or type your question. Have a great ride!',
-      suggestedActions: ['where_is_driver', 'contact_driver', 'payment_query'],
-    };
+  hasFlow(intent: string): boolean {
+    return this.flows.has(intent);
   }
 
-  // ─────────────────────────────────────────────
-  // Gratitude / Conversation Close Flow
-  // Brand-aligned closing with Door2Door branding
-  // ─────────────────────────────────────────────
-  private createGratitudeFlow(): DecisionTreeNode {
-    return {
-      id: 'gratitude_close',
-      type: 'action',
-      message: 'Thank you for choosing Door2Door Flights!',
-      handler: async (_context) => {
-        // Pick a closing response randomly for variety
-        const closingResponses = [
-          `You're welcome! 😊 Thank you for choosing Door2Door Flights. If you need any further assistance with bookings, prices, or trips, I'm here to help.`,
-          `Happy to help! 😊 Thank you for riding with Door2Door Flights. Don't hesitate to reach out if you need anything else during your ride.`,
-          `Glad I could assist! 😊 At Door2Door Flights, your comfort is our priority. Feel free to ask if you need anything else.`,
-        ];
-
-        const reply = closingResponses[Math.floor(Math.random() * closingResponses.length)];
-
-        return {
-          success: true,
-          message: reply,
-          intent: 'conversation_close',
-          // Offer quick re-engagement options
-          suggestedActions: ['where_is_driver', 'payment_query', 'contact_driver'],
-          sessionAction: 'mark_closing',
-        };
-      },
-    };
+  /**
+   * Where the flow's answer goes when a message has several intents:
+   * safety before actions before information.
+   */
+  getPriority(flowType: string): FlowPriority {
+    return this.flows.get(flowType)?.priority || 'info';
   }
 
   // ────────────────────────────────────────────
@@ -454,92 +148,151 @@ class DecisionTreeEngine {
     context: Record<string, any>
   ): Promise<any> {
     try {
-      const tree = this.trees.get(flowType);
-      if (!tree) {
+      const flow = this.flows.get(flowType);
+      if (!flow) {
         logger.warn('Unknown flow type', { flowType });
         return {
           success: false,
-          message: 'I\'m not sure how to help with that. Let me connect you with a support agent.',
+          message: catalog.t(languageOf(context), 'engine.unknownFlow'),
           escalate: true,
           escalationType: 'support',
           suggestedActions: ['talk_to_agent'],
         };
       }
 
-      return await this.executeNode(tree, context);
+      return await this.run(flow, flow.start, context);
     } catch (error) {
       logger.error('Error executing flow', { flowType, error });
-      return {
-        success: false,
-        message: 'An error occurred. Let me connect you with support.',
-        escalate: true,
-        escalationType: 'support',
-        suggestedActions: ['talk_to_agent'],
-      };
+      return this.failureResult(languageOf(context));
     }
   }
 
-  private async executeNode(node: DecisionTreeNode, context: Record<string, any>): Promise<any> {
-    switch (node.type) {
-      case 'message':
-        return {
-          success: true,
-          message: node.message,
-          suggestedActions: node.suggestedActions,
-        };
+  /**
+   * Continue a flow at the node chosen by the rider's answer to a
+   * pending confirmation (see ResponseFlowNode.awaitConfirmation).
+   */
+  async resumeFlow(
+    flowType: string,
+    nodeId: string,
+    context: Record<string, any>
+  ): Promise<any> {
+    try {
+      const flow = this.flows.get(flowType);
+      if (!flow || !flow.nodes[nodeId]) {
+        throw new Error(`Cannot resume ${flowType} at node ${nodeId}`);
+      }
+
+      return await this.run(flow, nodeId, context);
+    } catch (error) {
+      logger.error('Error resuming flow', { flowType, nodeId, error });
+      return this.failureResult(languageOf(context));
+    }
+  }
+
+  private failureResult(language: Language): any {
+    return {
+      success: false,
+      message: catalog.t(language, 'engine.failure'),
+      escalate: true,
+      escalationType: 'support',
+      suggestedActions: ['talk_to_agent'],
+    };
+  }
+
+  private async run(flow: FlowDefinition, startNode: string, context: Record<string, any>): Promise<any> {
+    // Node outputs are written to a copy so the caller's context is untouched
+    const scope: Record<string, any> = { ...context };
+    let nodeId = startNode;
+
+    for (let step = 0; step < MAX_STEPS; step++) {
+      const node = flow.nodes[nodeId];
+      this.writeLog(flow, nodeId, node, scope);
 
-      case 'action':
-        if (node.handler) {
-          const result = await node.handler(context);
-          // Ensure suggestedActions from handler are used, fallback to node's
-          if (!result.suggestedActions && node.suggestedActions) {
-            result.suggestedActions = node.suggestedActions;
+      switch (node.type) {
+        case 'api_call': {
+          const operation = this.operations.get(node.call)!;
+          try {
+            const result = await operation(...resolveValue(node.args || [], scope));
+            if (node.saveAs) scope[node.saveAs] = result;
+            nodeId = node.next;
+          } catch (error) {
+            if (!node.onError) throw error;
+            logger.warn('Flow operation failed', {
+              flow: flow.id,
+              node: nodeId,
+              operation: node.call,
+              message: error instanceof Error ? error.message : String(error),
+            });
+            scope.error = error instanceof Error ? error.message : String(error);
+            nodeId = node.onError;
           }
-          return result;
+          break;
         }
-        return {
-          success: true,
-          message: node.message,
-          suggestedActions: node.suggestedActions,
-        };
 
-      case 'decision':
-        if (node.handler) {
-          return await node.handler(context);
-        }
-        if (node.condition) {
-          const condResult = await node.condition(context);
-          const childPath = condResult ? 'exceeded' : 'within_limit';
-          const childNode = node.children?.[childPath];
-          if (childNode) {
-            return await this.executeNode(childNode, context);
+        case 'set':
+          for (const [key, value] of Object.entries(node.values)) {
+            scope[key] = computeValue(value, scope);
           }
-        }
-        return {
-          success: true,
-          message: node.message,
-          suggestedActions: node.suggestedActions,
-        };
+          nodeId = node.next;
+          break;
 
-      case 'escalation':
-        if (node.handler) {
-          return await node.handler(context);
+        case 'condition': {
+          const branch = node.branches.find((candidate) => evaluateCondition(candidate.when, scope));
+          nodeId = branch ? branch.next : node.default;
+          break;
         }
-        return {
-          success: false,
-          message: node.message,
-          escalate: true,
-          escalationType: node.escalationType,
-          suggestedActions: node.suggestedActions || ['talk_to_agent'],
-        };
 
-      default:
-        return {
-          success: false,
-          message: 'Unable to process request.',
-          suggestedActions: ['talk_to_agent'],
-        };
+        case 'response':
+          return this.buildResponse(flow, nodeId, node, scope);
+      }
     }
+
+    throw new Error(`Flow ${flow.id} exceeded ${MAX_STEPS} steps (cycle at node ${nodeId})`);
+  }
+
+  private buildResponse(
+    flow: FlowDefinition,
+    nodeId: string,
+    node: ResponseFlowNode,
+    scope: Record<string, any>
+  ): any {
+    const templates = catalog.flowMessages(languageOf(scope), flow.id, nodeId) || node.messages || [node.message!];
+    const template = templates[Math.floor(Math.random() * templates.length)];
+
+    const result: Record<string, any> = {
+      success: node.success ?? true,
+      ...resolveValue(node.fields || {}, scope),
+      message: resolveValue(template, scope),
+    };
+
+    if (node.escalate) {
+      result.escalate = true;
+      result.escalationType = node.escalationType;
+    }
+
+    const suggestedActions = node.suggestedActions || flow.suggestedActions;
+    if (suggestedActions) {
+      result.suggestedActions = suggestedActions;
+    }
+
+    // Dialog state for the next turn; ChatbotService persists it on the conversation
+    if (node.slots || node.awaitConfirmation) {
+      result.dialog = {
+        slots: resolveValue(node.slots || {}, scope),
+        awaitConfirmation: node.awaitConfirmation,
+      };
+    }
+
+    return result;
+  }
+
+  private writeLog(flow: FlowDefinition, nodeId: string, node: FlowNode, scope: Record<string, any>): void {
+    if (!node.log) return;
+    logger[node.log.level](resolveValue(node.log.message, scope), {
+      flow: flow.id,
+      node: nodeId,
+      ...resolveValue(node.log.fields || {}, scope),
+    });
   }
 }
 
@@ -0,0 +1,148 @@
+// ============================================================
+// RideSharePro — Flow expression evaluation
+// Templates:   "Your driver {{driver.name}} is {{driver.eta}} min away"
+//              "{{driverId | default:driver_789}}", "{{fetchedAt | time}}"
+// Conditions:  { var, op, value } combined with all / any / not
+// Functions:   { fn: 'add', args: [...] } in `set` nodes
+// ============================================================
+
+import { FlowCondition } from '../types';
+
+type Scope = Record<string, any>;
+
+const TEMPLATE_PATTERN = /\{\{\s*([^}]+?)\s*\}\}/g;
+const WHOLE_TEMPLATE_PATTERN = /^\{\{\s*([^}]+?)\s*\}\}$/;
+
+export function resolvePath(scope: Scope, path: string): any {
+  return path.split('.').reduce<any>(
+    (value, key) => (value === undefined || value === null ? undefined : value[key]),
+    scope
+  );
+}
+
+// Filters applied left-to-right after the path lookup
+const FILTERS: Record<string, (value: any, arg?: string) => any> = {
+  default: (value, arg) => (value === undefined || value === null || value === '' ? arg : value),
+  time: (value) =>
+    value ? new Date(value).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' }) : '',
+  upper: (value) => (value === undefined || value === null ? value : String(value).toUpperCase()),
+  fixed: (value, arg) => {
+    const num = typeof value === 'number' ? value : parseFloat(value);
+    return Number.isFinite(num) ? num.toFixed(parseInt(arg || '2', 10)) : value;
+  },
+};
+
+export const FILTER_NAMES = Object.keys(FILTERS);
+
+function evaluateExpression(expression: string, scope: Scope): any {
+  const [path, ...filters] = expression.split('|').map((part) => part.trim());
+  let value = resolvePath(scope, path);
+
+  for (const filter of filters) {
+    const separator = filter.indexOf(':');
+    const name = separator === -1 ? filter : filter.slice(0, separator);
+    const arg = separator === -1 ? undefined : filter.slice(separator + 1);
+    value = FILTERS[name] ? FILTERS[name](value, arg) : value;
+  }
+
+  return value;
+}
+
+/**
+ * Render a template string. A string that is a single {{...}} expression
+ * keeps the raw value (number, object, ...); otherwise values are interpolated.
+ */
+export function renderTemplate(template: string, scope: Scope): any {
+  const whole = template.match(WHOLE_TEMPLATE_PATTERN);
+  if (whole) {
+    return evaluateExpression(whole[1], scope);
+  }
+
+  return template.replace(TEMPLATE_PATTERN, (_match, expression) => {
+    const value = evaluateExpression(expression, scope);
+    return value === undefined || value === null ? '' : String(value);
+  });
+}
+
+/**
+ * Resolve templates inside strings, arrays and plain objects.
+ */
+export function resolveValue(value: any, scope: Scope): any {
+  if (typeof value === 'string') {
+    return renderTemplate(value, scope);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveValue(item, scope));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveValue(item, scope)])
+    );
+  }
+  return value;
+}
+
+// ────────────────────────────────────────────
+// Computed values for `set` nodes
+// ────────────────────────────────────────────
+const FUNCTIONS: Record<string, (...args: any[]) => any> = {
+  add: (...values: any[]) => values.reduce((sum, value) => sum + (Number(value) || 0), 0),
+  // Milliseconds since a timestamp; 0 when the timestamp is missing
+  elapsedMs: (timestamp: any) => (timestamp ? Date.now() - new Date(timestamp).getTime() : 0),
+  now: () => new Date().toISOString(),
+};
+
+export const FUNCTION_NAMES = Object.keys(FUNCTIONS);
+
+export function isComputedValue(value: any): value is { fn: string; args?: any[] } {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && typeof value.fn === 'string';
+}
+
+export function computeValue(value: any, scope: Scope): any {
+  if (isComputedValue(value)) {
+    const args = (value.args || []).map((arg) => resolveValue(arg, scope));
+    return FUNCTIONS[value.fn](...args);
+  }
+  return resolveValue(value, scope);
+}
+
+// ────────────────────────────────────────────
+// Conditions
+// ────────────────────────────────────────────
+export function evaluateCondition(condition: FlowCondition, scope: Scope): boolean {
+  if ('all' in condition) {
+    return condition.all.every((child) => evaluateCondition(child, scope));
+  }
+  if ('any' in condition) {
+    return condition.any.some((child) => evaluateCondition(child, scope));
+  }
+  if ('not' in condition) {
+    return !evaluateCondition(condition.not, scope);
+  }
+
+  const actual = resolvePath(scope, condition.var);
+  const expected = resolveValue(condition.value, scope);
+
+  switch (condition.op) {
+    case 'eq':
+      return actual === expected;
+    case 'neq':
+      return actual !== expected;
+    case 'gt':
+      return Number(actual) > Number(expected);
+    case 'gte':
+      return Number(actual) >= Number(expected);
+    case 'lt':
+      return Number(actual) < Number(expected);
+    case 'lte':
+      return Number(actual) <= Number(expected);
+    case 'in':
+      return Array.isArray(expected) && expected.includes(actual);
+    case 'exists':
+      return actual !== undefined && actual !== null;
+    case 'truthy':
+      return !!actual;
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,240 @@
+// ============================================================
+// RideSharePro — Flow definition loader
+// Reads *.json / *.yaml / *.yml flow files and validates them
+// so a broken definition fails startup instead of a conversation.
+// ============================================================
+
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { FLOW_PRIORITIES, FlowCondition, FlowDefinition, FlowNode, QUICK_ACTIONS } from '../types';
+import { FUNCTION_NAMES, isComputedValue } from './expressions';
+
+const FLOW_FILE_EXTENSIONS = ['.json', '.yaml', '.yml'];
+const NODE_TYPES = ['api_call', 'set', 'condition', 'response'];
+const CONDITION_OPS = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in', 'exists', 'truthy'];
+const ESCALATION_TYPES = ['driver', 'support', 'safety'];
+const LOG_LEVELS = ['info', 'warn', 'error'];
+
+/**
+ * Raised when one or more flow files are invalid; lists every problem found.
+ */
+export class FlowValidationError extends Error {
+  problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid decision tree flows:\n  - ${problems.join('\n  - ')}`);
+    this.name = 'FlowValidationError';
+    this.problems = problems;
+  }
+}
+
+function parseFlowFile(filePath: string): unknown {
+  const raw = fs.readFileSync(filePath, 'utf8');
+  return path.extname(filePath) === '.json' ? JSON.parse(raw) : YAML.parse(raw);
+}
+
+function validateCondition(condition: any, where: string, problems: string[]): void {
+  if (!condition || typeof condition !== 'object') {
+    problems.push(`${where}: condition must be an object`);
+    return;
+  }
+  if (Array.isArray(condition.all) || Array.isArray(condition.any)) {
+    (condition.all || condition.any).forEach((child: FlowCondition, i: number) =>
+      validateCondition(child, `${where}[${i}]`, problems)
+    );
+    return;
+  }
+  if (condition.not) {
+    validateCondition(condition.not, `${where}.not`, problems);
+    return;
+  }
+  if (typeof condition.var !== 'string') {
+    problems.push(`${where}: condition needs "var"`);
+  }
+  if (!CONDITION_OPS.includes(condition.op)) {
+    problems.push(`${where}: unknown operator "${condition.op}"`);
+  }
+}
+
+function validateNode(
+  flowId: string,
+  nodeId: string,
+  node: FlowNode,
+  nodeIds: Set<string>,
+  operations: Set<string>,
+  problems: string[]
+): void {
+  const where = `${flowId}.${nodeId}`;
+  const checkTarget = (target: unknown, label: string) => {
+    if (typeof target !== 'string' || !nodeIds.has(target)) {
+      problems.push(`${where}: ${label} points to unknown node "${target}"`);
+    }
+  };
+
+  const nodeType: unknown = node && typeof node === 'object' ? (node as { type?: unknown }).type : undefined;
+  if (typeof nodeType !== 'string' || !NODE_TYPES.includes(nodeType)) {
+    problems.push(`${where}: unknown node type "${nodeType}"`);
+    return;
+  }
+
+  if (node.log && (!LOG_LEVELS.includes(node.log.level) || typeof node.log.message !== 'string')) {
+    problems.push(`${where}: log needs a level (${LOG_LEVELS.join('/')}) and a message`);
+  }
+
+  switch (node.type) {
+    case 'api_call':
+      if (!operations.has(node.call)) {
+        problems.push(`${where}: unknown operation "${node.call}"`);
+      }
+      if (node.args !== undefined && !Array.isArray(node.args)) {
+        problems.push(`${where}: args must be an array`);
+      }
+      checkTarget(node.next, 'next');
+      if (node.onError !== undefined) checkTarget(node.onError, 'onError');
+      break;
+
+    case 'set':
+      if (!node.values || typeof node.values !== 'object') {
+        problems.push(`${where}: set node needs "values"`);
+      } else {
+        for (const [key, value] of Object.entries(node.values)) {
+          if (isComputedValue(value) && !FUNCTION_NAMES.includes(value.fn)) {
+            problems.push(`${where}: unknown function "${value.fn}" for "${key}"`);
+          }
+        }
+      }
+      checkTarget(node.next, 'next');
+      break;
+
+    case 'condition':
+      if (!Array.isArray(node.branches) || node.branches.length === 0) {
+        problems.push(`${where}: condition node needs at least one branch`);
+      } else {
+        node.branches.forEach((branch, i) => {
+          validateCondition(branch.when, `${where}.branches[${i}].when`, problems);
+          checkTarget(branch.next, `branches[${i}].next`);
+        });
+      }
+      checkTarget(node.default, 'default');
+      break;
+
+    case 'response':
+      if (typeof node.message !== 'string' && !(Array.isArray(node.messages) && node.messages.length)) {
+        problems.push(`${where}: response node needs "message" or "messages"`);
+      }
+      if (node.escalationType && !ESCALATION_TYPES.includes(node.escalationType)) {
+        problems.push(`${where}: unknown escalationType "${node.escalationType}"`);
+      }
+      validateActions(where, node.suggestedActions, problems);
+      if (node.slots !== undefined && (!node.slots || typeof node.slots !== 'object')) {
+        problems.push(`${where}: slots must be an object`);
+      }
+      if (node.awaitConfirmation) {
+        checkTarget(node.awaitConfirmation.onConfirm, 'awaitConfirmation.onConfirm');
+        checkTarget(node.awaitConfirmation.onDeny, 'awaitConfirmation.onDeny');
+      }
+      break;
+  }
+}
+
+function validateActions(where: string, actions: unknown, problems: string[]): void {
+  if (actions === undefined) return;
+  if (!Array.isArray(actions)) {
+    problems.push(`${where}: suggestedActions must be an array`);
+    return;
+  }
+  for (const action of actions) {
+    if (!(QUICK_ACTIONS as readonly string[]).includes(action)) {
+      problems.push(`${where}: unknown quick action "${action}"`);
+    }
+  }
+}
+
+/**
+ * Validate parsed definitions against the registered operations.
+ * Throws FlowValidationError with every problem found.
+ */
+export function validateFlows(
+  definitions: Array<{ source: string; flow: any }>,
+  operations: Set<string>
+): FlowDefinition[] {
+  const problems: string[] = [];
+  const intents = new Map<string, string>();
+
+  for (const { source, flow } of definitions) {
+    if (!flow || typeof flow !== 'object') {
+      problems.push(`${source}: expected a flow object`);
+      continue;
+    }
+
+    const flowId = flow.id || source;
+    for (const field of ['id', 'intent', 'start']) {
+      if (typeof flow[field] !== 'string' || !flow[field]) {
+        problems.push(`${source}: missing "${field}"`);
+      }
+    }
+    if (!flow.nodes || typeof flow.nodes !== 'object') {
+      problems.push(`${source}: missing "nodes"`);
+      continue;
+    }
+
+    if (typeof flow.intent === 'string') {
+      const existing = intents.get(flow.intent);
+      if (existing) {
+        problems.push(`${source}: intent "${flow.intent}" is already handled by ${existing}`);
+      }
+      intents.set(flow.intent, source);
+    }
+
+    const nodeIds = new Set(Object.keys(flow.nodes));
+    if (typeof flow.start === 'string' && !nodeIds.has(flow.start)) {
+      problems.push(`${flowId}: start node "${flow.start}" does not exist`);
+    }
+    if (flow.priority !== undefined && !(FLOW_PRIORITIES as readonly string[]).includes(flow.priority)) {
+      problems.push(`${flowId}: priority must be one of: ${FLOW_PRIORITIES.join(', ')}`);
+    }
+    validateActions(flowId, flow.suggestedActions, problems);
+
+    for (const [nodeId, node] of Object.entries(flow.nodes)) {
+      validateNode(flowId, nodeId, node as FlowNode, nodeIds, operations, problems);
+    }
+  }
+
+  if (problems.length) {
+    throw new FlowValidationError(problems);
+  }
+
+  return definitions.map(({ flow }) => flow as FlowDefinition);
+}
+
+/**
+ * Load and validate every flow file in a directory.
+ */
+export function loadFlows(flowsDir: string, operations: Set<string>): FlowDefinition[] {
+  if (!fs.existsSync(flowsDir)) {
+    throw new FlowValidationError([`flows directory not found: ${flowsDir}`]);
+  }
+
+  const files = fs
+    .readdirSync(flowsDir)
+    .filter((file) => FLOW_FILE_EXTENSIONS.includes(path.extname(file)))
+    .sort();
+
+  const definitions: Array<{ source: string; flow: any }> = [];
+  const problems: string[] = [];
+
+  for (const file of files) {
+    try {
+      definitions.push({ source: file, flow: parseFlowFile(path.join(flowsDir, file)) });
+    } catch (error) {
+      problems.push(`${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (problems.length) {
+    throw new FlowValidationError(problems);
+  }
+
+  return validateFlows(definitions, operations);
+}
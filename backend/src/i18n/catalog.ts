@@ -0,0 +1,142 @@
+// ============================================================
+// RideSharePro — Message catalog
+// Every bot string per language (data/i18n/<language>.json),
+// rendered with the same {{path | filter}} templates as flows.
+// English is the reference: another language must translate every
+// key it has. Flow messages are written in English in the flow
+// files; other languages translate them under
+// flows.<flowId>.<nodeId>.
+// ============================================================
+
+import fs from 'fs';
+import path from 'path';
+import { Language, LANGUAGES } from '../types';
+import config from '../config';
+import logger from '../utils/logger';
+import { renderTemplate } from '../decisionTree/expressions';
+
+const REFERENCE_LANGUAGE: Language = 'en';
+const FLOWS_SECTION = 'flows';
+
+type CatalogValue = string | string[];
+
+/**
+ * Raised when a catalog file is missing, unreadable or incomplete; lists every problem found.
+ */
+export class CatalogValidationError extends Error {
+  problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid message catalog:\n  - ${problems.join('\n  - ')}`);
+    this.name = 'CatalogValidationError';
+    this.problems = problems;
+  }
+}
+
+const isStringList = (value: any) =>
+  Array.isArray(value) && value.length > 0 && value.every((item) => typeof item === 'string');
+
+// { greeting: { fallback: "..." } } → "greeting.fallback" => "..."
+function flatten(
+  value: any,
+  prefix: string,
+  into: Map<string, CatalogValue>,
+  problems: string[],
+  source: string
+): void {
+  if (typeof value === 'string' || isStringList(value)) {
+    into.set(prefix, value);
+  } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      flatten(child, prefix ? `${prefix}.${key}` : key, into, problems, source);
+    }
+  } else {
+    problems.push(`${source}: "${prefix}" must be a string, a list of strings or an object`);
+  }
+}
+
+class MessageCatalog {
+  private messages: Map<Language, Map<string, CatalogValue>>;
+
+  constructor() {
+    this.messages = this.load(config.i18nDir);
+    logger.info('Message catalog loaded', { i18nDir: config.i18nDir, languages: [...this.messages.keys()] });
+  }
+
+  private load(i18nDir: string): Map<Language, Map<string, CatalogValue>> {
+    const problems: string[] = [];
+    const catalogs = new Map<Language, Map<string, CatalogValue>>();
+
+    for (const language of LANGUAGES) {
+      const file = `${language}.json`;
+      const messages = new Map<string, CatalogValue>();
+      try {
+        flatten(JSON.parse(fs.readFileSync(path.join(i18nDir, file), 'utf8')), '', messages, problems, file);
+      } catch (error) {
+        problems.push(`${file}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      catalogs.set(language, messages);
+    }
+
+    const reference = catalogs.get(REFERENCE_LANGUAGE)!;
+    for (const [language, messages] of catalogs) {
+      if (language === REFERENCE_LANGUAGE || !messages.size) continue;
+      for (const key of reference.keys()) {
+        if (!messages.has(key)) problems.push(`${language}.json: missing "${key}"`);
+      }
+      for (const key of messages.keys()) {
+        if (!reference.has(key) && !key.startsWith(`${FLOWS_SECTION}.`)) {
+          problems.push(`${language}.json: unknown key "${key}"`);
+        }
+      }
+    }
+
+    if (problems.length) {
+      throw new CatalogValidationError(problems);
+    }
+    return catalogs;
+  }
+
+  private lookup(language: Language, key: string): CatalogValue {
+    const value = this.messages.get(language)?.get(key) ?? this.messages.get(REFERENCE_LANGUAGE)!.get(key);
+    if (value === undefined) {
+      logger.error('Missing catalog message', { language, key });
+      return key;
+    }
+    return value;
+  }
+
+  // Whether the (English) catalog defines `key`
+  has(key: string): boolean {
+    return this.messages.get(REFERENCE_LANGUAGE)!.has(key);
+  }
+
+  /**
+   * The message under `key` in `language`, with {{vars}} filled in.
+   * A key holding several variants renders one at random.
+   */
+  t(language: Language, key: string, vars: Record<string, any> = {}): string {
+    const value = this.lookup(language, key);
+    const template = Array.isArray(value) ? value[Math.floor(Math.random() * value.length)] : value;
+    return String(renderTemplate(template, vars) ?? '');
+  }
+
+  // Every variant under `key`, rendered
+  list(language: Language, key: string, vars: Record<string, any> = {}): string[] {
+    const value = this.lookup(language, key);
+    return (Array.isArray(value) ? value : [value])
+      .map((template) => String(renderTemplate(template, vars) ?? ''));
+  }
+
+  /**
+   * Translated template(s) for a flow's response node; undefined in
+   * English and when the node has no translation (the flow file's text is used).
+   */
+  flowMessages(language: Language, flowId: string, nodeId: string): string[] | undefined {
+    const value = this.messages.get(language)?.get(`${FLOWS_SECTION}.${flowId}.${nodeId}`);
+    if (value === undefined) return undefined;
+    return Array.isArray(value) ? value : [value];
+  }
+}
+
+export default new MessageCatalog();
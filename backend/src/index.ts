@@ -5,12 +5,26 @@ import config from './config';
 import logger from './utils/logger';
 import chatbotRoutes from './routes/chatbotRoutes';
 import dummyRoutes from './routes/dummyRoutes';
+import adminRoutes from './routes/adminRoutes';
+import safetyRoutes from './routes/safetyRoutes';
+import tripShareRoutes from './routes/tripShareRoutes';
+import agentRoutes from './routes/agentRoutes';
+import driverRelayRoutes from './routes/driverRelayRoutes';
+import { captureRawBody } from './middleware/rawBody';
+import { closePool } from './db/pool';
+import apiClient from './utils/apiClient';
 
 const app: Express = express();
 
 // Middleware
 app.use(cors());
-app.use(bodyParser.json({ limit: '10mb' }));
+app.use(
+  bodyParser.json({
+    limit: '10mb',
+    // Webhook signatures are checked against the exact bytes received
+    verify: captureRawBody,
+  })
+);
 app.use(bodyParser.urlencoded({ limit: '10mb', extended: true }));
 
 // Request logging
@@ -37,12 +51,19 @@ app.get('/health', (_req: Request, res: Response) => {
     service: 'rideshare-chatbot-api',
     timestamp: new Date().toISOString(),
     uptime: process.uptime(),
+    // Circuit breaker state per downstream API
+    dependencies: apiClient.getHealth(),
   });
 });
 
 // API Routes
 app.use('/api/chatbot', chatbotRoutes);
 app.use('/api/dummy', dummyRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/safety', safetyRoutes);
+app.use('/api/trip-share', tripShareRoutes);
+app.use('/api/agent', agentRoutes);
+app.use('/api/driver-relay', driverRelayRoutes);
 
 // Root route
 app.get('/', (_req: Request, res: Response) => {
@@ -51,6 +72,11 @@ app.get('/', (_req: Request, res: Response) => {
     version: '1.0.0',
     endpoints: {
       chatbot: '/api/chatbot',
+      admin: '/api/admin',
+      safety: '/api/safety',
+      tripShare: '/api/trip-share',
+      agent: '/api/agent',
+      driverRelay: '/api/driver-relay',
       dummy: '/api/dummy',
       dummyHealth: '/api/dummy/health',
       health: '/health',
@@ -94,7 +120,8 @@ const server = app.listen(port, () => {
 // Graceful shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received, shutting down gracefully');
-  server.close(() => {
+  server.close(async () => {
+    await closePool();
     logger.info('Server closed');
     process.exit(0);
   });
@@ -102,7 +129,8 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   logger.info('SIGINT received, shutting down gracefully');
-  server.close(() => {
+  server.close(async () => {
+    await closePool();
     logger.info('Server closed');
     process.exit(0);
   });
@@ -0,0 +1,85 @@
+import { Request, Response, NextFunction } from 'express';
+import jwt, { JwtPayload } from 'jsonwebtoken';
+import config from '../config';
+import logger from '../utils/logger';
+import { AuthContext, UserRole } from '../types';
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext;
+    }
+  }
+}
+
+const ROLES: UserRole[] = ['rider', 'agent', 'admin', 'driver'];
+const STAFF_ROLES: UserRole[] = ['agent', 'admin'];
+
+/**
+ * Verify the `Authorization: Bearer <jwt>` header (HS256, signed with
+ * config.jwtSecret) and attach `req.auth`. The token subject is the user id;
+ * the optional `role` claim defaults to 'rider'.
+ */
+export function authenticate(req: Request, res: Response, next: NextFunction) {
+  const header = req.headers.authorization || '';
+  const [scheme, token] = header.split(' ');
+
+  if (scheme !== 'Bearer' || !token) {
+    return res.status(401).json({ error: 'Missing or malformed Authorization header' });
+  }
+
+  try {
+    const payload = jwt.verify(token, config.jwtSecret, { algorithms: ['HS256'] }) as JwtPayload;
+    const role = (payload.role || 'rider') as UserRole;
+
+    if (!payload.sub || !ROLES.includes(role)) {
+      return res.status(401).json({ error: 'Invalid token claims' });
+    }
+
+    req.auth = { userId: payload.sub, role };
+    return next();
+  } catch (error) {
+    logger.warn('Token verification failed', {
+      path: req.path,
+      reason: error instanceof Error ? error.message : 'unknown',
+    });
+    return res.status(401).json({ error: 'Invalid or expired token' });
+  }
+}
+
+/**
+ * Restrict a route to the given roles. Must run after `authenticate`.
+ */
+export function requireRole(...roles: UserRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.auth || !roles.includes(req.auth.role)) {
+      return res.status(403).json({ error: 'Insufficient permissions' });
+    }
+    return next();
+  };
+}
+
+export function isStaff(auth?: AuthContext): boolean {
+  return !!auth && STAFF_ROLES.includes(auth.role);
+}
+
+/**
+ * Riders may only access their own resources; agents and admins see across users.
+ * A driver owns no rider resources, even with a matching id.
+ */
+export function canAccessUser(auth: AuthContext | undefined, ownerUserId: string): boolean {
+  if (!auth) return false;
+  return isStaff(auth) || (auth.role === 'rider' && auth.userId === ownerUserId);
+}
+
+/**
+ * Issue a token for the given user. Used by tooling and local testing —
+ * production tokens are expected to come from the identity provider.
+ */
+export function signToken(userId: string, role: UserRole = 'rider', expiresIn: string | number = '1h'): string {
+  return jwt.sign({ role }, config.jwtSecret, {
+    algorithm: 'HS256',
+    subject: userId,
+    expiresIn: expiresIn as jwt.SignOptions['expiresIn'],
+  });
+}
@@ -0,0 +1,15 @@
+import { IncomingMessage } from 'http';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // The JSON body as received, for checking webhook signatures
+      rawBody?: Buffer;
+    }
+  }
+}
+
+// bodyParser.json's `verify` hook: keeps the exact bytes before parsing
+export function captureRawBody(req: IncomingMessage, _res: unknown, buf: Buffer): void {
+  (req as Express.Request).rawBody = buf;
+}
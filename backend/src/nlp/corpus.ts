@@ -0,0 +1,143 @@
+// ============================================================
+// RideSharePro — Intent training corpus
+// Versioned snapshots in data/nlp/corpus/v<N>.json; the highest
+// version is the one the classifier trains on. A snapshot is never
+// edited in place: adding phrases writes the next version.
+// ============================================================
+
+import fs from 'fs';
+import path from 'path';
+import { IntentCorpus, LabelledUtterance } from '../types';
+
+const VERSION_FILE_PATTERN = /^v(\d+)\.json$/;
+
+/**
+ * Raised when a corpus file or a batch of new utterances is invalid;
+ * lists every problem found.
+ */
+export class CorpusValidationError extends Error {
+  problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid training corpus:\n  - ${problems.join('\n  - ')}`);
+    this.name = 'CorpusValidationError';
+    this.problems = problems;
+  }
+}
+
+export function normalizePhrase(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function validateCorpus(source: string, corpus: any): IntentCorpus {
+  const problems: string[] = [];
+
+  if (!corpus || typeof corpus !== 'object') {
+    throw new CorpusValidationError([`${source}: expected a corpus object`]);
+  }
+  if (!Number.isInteger(corpus.version) || corpus.version < 1) {
+    problems.push(`${source}: "version" must be a positive integer`);
+  }
+  if (!corpus.intents || typeof corpus.intents !== 'object' || !Object.keys(corpus.intents).length) {
+    problems.push(`${source}: "intents" needs at least one intent`);
+  } else {
+    for (const [intent, phrases] of Object.entries(corpus.intents)) {
+      if (!Array.isArray(phrases) || !phrases.length || phrases.some((p) => typeof p !== 'string' || !p.trim())) {
+        problems.push(`${source}: "${intent}" needs a non-empty list of phrases`);
+      }
+    }
+  }
+
+  if (problems.length) {
+    throw new CorpusValidationError(problems);
+  }
+  return corpus as IntentCorpus;
+}
+
+function listVersions(corpusDir: string): number[] {
+  if (!fs.existsSync(corpusDir)) return [];
+  return fs
+    .readdirSync(corpusDir)
+    .map((file) => file.match(VERSION_FILE_PATTERN))
+    .filter((match): match is RegExpMatchArray => !!match)
+    .map((match) => parseInt(match[1], 10))
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Load the highest-numbered corpus snapshot in a directory.
+ */
+export function loadLatestCorpus(corpusDir: string): IntentCorpus {
+  const versions = listVersions(corpusDir);
+  if (!versions.length) {
+    throw new CorpusValidationError([`no v<N>.json corpus files in ${corpusDir}`]);
+  }
+
+  const file = `v${versions[versions.length - 1]}.json`;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(path.join(corpusDir, file), 'utf8'));
+  } catch (error) {
+    throw new CorpusValidationError([`${file}: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+  return validateCorpus(file, parsed);
+}
+
+export function nextCorpusVersion(corpusDir: string): number {
+  const versions = listVersions(corpusDir);
+  return (versions[versions.length - 1] || 0) + 1;
+}
+
+/**
+ * Write a snapshot as v<version>.json. Refuses to overwrite an existing version.
+ */
+export function writeCorpus(corpusDir: string, corpus: IntentCorpus): string {
+  const filePath = path.join(corpusDir, `v${corpus.version}.json`);
+  fs.mkdirSync(corpusDir, { recursive: true });
+  fs.writeFileSync(filePath, `${JSON.stringify(corpus, null, 2)}\n`, { flag: 'wx' });
+  return filePath;
+}
+
+/**
+ * Build the next snapshot from `base` plus new labelled utterances.
+ * Intents must already exist (each one needs a flow); phrases already in
+ * the corpus are skipped. Returns the snapshot and how many phrases it adds.
+ */
+export function extendCorpus(
+  base: IntentCorpus,
+  utterances: LabelledUtterance[],
+  version: number,
+  note?: string
+): { corpus: IntentCorpus; added: number } {
+  const problems: string[] = [];
+  utterances.forEach((utterance, index) => {
+    if (typeof utterance?.text !== 'string' || !utterance.text.trim()) {
+      problems.push(`utterances[${index}]: "text" is required`);
+    }
+    if (typeof utterance?.intent !== 'string' || !base.intents[utterance.intent]) {
+      problems.push(`utterances[${index}]: unknown intent "${utterance?.intent}"`);
+    }
+  });
+  if (problems.length) {
+    throw new CorpusValidationError(problems);
+  }
+
+  const intents = Object.fromEntries(
+    Object.entries(base.intents).map(([intent, phrases]) => [intent, [...phrases]])
+  );
+  const known = new Set(Object.values(intents).flat().map(normalizePhrase));
+
+  let added = 0;
+  for (const { text, intent } of utterances) {
+    const phrase = normalizePhrase(text);
+    if (known.has(phrase)) continue;
+    known.add(phrase);
+    intents[intent].push(phrase);
+    added++;
+  }
+
+  return {
+    corpus: { version, createdAt: new Date().toISOString(), note, intents },
+    added,
+  };
+}
@@ -0,0 +1,144 @@
+// ============================================================
+// RideSharePro — Entity extraction
+// Booking IDs, licence plates, money amounts, places, relative
+// times and item descriptions from a rider message. Runs on the
+// raw text: "$12.50", "#booking_123" and "ABC-1234" lose their
+// meaning once punctuation is stripped for classification.
+// Flows read the result as {{entities.<name>}}.
+// ============================================================
+
+import { ExtractedEntities, MoneyEntity, RelativeTimeEntity } from '../types';
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8,
+  nine: 9, ten: 10, fifteen: 15, twenty: 20, thirty: 30, forty: 40, 'forty five': 45,
+  'forty-five': 45, sixty: 60, ninety: 90, 'a couple of': 2, 'a few': 3,
+};
+const NUMBER = `\\d+(?:\\.\\d+)?|${Object.keys(NUMBER_WORDS).sort((a, b) => b.length - a.length).join('|')}`;
+
+const BOOKING_ID_PATTERNS = [
+  /\b(booking[_-][a-z0-9]+)\b/i,
+  /\b(?:booking|ride|trip|order)\s*(?:id|number|no\.?|ref(?:erence)?)?\s*(?:is\s*)?[:#]\s*([a-z0-9][a-z0-9_-]{2,})/i,
+  /\b(?:booking|ride|trip|order)\s+(?:id|number|no\.?|ref(?:erence)?)\s+(?:is\s+)?([a-z0-9][a-z0-9_-]{2,})/i,
+];
+
+// "plate ABC 1234", "reg is XY12 ABC"; bare plates only in the common AAA-1234 shape
+const PLATE_WITH_KEYWORD =
+  /\b(?:plate|licen[cs]e|registration|reg)(?:\s+(?:number|no\.?|plate))?\s*(?:is|was|:)?\s+([a-z0-9]{1,4}[ -]?[a-z0-9]{2,5})\b/i;
+const BARE_PLATE = /\b([A-Z]{2,3}[ -]?\d{3,4})\b/;
+
+const CURRENCY_SYMBOLS: Record<string, string> = { $: 'USD', '€': 'EUR', '£': 'GBP' };
+const CURRENCY_WORDS: Record<string, string> = {
+  dollar: 'USD', dollars: 'USD', usd: 'USD', bucks: 'USD',
+  euro: 'EUR', euros: 'EUR', eur: 'EUR',
+  pound: 'GBP', pounds: 'GBP', gbp: 'GBP',
+};
+const MONEY_PATTERN = new RegExp(
+  `([$€£])\\s?(\\d+(?:[.,]\\d{1,2})?)|\\b(\\d+(?:[.,]\\d{1,2})?)\\s?(${Object.keys(CURRENCY_WORDS).join('|')})\\b`,
+  'gi'
+);
+
+// "I'm at gate 3", "pick me up outside the north entrance", "meet me by Starbucks"
+const LOCATION_PHRASE =
+  /\b(?:i'?m|i am|we'?re|we are|waiting|standing|pick (?:me|us) up|meet (?:me|us)|come to|pickup is|pickup spot is)\s+(?:at|by|near|outside(?: of)?|in front of|next to|opposite|behind|on)\s+(.+?)(?=[.,!?;]|\s+(?:and|but|so|because|please)\b|$)/i;
+const LANDMARK = /\b((?:gate|terminal|door|exit|entrance|bay|level|platform|zone|stand|lot)\s+[a-z]?\d+[a-z]?)\b/i;
+const STREET_ADDRESS =
+  /\b(\d+[a-z]?\s+(?:[a-z]+\s){0,3}(?:street|st|avenue|ave|road|rd|boulevard|blvd|lane|ln|drive|dr|way|place|pl|court|ct))\b\.?/i;
+
+const RELATIVE_TIME = new RegExp(
+  `\\b(?:(in|within|for|about|around)\\s+)?(half an hour|${NUMBER})(?:\\s*(minutes?|mins?|hours?|hrs?))?(\\s+ago)?\\b`,
+  'gi'
+);
+
+// "I left my black backpack in the car", "lost an iPhone", "forgot my keys"
+const ITEM_PHRASE =
+  /\b(?:left|lost|forgot|forgotten|dropped|misplaced|missing)\s+(?:my|a|an|the|our|his|her)\s+(.+?)(?=\s+(?:in|on|at|inside|under|behind|with|when|while|during)\b|[.,!?;]|\s+(?:and|but)\b|$)/i;
+const MAX_ITEM_WORDS = 4;
+
+const URGENT_PATTERN = /\b(urgent|urgently|asap|immediately|right now|emergency)\b/i;
+
+function parseNumber(value: string): number {
+  const word = value.toLowerCase();
+  return word in NUMBER_WORDS ? NUMBER_WORDS[word] : parseFloat(value.replace(',', '.'));
+}
+
+function extractBookingId(text: string): string | undefined {
+  for (const pattern of BOOKING_ID_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+function extractPlate(text: string, bookingId?: string): string | undefined {
+  const match = text.match(PLATE_WITH_KEYWORD) || text.match(BARE_PLATE);
+  if (!match || match[1] === bookingId || !/\d/.test(match[1]) || !/[a-z]/i.test(match[1])) return undefined;
+  return match[1].toUpperCase();
+}
+
+function extractAmounts(text: string): MoneyEntity[] {
+  return [...text.matchAll(MONEY_PATTERN)].map((match) => ({
+    value: parseNumber(match[2] || match[3]),
+    currency: match[1] ? CURRENCY_SYMBOLS[match[1]] : CURRENCY_WORDS[match[4].toLowerCase()],
+    text: match[0].trim(),
+  }));
+}
+
+function extractLocation(text: string): ExtractedEntities['location'] {
+  const address = text.match(STREET_ADDRESS);
+  if (address) return { text: address[1], type: 'address' };
+
+  const landmark = text.match(LANDMARK);
+  if (landmark) return { text: landmark[1], type: 'landmark' };
+
+  const phrase = text.match(LOCATION_PHRASE);
+  if (phrase) return { text: phrase[1].trim(), type: 'landmark' };
+  return undefined;
+}
+
+// A number only counts with a unit ("20 minutes") or as "half an hour";
+// "2 bags" or "about 20" on their own are skipped
+function extractRelativeTime(text: string): RelativeTimeEntity | undefined {
+  for (const [phrase, preposition, amount, unit, ago] of text.matchAll(RELATIVE_TIME)) {
+    const isHalfHour = /half an hour/i.test(amount);
+    if (!unit && !isHalfHour) continue;
+
+    const minutes = isHalfHour ? 30 : parseNumber(amount) * (/^h/i.test(unit) ? 60 : 1);
+    const direction = ago ? 'past' : /^(in|within)$/i.test(preposition || '') ? 'future' : 'duration';
+    return { text: phrase.trim(), minutes, direction };
+  }
+  return undefined;
+}
+
+function extractItems(text: string): string[] | undefined {
+  const match = text.match(ITEM_PHRASE);
+  if (!match) return undefined;
+
+  const item = match[1].trim().toLowerCase();
+  return item.split(/\s+/).length <= MAX_ITEM_WORDS ? [item] : undefined;
+}
+
+/**
+ * Everything recognisable in a rider message. Only the keys that matched
+ * are present, so flows can test them with `exists`.
+ */
+export function extractEntities(text: string): ExtractedEntities {
+  const entities: ExtractedEntities = {};
+
+  const bookingId = extractBookingId(text);
+  const licensePlate = extractPlate(text, bookingId);
+  const amounts = extractAmounts(text);
+  const location = extractLocation(text);
+  const relativeTime = extractRelativeTime(text);
+  const items = extractItems(text);
+
+  if (bookingId) entities.bookingId = bookingId;
+  if (licensePlate) entities.licensePlate = licensePlate;
+  if (amounts.length) entities.amounts = amounts;
+  if (location) entities.location = location;
+  if (relativeTime) entities.relativeTime = relativeTime;
+  if (items) entities.items = items;
+  if (URGENT_PATTERN.test(text)) entities.urgent = true;
+
+  return entities;
+}
@@ -0,0 +1,119 @@
+// ============================================================
+// RideSharePro — Intent classifier evaluation
+// Scores a labelled, held-out utterance set (data/nlp/eval.json)
+// and reports per-intent precision / recall and a confusion matrix.
+// Run with `npm run eval:nlp`.
+// ============================================================
+
+import fs from 'fs';
+import { IntentEvaluationSummary, IntentResult, LabelledUtterance } from '../types';
+
+export interface IntentMetrics {
+  intent: string;
+  precision: number;
+  recall: number;
+  f1: number;
+  support: number;
+}
+
+export interface EvaluationReport extends IntentEvaluationSummary {
+  // coverage: share of utterances answered with an intent rather than 'unknown'
+  labels: string[];
+  perIntent: IntentMetrics[];
+  // confusion[expected][predicted] = count
+  confusion: Record<string, Record<string, number>>;
+  errors: Array<{ text: string; expected: string; predicted: string; confidence: number }>;
+}
+
+export function loadLabelledSet(filePath: string): LabelledUtterance[] {
+  const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  const examples = Array.isArray(parsed) ? parsed : parsed.examples;
+
+  if (!Array.isArray(examples) || examples.some((e) => typeof e?.text !== 'string' || typeof e?.intent !== 'string')) {
+    throw new Error(`${filePath}: expected "examples" as [{ "text", "intent" }]`);
+  }
+  return examples;
+}
+
+const ratio = (numerator: number, denominator: number) => (denominator ? numerator / denominator : 0);
+
+export async function evaluateIntents(
+  examples: LabelledUtterance[],
+  detect: (text: string) => Promise<IntentResult>
+): Promise<EvaluationReport> {
+  const predictions: Array<LabelledUtterance & { predicted: string; confidence: number }> = [];
+  for (const example of examples) {
+    const result = await detect(example.text);
+    predictions.push({ ...example, predicted: result.intent, confidence: result.confidence });
+  }
+
+  const labels = [...new Set(predictions.flatMap((p) => [p.intent, p.predicted]))].sort();
+  const confusion: Record<string, Record<string, number>> = Object.fromEntries(
+    labels.map((expected) => [expected, Object.fromEntries(labels.map((predicted) => [predicted, 0]))])
+  );
+  predictions.forEach((p) => confusion[p.intent][p.predicted]++);
+
+  const perIntent = labels.map((intent) => {
+    const truePositives = confusion[intent][intent];
+    const predictedCount = labels.reduce((sum, expected) => sum + confusion[expected][intent], 0);
+    const support = labels.reduce((sum, predicted) => sum + confusion[intent][predicted], 0);
+    const precision = ratio(truePositives, predictedCount);
+    const recall = ratio(truePositives, support);
+    return { intent, precision, recall, f1: ratio(2 * precision * recall, precision + recall), support };
+  });
+
+  const correct = predictions.filter((p) => p.predicted === p.intent).length;
+  return {
+    total: predictions.length,
+    accuracy: ratio(correct, predictions.length),
+    coverage: ratio(predictions.filter((p) => p.predicted !== 'unknown').length, predictions.length),
+    labels,
+    perIntent,
+    confusion,
+    errors: predictions
+      .filter((p) => p.predicted !== p.intent)
+      .map(({ text, intent, predicted, confidence }) => ({ text, expected: intent, predicted, confidence })),
+  };
+}
+
+/**
+ * Plain-text report: summary, per-intent table, confusion matrix
+ * (rows = expected, columns = predicted, headed by row number) and misses.
+ */
+export function formatReport(report: EvaluationReport): string {
+  const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+  const width = Math.max(...report.labels.map((label) => label.length));
+  const lines: string[] = [];
+
+  lines.push(`Utterances: ${report.total}   Accuracy: ${pct(report.accuracy)}   Coverage: ${pct(report.coverage)}`);
+  lines.push('');
+  lines.push(`${'intent'.padEnd(width)}  precision  recall     f1  support`);
+  for (const m of report.perIntent) {
+    lines.push(
+      `${m.intent.padEnd(width)}  ${pct(m.precision).padStart(9)}  ${pct(m.recall).padStart(6)}  ` +
+      `${pct(m.f1).padStart(6)}  ${String(m.support).padStart(7)}`
+    );
+  }
+
+  lines.push('');
+  lines.push('Confusion matrix (rows = expected, columns = predicted)');
+  const cell = Math.max(3, String(report.total).length + 1);
+  lines.push(`${''.padEnd(width + 5)}${report.labels.map((_, i) => String(i + 1).padStart(cell)).join('')}`);
+  report.labels.forEach((expected, i) => {
+    const counts = report.labels.map((predicted) => {
+      const count = report.confusion[expected][predicted];
+      return (count ? String(count) : '.').padStart(cell);
+    });
+    lines.push(`${String(i + 1).padStart(2)}. ${expected.padEnd(width)} ${counts.join('')}`);
+  });
+
+  if (report.errors.length) {
+    lines.push('');
+    lines.push('Misclassified');
+    for (const error of report.errors) {
+      lines.push(`  "${error.text}": expected ${error.expected}, got ${error.predicted} (${error.confidence.toFixed(2)})`);
+    }
+  }
+
+  return lines.join('\n');
+}
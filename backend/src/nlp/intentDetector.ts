@@ -1,16 +1,182 @@
-import { IntentResult, QuickAction } from '../types';
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  IntentCandidate,
+  IntentCorpus,
+  IntentModelInfo,
+  IntentResult,
+  IntentTrainingJob,
+  LabelledUtterance,
+  Language,
+  LANGUAGES,
+  QuickAction,
+} from '../types';
 import logger from '../utils/logger';
 import config from '../config';
+import catalog from '../i18n/catalog';
+import { extendCorpus, loadLatestCorpus, nextCorpusVersion, writeCorpus } from './corpus';
+import { loadLabelledSet } from './evaluation';
+import { extractEntities } from './entities';
+import { stripAccents } from './language';
+import { expandAbbreviations, SpellingCorrector } from './normalization';
 
-const { BayesClassifier } = require('natural');
+const {
+  AggressiveTokenizer,
+  AggressiveTokenizerEs,
+  AggressiveTokenizerFr,
+  BayesClassifier,
+  PorterStemmer,
+  PorterStemmerEs,
+  PorterStemmerFr,
+  stopwords,
+} = require('natural');
+const spanishStopwords: string[] = require('natural/lib/natural/util/stopwords_es').words;
+const frenchStopwords: string[] = require('natural/lib/natural/util/stopwords_fr').words;
+
+// ────────────────────────────────────────────
+// Intent scoring
+// Bayes scores are normalized into a distribution over intents and
+// sharpened/flattened by a temperature fitted with cross-validation on
+// the training phrases, so `confidence` reads as "how often this is right".
+// Below config.nlpConfidenceThreshold the intent is reported as unknown.
+// The corpus also has an out_of_scope label of phrases the bot does not
+// handle ("what's the weather"): it takes the probability mass that would
+// otherwise make such text look like a confident match, and is never returned.
+// Each language has its own corpus (data/nlp/corpus/<language>/) and model;
+// a language without a corpus is answered by the English model.
+// ────────────────────────────────────────────
+
+interface LanguageRules {
+  tokenizer: { tokenize(text: string): string[] };
+  stemmer: { stem(word: string): string };
+  stopwords: string[];
+  // natural's stopword lists drop these, but they separate "where is my driver"
+  // from "my driver is late" and "how much is the fare"
+  intentWords: string[];
+  // Where a compound message ("my driver is late and what's the fare") is cut
+  // into parts that are classified on their own
+  clauseBoundary: RegExp;
+  // Replies to a pending yes/no question (matched after preprocessText: no
+  // accents or apostrophes). English ones are accepted in every language.
+  deny: RegExp;
+  confirm: RegExp;
+  // French elides ("l'heure", "n'arrive"): the apostrophe separates two words
+  splitApostrophes?: boolean;
+}
+
+const LANGUAGE_RULES: Record<Language, LanguageRules> = {
+  en: {
+    tokenizer: new AggressiveTokenizer(),
+    stemmer: PorterStemmer,
+    stopwords,
+    intentWords: ['where', 'when', 'how', 'much', 'why', 'what', 'cannot', 'still', 'too', 'never'],
+    clauseBoundary: /[.;!?]+|,|\b(?:and also|and then|and|also|plus|but|as well as)\b/i,
+    deny: /\b(no|nope|nah|dont|do not|keep( it| my (booking|ride))?|never ?mind|not now|changed my mind|leave it)\b/,
+    confirm: /\b(yes|yeah|yep|yup|sure|confirm|confirmed|proceed|go ahead|do it|please do|cancel it)\b/,
+  },
+  es: {
+    tokenizer: new AggressiveTokenizerEs(),
+    stemmer: PorterStemmerEs,
+    stopwords: spanishStopwords,
+    intentWords: ['donde', 'cuando', 'cuanto', 'como', 'por', 'que', 'no', 'todavia', 'nunca', 'mas'],
+    clauseBoundary: /[.;!?¿¡]+|,|\b(?:y también|y tambien|y luego|y además|y ademas|y|también|tambien|pero)\b/i,
+    deny: /\b(no|mejor no|dejalo|dejala|mantener|mantenla|mantenlo|olvidalo|ahora no|cambie de opinion)\b/,
+    confirm: /\b(si|claro|vale|dale|de acuerdo|confirmo|confirmar|adelante|hazlo|cancela|cancelala|cancelalo)\b/,
+  },
+  fr: {
+    tokenizer: new AggressiveTokenizerFr(),
+    stemmer: PorterStemmerFr,
+    stopwords: frenchStopwords,
+    intentWords: ['ou', 'quand', 'combien', 'comment', 'pourquoi', 'pas', 'ne', 'encore', 'toujours', 'jamais', 'trop'],
+    clauseBoundary: /[.;!?]+|,|\b(?:et aussi|et puis|et|aussi|puis|mais)\b/i,
+    deny: /\b(non|ne pas|n annule pas|laisse|laissez|garde|gardez|garder|pas maintenant|tant pis|oublie|oubliez)\b/,
+    confirm: /\b(oui|ouais|bien sur|d accord|dac|confirme|confirmer|vas y|allez y|annule|annulez|annuler)\b/,
+    splitApostrophes: true,
+  },
+};
+
+// Lighter than natural's default add-one smoothing, which flattens short phrases
+const SMOOTHING = 0.3;
+const CALIBRATION_FOLDS = 5;
+const MAX_CANDIDATES = 3;
+const MAX_TRAINING_JOBS = 20;
+const OUT_OF_SCOPE = 'out_of_scope';
+
+interface IntentStemmer {
+  tokenizeAndStem(text: string): string[];
+}
+
+// Passed to BayesClassifier in place of natural's stemmer
+function createStemmer(rules: LanguageRules): IntentStemmer {
+  const intentWords = new Set(rules.intentWords);
+  const stopwordSet = new Set(rules.stopwords.map(stripAccents).filter((word) => !intentWords.has(word)));
+  return {
+    tokenizeAndStem(text: string): string[] {
+      return rules.tokenizer
+        .tokenize(text.toLowerCase())
+        .filter((token: string) => !stopwordSet.has(token))
+        .map((token: string) => rules.stemmer.stem(token));
+    },
+  };
+}
+
+const STEMMERS = Object.fromEntries(
+  LANGUAGES.map((language) => [language, createStemmer(LANGUAGE_RULES[language])])
+) as Record<Language, IntentStemmer>;
+
+type TrainingData = Record<string, string[]>;
+
+// A trained classifier with the corpus it came from; swapped as a whole
+interface IntentModel {
+  language: Language;
+  classifier: any;
+  temperature: number;
+  // Corrects typos to words in this model's training phrases
+  speller: SpellingCorrector;
+  labels: string[];
+  info: IntentModelInfo;
+}
+
+/**
+ * Raised when a retrain is requested while another one is still running.
+ */
+export class TrainingInProgressError extends Error {
+  constructor(job: IntentTrainingJob) {
+    super(`Training job ${job.id} (${job.language} corpus v${job.corpusVersion}) is still running`);
+    this.name = 'TrainingInProgressError';
+  }
+}
+
+const MAX_CONFIRMATION_WORDS = 8;
+
+const corpusDir = (language: Language) => path.join(config.nlpCorpusDir, language);
+
+// eval.json for English, eval.<language>.json beside it for the others
+const evalFile = (language: Language) =>
+  language === 'en' ? config.nlpEvalFile : config.nlpEvalFile.replace(/\.json$/, `.${language}.json`);
 
 class NLPService {
-  private classifier: any;
+  private models = new Map<Language, IntentModel>();
   private intents: Map<string, QuickAction>;
+  private jobs: IntentTrainingJob[] = [];
+  private jobCompletions = new Map<string, Promise<IntentTrainingJob>>();
 
   constructor() {
     this.intents = this.initializeIntents();
-    this.classifier = this.trainClassifier();
+    for (const language of LANGUAGES) {
+      // English is required; another language without a corpus falls back to it
+      if (language !== 'en' && !fs.existsSync(corpusDir(language))) {
+        logger.warn('No intent corpus for language; using the English model', { language });
+        continue;
+      }
+      const model = this.trainModel(language, loadLatestCorpus(corpusDir(language)));
+      this.models.set(language, model);
+      logger.info('Intent classifier trained', {
+        ...model.info,
+        confidenceThreshold: config.nlpConfidenceThreshold,
+      });
+    }
   }
 
   private initializeIntents(): Map<string, QuickAction> {
@@ -29,214 +195,205 @@ class NLPService {
     ]);
   }
 
-  private trainClassifier() {
-    const classifier = new BayesClassifier();
-
-    // Training data for each intent — more phrases = better classification
-    const trainingData: Record<string, string[]> = {
-      where_is_driver: [
-        'where is my driver',
-        'where is driver',
-        'how far is my driver',
-        'when will driver arrive',
-        'driver location',
-        'how long until driver arrives',
-        'show driver location',
-        'driver eta',
-        'how many minutes until driver',
-        'track my driver',
-        'locate driver',
-        'show me where my driver is',
-        'where is the car',
-        'check driver location',
-        'when will you arrive',
-        'how far away is the driver',
-        'driver position',
-        'is the driver close',
-      ],
-      driver_late: [
-        'driver is late',
-        'why is driver late',
-        'driver taking too long',
-        'driver delayed',
-        'long wait time',
-        'driver not coming',
-        'been waiting too long',
-        'driver eta wrong',
-        'waiting forever',
-        'already waited 20 minutes',
-        'driver still not here',
-        'this is taking too long',
-        'the driver has not shown up',
-        'driver is very late',
-        'how much longer do I wait',
-      ],
-      contact_driver: [
-        'contact driver',
-        'talk to driver',
-        'reach driver',
-        'communicate with driver',
-        'get in touch with driver',
-        'connect me with driver',
-        'how to contact driver',
-        'i need to talk to my driver',
-        'reach my driver',
-        'how can i reach the driver',
-      ],
-      cannot_contact_driver: [
-        'cannot reach driver',
-        'unable to contact driver',
-        'driver not answering',
-        'call failed',
-        'cannot call driver',
-        'driver not responding',
-        'no response from driver',
-        'unreachable driver',
-        'driver unavailable',
-        'driver wont answer',
-        'driver ignoring calls',
-        'driver phone off',
-        'cant get through to driver',
-        'driver is not picking up',
-      ],
-      cancel_booking: [
-        'cancel booking',
-        'cancel ride',
-        'cancel my ride',
-        'i want to cancel',
-        'cancel this ride',
-        'dont want ride',
-        'stop the ride',
-        'cancel the booking',
-        'cancel order',
-        'i dont want to ride anymore',
-        'cancel everything',
-        'abort ride',
-        'i changed my mind cancel',
-        'i no longer need the ride',
-      ],
-      payment_query: [
-        'how much does it cost',
-        'how much will the ride cost',
-        'how much is the fare',
-        'what is the fare',
-        'show me the fare',
-        'fare estimate',
-        'fare details',
-        'fare breakdown',
-        'price of ride',
-        'ride cost',
-        'total cost',
-        'payment amount',
-        'why is fare so high',
-        'payment issue',
-        'refund',
-        'billing question',
-        'fare question',
-        'payment problem',
-        'charge question',
-        'why was i charged',
-        'recalculate fare',
-        'what is the price',
-        'how much do i owe',
-        'how much will it cost',
-        'estimated cost',
-        'estimated fare',
-        'cost estimate',
-        'show payment details',
-        'what will i pay',
-        'payment info',
-        'how am i paying',
-      ],
-      safety_concern: [
-        'i feel unsafe',
-        'safety issue',
-        'driver behavior',
-        'uncomfortable',
-        'danger',
-        'threat',
-        'harassment',
-        'emergency',
-        'help me',
-        'i am in danger',
-        'driver is scaring me',
-        'driver is behaving weirdly',
-        'please help emergency',
-        'not safe',
-        'feel threatened',
-      ],
-      call_driver: [
-        'call my driver',
-        'call driver now',
-        'ring driver',
-        'phone call driver',
-        'dial driver',
-        'call the driver',
-        'please call driver',
-        'i want to call driver',
-        'make a call to driver',
-        'phone driver',
-      ],
-      message_driver: [
-        'message driver',
-        'text driver',
-        'send message',
-        'message my driver',
-        'text my driver',
-        'send text to driver',
-        'send a message to my driver',
-        'write to driver',
-        'chat with driver',
-      ],
-      talk_to_agent: [
-        'talk to agent',
-        'support',
-        'customer service',
-        'speak to human',
-        'agent',
-        'representative',
-        'help from agent',
-        'connect me to support',
-        'i need a human',
-        'escalate',
-        'talk to a person',
-        'live agent',
-        'human support',
-        'real person please',
-      ],
-      gratitude: [
-        'thanks',
-        'thank you',
-        'ok thanks',
-        'okay thank you',
-        'great thanks',
-        'got it thanks',
-        'perfect thanks',
-        'thanks a lot',
-        'thank you so much',
-        'many thanks',
-        'appreciate it',
-        'thx',
-        'ty',
-        'thanks for the help',
-        'thanks for your help',
-        'that helps thank you',
-        'wonderful thanks',
-        'awesome thanks',
-        'cool thanks',
-        'alright thank you',
-        'noted thanks',
-        'cheers',
-        'much appreciated',
-        'thanks bye',
-        'ok thank you bye',
-      ],
+  // ────────────────────────────────────────────
+  // Model lifecycle
+  // Retraining builds a candidate next to the active model; it only
+  // replaces it after scoring at least config.nlpMinEvalAccuracy on the
+  // held-out set, so riders never see a half-trained or worse classifier.
+  // ────────────────────────────────────────────
+  getModelInfo(language: Language = 'en'): IntentModelInfo {
+    return this.modelFor(language).info;
+  }
+
+  // Every trained language's model
+  getModels(): IntentModelInfo[] {
+    return [...this.models.values()].map((model) => model.info);
+  }
+
+  hasModel(language: Language): boolean {
+    return this.models.has(language);
+  }
+
+  private modelFor(language: Language): IntentModel {
+    return this.models.get(language) || this.models.get('en')!;
+  }
+
+  getTrainingJobs(): IntentTrainingJob[] {
+    return [...this.jobs];
+  }
+
+  getTrainingJob(jobId: string): IntentTrainingJob | undefined {
+    return this.jobs.find((job) => job.id === jobId);
+  }
+
+  // Resolves once the job is active, rejected or failed
+  whenFinished(jobId: string): Promise<IntentTrainingJob> | undefined {
+    return this.jobCompletions.get(jobId);
+  }
+
+  // Labels the active model is trained on: the intents it can return, and
+  // out_of_scope (an utterance can be labelled as one the bot does not handle)
+  getIntents(language: Language = 'en'): string[] {
+    return [...this.modelFor(language).labels];
+  }
+
+  /**
+   * Add labelled utterances to the language's latest corpus as the next
+   * version and retrain that language in the background. Throws
+   * CorpusValidationError for unknown intents / empty text. Returns null
+   * when every phrase is already in the corpus.
+   */
+  addUtterances(
+    language: Language,
+    utterances: LabelledUtterance[],
+    requestedBy: string,
+    note?: string
+  ): IntentTrainingJob | null {
+    this.assertIdle();
+    const { corpus, added } = extendCorpus(
+      loadLatestCorpus(corpusDir(language)),
+      utterances,
+      nextCorpusVersion(corpusDir(language)),
+      note
+    );
+    if (!added) return null;
+
+    return this.startTrainingJob(language, corpus, 'utterances', added, requestedBy);
+  }
+
+  /**
+   * Re-read the language's latest corpus file from disk (e.g. after a
+   * deploy added v<N+1>.json) and retrain through the same evaluation gate.
+   */
+  reloadCorpus(language: Language, requestedBy: string): IntentTrainingJob {
+    this.assertIdle();
+    return this.startTrainingJob(language, loadLatestCorpus(corpusDir(language)), 'reload', 0, requestedBy);
+  }
+
+  private assertIdle(): void {
+    const running = this.jobs.find((job) => job.status === 'training');
+    if (running) throw new TrainingInProgressError(running);
+  }
+
+  private startTrainingJob(
+    language: Language,
+    corpus: IntentCorpus,
+    source: IntentTrainingJob['source'],
+    added: number,
+    requestedBy: string
+  ): IntentTrainingJob {
+    const job: IntentTrainingJob = {
+      id: uuidv4(),
+      language,
+      corpusVersion: corpus.version,
+      status: 'training',
+      source,
+      added,
+      requestedBy,
+      startedAt: new Date(),
     };
+    this.jobs = [job, ...this.jobs].slice(0, MAX_TRAINING_JOBS);
 
-    // Train the classifier
+    // Let the request that queued the job return before training blocks the loop
+    const completion = new Promise<IntentTrainingJob>((resolve) => {
+      setImmediate(() => {
+        this.runTrainingJob(job, corpus, source === 'utterances')
+          .catch((error) => {
+            job.status = 'failed';
+            job.error = error instanceof Error ? error.message : String(error);
+            job.finishedAt = new Date();
+            logger.error('Intent training job failed', { jobId: job.id, error: job.error });
+          })
+          .finally(() => {
+            this.jobCompletions.delete(job.id);
+            resolve(job);
+          });
+      });
+    });
+    this.jobCompletions.set(job.id, completion);
+    return job;
+  }
+
+  private async runTrainingJob(job: IntentTrainingJob, corpus: IntentCorpus, persist: boolean): Promise<void> {
+    const candidate = this.trainModel(job.language, corpus);
+    job.evaluation = candidate.info.evaluation;
+
+    const accuracy = candidate.info.evaluation?.accuracy ?? 0;
+    if (accuracy < config.nlpMinEvalAccuracy) {
+      job.status = 'rejected';
+      job.error = `Evaluation accuracy ${accuracy.toFixed(3)} is below the minimum ${config.nlpMinEvalAccuracy}`;
+      job.finishedAt = new Date();
+      logger.warn('Intent model rejected; keeping the active model', {
+        jobId: job.id,
+        language: job.language,
+        candidateVersion: corpus.version,
+        activeVersion: this.models.get(job.language)?.info.corpusVersion,
+        accuracy,
+      });
+      return;
+    }
+
+    if (persist) {
+      writeCorpus(corpusDir(job.language), corpus);
+    }
+    this.models.set(job.language, candidate);
+    job.status = 'active';
+    job.finishedAt = new Date();
+    logger.info('Intent model swapped in', { jobId: job.id, ...candidate.info });
+  }
+
+  private trainModel(language: Language, corpus: IntentCorpus): IntentModel {
+    const temperature = this.calibrate(language, corpus.intents);
+    const model: IntentModel = {
+      language,
+      classifier: this.trainClassifier(language, corpus.intents),
+      temperature,
+      speller: new SpellingCorrector(
+        Object.values(corpus.intents).flat().map((phrase) => this.preprocessText(phrase, language)),
+        (word) => LANGUAGE_RULES[language].stemmer.stem(word)
+      ),
+      labels: Object.keys(corpus.intents),
+      info: {
+        language,
+        corpusVersion: corpus.version,
+        trainedAt: new Date(),
+        temperature,
+        intents: Object.keys(corpus.intents).length,
+        phrases: Object.values(corpus.intents).reduce((sum, phrases) => sum + phrases.length, 0),
+      },
+    };
+    model.info.evaluation = this.evaluateModel(model);
+    return model;
+  }
+
+  // Held-out score at the configured threshold; undefined without an eval file
+  private evaluateModel(model: IntentModel): IntentModelInfo['evaluation'] {
+    if (!fs.existsSync(evalFile(model.language))) return undefined;
+
+    const examples = loadLabelledSet(evalFile(model.language));
+    let correct = 0;
+    let answered = 0;
+    for (const example of examples) {
+      const { intent } = this.classify(model, example.text);
+      if (intent === example.intent) correct++;
+      if (intent !== 'unknown') answered++;
+    }
+    return {
+      total: examples.length,
+      accuracy: examples.length ? correct / examples.length : 0,
+      coverage: examples.length ? answered / examples.length : 0,
+    };
+  }
+
+  private trainClassifier(language: Language, trainingData: TrainingData, skip?: (index: number) => boolean) {
+    const classifier = new BayesClassifier(STEMMERS[language], SMOOTHING);
+
+    let index = 0;
     Object.entries(trainingData).forEach(([intent, phrases]) => {
       phrases.forEach((phrase) => {
-        classifier.addDocument(phrase, intent);
+        if (!skip?.(index++)) {
+          classifier.addDocument(this.preprocessText(phrase, language), intent);
+        }
       });
     });
 
@@ -244,41 +401,107 @@ class NLPService {
     return classifier;
   }
 
-  private preprocessText(text: string): string {
-    return text
-      .toLowerCase()
-      .replace(/[^\w\s]/g, '')
-      .trim();
+  /**
+   * Fit the softmax temperature on out-of-fold predictions: each phrase is
+   * scored by a classifier trained without it, and the temperature with the
+   * lowest negative log-likelihood of the true intent wins.
+   */
+  private calibrate(language: Language, trainingData: TrainingData): number {
+    const heldOut: Array<{ intent: string; logScores: Map<string, number> }> = [];
+
+    for (let fold = 0; fold < CALIBRATION_FOLDS; fold++) {
+      const inFold = (index: number) => index % CALIBRATION_FOLDS === fold;
+      const classifier = this.trainClassifier(language, trainingData, inFold);
+
+      let index = 0;
+      Object.entries(trainingData).forEach(([intent, phrases]) => {
+        phrases.forEach((phrase) => {
+          if (inFold(index++)) {
+            heldOut.push({ intent, logScores: this.logScores(classifier, this.preprocessText(phrase, language)) });
+          }
+        });
+      });
+    }
+
+    let best = { temperature: 1, loss: Infinity };
+    for (let temperature = 0.1; temperature <= 3; temperature += 0.05) {
+      const loss = heldOut.reduce((sum, example) => {
+        const probability = this.softmax(example.logScores, temperature).get(example.intent) || 0;
+        return sum - Math.log(Math.max(probability, 1e-12));
+      }, 0);
+      if (loss < best.loss) best = { temperature, loss };
+    }
+
+    return Math.round(best.temperature * 100) / 100;
+  }
+
+  // Log of each intent's Bayes score; empty when no word is in the vocabulary
+  private logScores(classifier: any, text: string): Map<string, number> {
+    const features: number[] = classifier.textToFeatures(text);
+    if (!features.some(Boolean)) return new Map();
+
+    return new Map(
+      classifier.getClassifications(text).map((result: { label: string; value: number }) =>
+        [result.label, Math.log(Math.max(result.value, Number.MIN_VALUE))]
+      )
+    );
   }
 
-  private calculateConfidence(classifier: any, text: string): number {
-    // Get probabilities for all classifications
-    const results = classifier.getClassifications(text);
-    if (results.length === 0) return 0;
-    if (results.length === 1) return 0.95;
+  private softmax(logScores: Map<string, number>, temperature: number): Map<string, number> {
+    const max = Math.max(...logScores.values());
+    const weights = [...logScores].map(([intent, score]) =>
+      [intent, Math.exp((score - max) / temperature)] as [string, number]
+    );
+    const total = weights.reduce((sum, [, weight]) => sum + weight, 0);
+    return new Map(weights.map(([intent, weight]) => [intent, weight / total]));
+  }
 
-    // The Bayes classifier returns log-probability values that are very small.
-    // To get a meaningful confidence, we compare the top result vs the second-best.
-    // A large gap between #1 and #2 means high confidence.
-    const topScore = results[0].value;
-    const secondScore = results[1].value;
+  /**
+   * Calibrated probability for every intent, highest first.
+   * Empty when the text shares no words with the training phrases.
+   */
+  scoreIntents(userInput: string, language: Language = 'en'): IntentCandidate[] {
+    return this.score(this.modelFor(language), userInput);
+  }
 
-    // If both are 0 or equal, low confidence
-    if (topScore === 0 && secondScore === 0) return 0.5;
-    if (topScore === secondScore) return 0.5;
+  private score(model: IntentModel, userInput: string): IntentCandidate[] {
+    const probabilities = this.softmax(
+      this.logScores(model.classifier, this.normalize(model, userInput)),
+      model.temperature
+    );
+    return [...probabilities]
+      .map(([intent, confidence]) => ({ intent, confidence }))
+      .sort((a, b) => b.confidence - a.confidence);
+  }
 
-    // Calculate relative confidence: how much better is #1 vs #2
-    // Use ratio-based approach for log probabilities
-    const ratio = topScore / (secondScore || 0.0001);
+  /**
+   * Stemmed content words, as the classifier sees them (used to group
+   * similar utterances for review).
+   */
+  tokenize(text: string, language: Language = 'en'): string[] {
+    const model = this.modelFor(language);
+    return STEMMERS[model.language].tokenizeAndStem(this.normalize(model, text));
+  }
 
-    // Map the ratio to a 0.5-1.0 confidence range
-    // ratio of 1 = 0.5 confidence, ratio > 2 = ~0.85+, ratio > 5 = ~0.95+
-    const confidence = Math.min(0.5 + (ratio - 1) * 0.15, 1.0);
+  // Lowercase, no accents or punctuation, abbreviations and slang spelled
+  // out ("pls" → "please", "xq" → "porque")
+  private preprocessText(text: string, language: Language): string {
+    const lower = stripAccents(text.toLowerCase());
+    return expandAbbreviations(
+      (LANGUAGE_RULES[language].splitApostrophes ? lower.replace(/['’]/g, ' ') : lower)
+        .replace(/[^\p{L}\p{N}\s]/gu, '')
+        .trim(),
+      language
+    );
+  }
 
-    return Math.max(0.5, Math.min(confidence, 1.0));
+  // What the classifier scores: preprocessed text with typos corrected
+  // against the model's vocabulary ("wher is my drivr" → "where is my driver")
+  private normalize(model: IntentModel, text: string): string {
+    return model.speller.correct(this.preprocessText(text, model.language));
   }
 
-  async detectIntent(userInput: string): Promise<IntentResult> {
+  async detectIntent(userInput: string, language: Language = 'en'): Promise<IntentResult> {
     try {
       if (!config.enableNlp || !userInput.trim()) {
         return {
@@ -287,20 +510,23 @@ class NLPService {
         };
       }
 
-      const processedText = this.preprocessText(userInput);
-      const intent = this.classifier.classify(processedText);
-      const confidence = this.calculateConfidence(this.classifier, processedText);
-
-      const actionType = this.intents.get(intent) as QuickAction | undefined;
-
-      logger.info('Intent detected', { userInput, intent, confidence });
-
-      return {
-        intent,
-        confidence,
-        actionType,
-        entities: this.extractEntities(processedText),
-      };
+      const result = this.classify(this.modelFor(language), userInput);
+      if (result.intent === 'unknown') {
+        logger.info('Intent below confidence threshold', {
+          userInput,
+          language: result.language,
+          candidates: result.candidates,
+          threshold: config.nlpConfidenceThreshold,
+        });
+      } else {
+        logger.info('Intent detected', {
+          userInput,
+          language: result.language,
+          intent: result.intent,
+          confidence: result.confidence,
+        });
+      }
+      return result;
     } catch (error) {
       logger.error('NLP error', { error });
       return {
@@ -310,67 +536,85 @@ class NLPService {
     }
   }
 
-  private extractEntities(text: string): Record<string, any> {
-    const entities: Record<string, any> = {};
+  /**
+   * Every intent in a compound message, in the order they were written.
+   * Each clause is classified on its own; clauses below the confidence
+   * threshold are ignored and repeated intents keep their best-scoring
+   * clause. Entities come from the whole message. A message with fewer than
+   * two distinct intents gets the single detectIntent result.
+   */
+  async detectIntents(userInput: string, language: Language = 'en'): Promise<IntentResult[]> {
+    const whole = await this.detectIntent(userInput, language);
+    const model = this.modelFor(language);
+    const clauses = userInput
+      .split(LANGUAGE_RULES[model.language].clauseBoundary)
+      .map((clause) => clause.trim())
+      .filter(Boolean);
+    if (!config.enableNlp || clauses.length < 2) return [whole];
 
-    // Extract time references
-    const timePatterns = {
-      minutes: /(\d+)\s*minutes?/i,
-      hours: /(\d+)\s*hours?/i,
-      urgent: /urgent|asap|immediately|now/i,
-    };
-
-    Object.entries(timePatterns).forEach(([key, pattern]) => {
-      const match = text.match(pattern);
-      if (match) {
-        entities[key] = match[1] || true;
+    const found = new Map<string, IntentResult>();
+    for (const clause of clauses) {
+      const result = this.classify(model, clause);
+      const seen = found.get(result.intent);
+      if (result.intent !== 'unknown' && (!seen || result.confidence > seen.confidence)) {
+        found.set(result.intent, { ...result, entities: extractEntities(userInput), segment: clause });
       }
+    }
+    if (found.size < 2) return [whole];
+
+    const results = [...found.values()];
+    logger.info('Multiple intents detected', {
+      userInput,
+      intents: results.map(({ intent, confidence, segment }) => ({ intent, confidence, segment })),
     });
+    return results;
+  }
+
+  private classify(model: IntentModel, userInput: string): IntentResult {
+    const candidates = this.score(model, userInput)
+      .filter((candidate) => candidate.intent !== OUT_OF_SCOPE)
+      .slice(0, MAX_CANDIDATES);
+    const top = candidates[0];
+
+    if (!top || top.confidence < config.nlpConfidenceThreshold) {
+      return {
+        intent: 'unknown',
+        confidence: top?.confidence ?? 0,
+        candidates,
+        entities: extractEntities(userInput),
+        language: model.language,
+      };
+    }
 
-    return entities;
-  }
-
-  async getSuggestedResponses(intent: string): Promise<string[]> {
-    const responses: Record<string, string[]> = {
-      where_is_driver: [
-        'Your driver is on the way. Let me get the live location...',
-        'Checking driver details...',
-      ],
-      driver_late: [
-        'I understand the wait. Let me check what\'s happening with your driver...',
-        'Your driver may have been delayed. Let me get the updated ETA...',
-      ],
-      contact_driver: [
-        'I can help you reach your driver. Would you like to call or message?',
-        'Connecting you with your driver...',
-      ],
-      cannot_contact_driver: [
-        'I\'m sorry you\'re unable to reach your driver. Let me escalate this...',
-        'This is concerning. Let me help you with support...',
-      ],
-      cancel_booking: [
-        'I can help you cancel. Let me check the cancellation policy...',
-        'Processing your cancellation request...',
-      ],
-      payment_query: [
-        'Let me help you with your payment question...',
-        'I\'ll get the payment details for you...',
-      ],
-      safety_concern: [
-        'Your safety is important. I\'m connecting you with support immediately...',
-        'Emergency support is being dispatched. Stay in a public place if possible.',
-      ],
-      gratitude: [
-        'You\'re welcome! Happy to help with your ride.',
-        'Glad I could help! Have a great trip.',
-      ],
-      unknown: [
-        'I\'m not sure I understood. Could you rephrase that?',
-        'Can you tell me more about what you need help with?',
-      ],
+    return {
+      intent: top.intent,
+      confidence: top.confidence,
+      actionType: this.intents.get(top.intent),
+      candidates,
+      entities: extractEntities(userInput),
+      language: model.language,
     };
+  }
+
+  /**
+   * Classify a reply to a pending yes/no question.
+   * Returns null when the message doesn't read as an answer (the user moved on),
+   * so it can go through normal intent detection instead.
+   */
+  resolveConfirmation(userInput: string, language: Language = 'en'): 'confirm' | 'deny' | null {
+    const text = this.preprocessText(userInput, language);
+    if (!text || text.split(/\s+/).length > MAX_CONFIRMATION_WORDS) return null;
+
+    const rules = [LANGUAGE_RULES[language], LANGUAGE_RULES.en];
+    // Checked first: "no, don't cancel" contains an affirming verb
+    if (rules.some((rule) => rule.deny.test(text))) return 'deny';
+    if (rules.some((rule) => rule.confirm.test(text)) || /^(ok|okay)$/.test(text)) return 'confirm';
+    return null;
+  }
 
-    return responses[intent] || responses.unknown;
+  async getSuggestedResponses(intent: string, language: Language = 'en'): Promise<string[]> {
+    const key = `suggestedResponses.${intent}`;
+    return catalog.list(language, catalog.has(key) ? key : 'suggestedResponses.unknown');
   }
 }
 
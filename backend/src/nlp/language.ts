@@ -0,0 +1,74 @@
+// ============================================================
+// RideSharePro — Language detection
+// Which of the supported languages a rider message is written in,
+// from common function words and ride vocabulary plus the accents
+// only one language uses. Short or mixed messages ("ok", "taxi 5
+// min") keep the conversation's language.
+// ============================================================
+
+import { Language, LANGUAGES } from '../types';
+
+// Compared without accents: riders often skip them ("donde esta mi conductor")
+const MARKER_WORDS: Record<Language, string[]> = {
+  en: [
+    'the', 'is', 'are', 'my', 'where', 'what', 'when', 'how', 'much', 'why', 'driver', 'want', 'to',
+    'you', 'your', 'please', 'thanks', 'thank', 'can', 'cannot', 'cant', 'late', 'ride', 'booking',
+    'call', 'not', 'with', 'it', 'this', 'and', 'hi', 'hello', 'yes', 'help', 'fare', 'pay', 'safe', 'talk',
+  ],
+  es: [
+    'el', 'los', 'las', 'mi', 'mis', 'es', 'esta', 'estan', 'donde', 'cuando', 'cuanto', 'como',
+    'que', 'por', 'para', 'conductor', 'chofer', 'viaje', 'reserva', 'quiero', 'puedo', 'necesito',
+    'cancelar', 'llamar', 'mensaje', 'gracias', 'hola', 'tarde', 'llega', 'pago', 'tarifa', 'con', 'del',
+    'una', 'muy', 'ayuda', 'agente', 'seguro', 'miedo', 'hablar', 'persona', 'todavia', 'nada', 'vale',
+  ],
+  fr: [
+    'le', 'les', 'mon', 'ma', 'mes', 'est', 'ou', 'je', 'veux', 'suis', 'chauffeur', 'course',
+    'reservation', 'annuler', 'appeler', 'merci', 'bonjour', 'salut', 'retard', 'combien', 'quand',
+    'comment', 'pourquoi', 'avec', 'une', 'tres', 'aide', 'pas', 'ne', 'oui', 'paiement', 'tarif',
+    'peur', 'parler', 'vous', 'il', 'du', 'des', 'au', 'toujours', 'encore', 'joindre',
+  ],
+};
+
+// Characters that settle it on their own; é, ü... are shared
+const DISTINCT_CHARACTERS: Partial<Record<Language, RegExp>> = {
+  es: /[ñ¿¡áíóú]/,
+  fr: /[çàâèêëîïôùûœ]/,
+};
+const CHARACTER_WEIGHT = 2;
+
+// A one-word message can be decided by a single marker ("gracias"); longer ones need two
+const MIN_SCORE = 2;
+
+const markers = Object.fromEntries(
+  LANGUAGES.map((language) => [language, new Set(MARKER_WORDS[language])])
+) as Record<Language, Set<string>>;
+
+export function isLanguage(value: unknown): value is Language {
+  return (LANGUAGES as readonly unknown[]).includes(value);
+}
+
+// "¿Dónde está?" → "donde esta"
+export function stripAccents(text: string): string {
+  return text.normalize('NFD').replace(/\p{M}/gu, '');
+}
+
+/**
+ * The language a message is most clearly written in, or `fallback` when
+ * no language scores high enough or two tie.
+ */
+export function detectLanguage(text: string, fallback: Language): Language {
+  const lower = text.toLowerCase();
+  const words = stripAccents(lower).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  if (!words.length) return fallback;
+
+  const scores = LANGUAGES.map((language) => ({
+    language,
+    score:
+      words.filter((word) => markers[language].has(word)).length +
+      (DISTINCT_CHARACTERS[language]?.test(lower) ? CHARACTER_WEIGHT : 0),
+  })).sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = scores;
+  if (best.score < Math.min(MIN_SCORE, words.length) || best.score === runnerUp.score) return fallback;
+  return best.language;
+}
@@ -0,0 +1,160 @@
+// ============================================================
+// RideSharePro — Text normalization for intent detection
+// Riders type on the move: "wher is my drivr", "cancle ride",
+// "eta?", "pls msg him", "xq no llega". Abbreviations and slang
+// are expanded, then words the classifier has never seen are
+// corrected to the closest word in its training vocabulary.
+// ============================================================
+
+import { Language } from '../types';
+
+// Whole-word replacements, applied after lowercasing and stripping
+// punctuation and accents (so "can't" arrives as "cant" and "where's" as "wheres")
+const ENGLISH_ABBREVIATIONS: Record<string, string> = {
+  u: 'you', ur: 'your', r: 'are', y: 'why', b: 'be', n: 'and', w: 'with',
+  pls: 'please', plz: 'please', pleas: 'please',
+  thx: 'thanks', thnx: 'thanks', thanx: 'thanks', ty: 'thank you', tysm: 'thank you so much',
+  gr8: 'great', m8: 'mate',
+  wat: 'what', wht: 'what', whats: 'what is', wheres: 'where is', hows: 'how is', whys: 'why is',
+  im: 'i am', ive: 'i have', cant: 'cannot', cnt: 'cannot', dont: 'do not', wont: 'will not',
+  didnt: 'did not', doesnt: 'does not', isnt: 'is not', hasnt: 'has not', havent: 'have not',
+  wanna: 'want to', gonna: 'going to', gotta: 'have to', lemme: 'let me', gimme: 'give me',
+  rn: 'right now', asap: 'as soon as possible', omw: 'on my way',
+  eta: 'when will my driver arrive',
+  msg: 'message', msgs: 'messages', txt: 'text', drvr: 'driver', cxl: 'cancel', canx: 'cancel',
+  min: 'minutes', mins: 'minutes', hr: 'hour', hrs: 'hours',
+  pmt: 'payment', amt: 'amount', cust: 'customer', svc: 'service', pic: 'picture',
+  bc: 'because', cuz: 'because', coz: 'because', nite: 'night',
+};
+
+const ABBREVIATIONS: Record<Language, Record<string, string>> = {
+  en: ENGLISH_ABBREVIATIONS,
+  es: {
+    q: 'que', k: 'que', xq: 'porque', pq: 'porque', porq: 'porque', x: 'por', tb: 'tambien', tmb: 'tambien',
+    xfa: 'por favor', pf: 'por favor', porfa: 'por favor', grax: 'gracias', msj: 'mensaje', min: 'minutos',
+    mins: 'minutos', d: 'de', dnd: 'donde', toy: 'estoy', ta: 'esta',
+  },
+  fr: {
+    stp: 's il te plait', svp: 's il vous plait', pk: 'pourquoi', pq: 'pourquoi', qd: 'quand', bcp: 'beaucoup',
+    mrc: 'merci', mci: 'merci', slt: 'salut', jsuis: 'je suis', chui: 'je suis', cc: 'coucou', tjrs: 'toujours',
+    tjs: 'toujours', msg: 'message', min: 'minutes', mins: 'minutes', rdv: 'rendez vous', dac: 'd accord',
+  },
+};
+
+// Words this short are left alone: too many real words are one edit apart
+const MIN_CORRECTABLE_LENGTH = 3;
+// Up to this length a typo is a dropped, doubled or swapped letter; a
+// different or missing letter ("like" / "live", "card" / "car") usually
+// makes another real word
+const SHORT_WORD_LENGTH = 5;
+// Corrections are remembered per model; the cache starts over past this size
+const MAX_CACHED_CORRECTIONS = 5000;
+
+export function expandAbbreviations(text: string, language: Language = 'en'): string {
+  const abbreviations = ABBREVIATIONS[language];
+  return text
+    .split(/\s+/)
+    .map((word) => abbreviations[word] ?? word)
+    .join(' ');
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent
+ * transpositions, so "cancle" is one edit from "cancel"). Gives up and
+ * returns max + 1 once the distance must exceed `max`.
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const twoBack = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, twoBack[j - 2] + 1);
+      }
+      row[j] = distance;
+      rowMin = Math.min(rowMin, distance);
+    }
+    if (rowMin > max) return max + 1;
+  }
+  return row[b.length];
+}
+
+// Same letters, different order ("teh" / "the")
+function isTransposition(a: string, b: string): boolean {
+  return [...a].sort().join('') === [...b].sort().join('');
+}
+
+// "carr" / "car": the word is the candidate with one letter typed twice
+function isDoubledLetter(word: string, candidate: string): boolean {
+  for (let i = 1; i < word.length; i++) {
+    if (word[i] === word[i - 1] && word.slice(0, i) + word.slice(i + 1) === candidate) return true;
+  }
+  return false;
+}
+
+/**
+ * Corrects out-of-vocabulary words to the nearest training word with the
+ * same first letter: one edit for words up to five letters (only a dropped,
+ * doubled or swapped letter), two for longer ones, never dropping more than one letter.
+ * Ties go to the more frequent word. Kept as typed: words with digits,
+ * other forms of a known word ("paying" when "pay" was trained — the
+ * classifier stems both), and words with no close match.
+ */
+export class SpellingCorrector {
+  private vocabulary = new Map<string, number>();
+  private stems = new Set<string>();
+  private cache = new Map<string, string>();
+
+  // `phrases` are normalized the same way as the text to correct
+  constructor(phrases: string[], private stem: (word: string) => string) {
+    for (const phrase of phrases) {
+      for (const word of phrase.split(/\s+/).filter(Boolean)) {
+        this.vocabulary.set(word, (this.vocabulary.get(word) || 0) + 1);
+        this.stems.add(stem(word));
+      }
+    }
+  }
+
+  correct(text: string): string {
+    return text
+      .split(/\s+/)
+      .filter(Boolean)
+      .map((word) => this.correctWord(word))
+      .join(' ');
+  }
+
+  private correctWord(word: string): string {
+    if (this.vocabulary.has(word) || word.length < MIN_CORRECTABLE_LENGTH || /\d/.test(word)) return word;
+    if (this.stems.has(this.stem(word))) return word;
+
+    const cached = this.cache.get(word);
+    if (cached !== undefined) return cached;
+
+    const short = word.length <= SHORT_WORD_LENGTH;
+    const maxDistance = short ? 1 : 2;
+    let best = { word, distance: maxDistance + 1, count: 0 };
+    this.vocabulary.forEach((count, candidate) => {
+      if (candidate[0] !== word[0] || candidate.length < word.length - 1) return;
+      if (short && candidate.length === word.length && !isTransposition(word, candidate)) return;
+      if (short && candidate.length < word.length && !isDoubledLetter(word, candidate)) return;
+      const distance = editDistance(word, candidate, maxDistance);
+      if (distance < best.distance || (distance === best.distance && count > best.count)) {
+        best = { word: candidate, distance, count };
+      }
+    });
+
+    const corrected = best.distance <= maxDistance ? best.word : word;
+    if (this.cache.size >= MAX_CACHED_CORRECTIONS) this.cache.clear();
+    this.cache.set(word, corrected);
+    return corrected;
+  }
+}
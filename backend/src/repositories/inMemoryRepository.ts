@@ -0,0 +1,329 @@
+import {
+  Conversation,
+  ChatMessage,
+  ESCALATION_PRIORITIES,
+  EscalationRequest,
+  ReviewItem,
+  SAFETY_SEVERITIES,
+  SafetyAuditEntry,
+  SafetyEvent,
+  SupportTicket,
+  TripShare,
+  TripShareStatus,
+  TrustedContact,
+  WebhookDelivery,
+} from '../types';
+import {
+  ConversationChanges,
+  ConversationRepository,
+  EscalationRepository,
+  ReviewFilter,
+  ReviewQueueRepository,
+  SafetyEventFilter,
+  SafetyIncidentRepository,
+  TicketFilter,
+  TripShareRepository,
+  WebhookDeliveryFilter,
+  WebhookDeliveryRepository,
+} from './types';
+
+// Stored and returned values are copies, so callers can't change stored state
+// without going through the repository — the same as with the Postgres backend.
+function copy<T>(value: T): T {
+  return structuredClone(value);
+}
+
+/**
+ * Process-local storage. Data is lost on restart — intended for
+ * development and for running the service without a database.
+ */
+export class InMemoryConversationRepository implements ConversationRepository {
+  private conversations: Map<string, Conversation>;
+
+  constructor() {
+    this.conversations = new Map();
+  }
+
+  async insertConversation(conversation: Conversation): Promise<void> {
+    this.conversations.set(conversation.id, copy(conversation));
+  }
+
+  async findConversation(conversationId: string): Promise<Conversation | null> {
+    return copy(this.conversations.get(conversationId) || null);
+  }
+
+  async updateConversation(conversationId: string, changes: ConversationChanges): Promise<void> {
+    const conversation = this.conversations.get(conversationId);
+    if (conversation) {
+      Object.assign(conversation, copy(changes));
+    }
+  }
+
+  async appendMessage(message: ChatMessage): Promise<void> {
+    const conversation = this.conversations.get(message.conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${message.conversationId} not found`);
+    }
+    conversation.messages.push(copy(message));
+  }
+
+  async updateMessage(message: ChatMessage): Promise<void> {
+    const messages = this.conversations.get(message.conversationId)?.messages || [];
+    const index = messages.findIndex((candidate) => candidate.id === message.id);
+    if (index >= 0) {
+      messages[index] = copy(message);
+    }
+  }
+
+  async findMessages(conversationId: string, limit?: number): Promise<ChatMessage[]> {
+    const messages = this.conversations.get(conversationId)?.messages || [];
+
+    if (limit && limit > 0) {
+      return copy(messages.slice(-limit));
+    }
+
+    return copy(messages);
+  }
+
+  async findConversationsByUser(userId: string, limit: number): Promise<Conversation[]> {
+    return Array.from(this.conversations.values())
+      .filter((conv) => conv.userId === userId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+      .slice(0, limit)
+      .map(copy);
+  }
+
+  async findOpenDriverRelays(): Promise<string[]> {
+    return Array.from(this.conversations.values())
+      .filter((conv) => conv.driverRelay?.status === 'open')
+      .map((conv) => conv.id);
+  }
+}
+
+export class InMemoryEscalationRepository implements EscalationRepository {
+  private escalationRequests: Map<string, EscalationRequest>;
+  private supportTickets: Map<string, SupportTicket>;
+
+  constructor() {
+    this.escalationRequests = new Map();
+    this.supportTickets = new Map();
+  }
+
+  async insertEscalationRequest(request: EscalationRequest): Promise<void> {
+    this.escalationRequests.set(request.id, copy(request));
+  }
+
+  async findEscalationRequest(requestId: string): Promise<EscalationRequest | null> {
+    return copy(this.escalationRequests.get(requestId) || null);
+  }
+
+  async insertSupportTicket(ticket: SupportTicket): Promise<void> {
+    this.supportTickets.set(ticket.id, copy(ticket));
+  }
+
+  async updateSupportTicket(ticket: SupportTicket): Promise<void> {
+    this.supportTickets.set(ticket.id, copy(ticket));
+  }
+
+  // No await between the check and the write, so two claims can't interleave
+  async claimSupportTicket(ticketId: string, agentId: string): Promise<SupportTicket | null> {
+    const ticket = this.supportTickets.get(ticketId);
+    if (!ticket || !(ticket.status === 'open' || (ticket.status === 'in_progress' && !ticket.assignedAgent))) {
+      return null;
+    }
+    ticket.status = 'in_progress';
+    ticket.assignedAgent = agentId;
+    return copy(ticket);
+  }
+
+  async findSupportTicket(ticketId: string): Promise<SupportTicket | null> {
+    return copy(this.supportTickets.get(ticketId) || null);
+  }
+
+  async findTickets(filter: TicketFilter = {}): Promise<SupportTicket[]> {
+    const rank = (ticket: SupportTicket) => ESCALATION_PRIORITIES.indexOf(ticket.priority);
+    return Array.from(this.supportTickets.values())
+      .filter(
+        (ticket) =>
+          (!filter.userId || ticket.userId === filter.userId) &&
+          (!filter.conversationId || ticket.conversationId === filter.conversationId) &&
+          (!filter.statuses || filter.statuses.includes(ticket.status)) &&
+          !(filter.excludeStatuses || []).includes(ticket.status) &&
+          (!filter.assignedAgent || ticket.assignedAgent === filter.assignedAgent)
+      )
+      .sort((a, b) => rank(b) - rank(a) || a.createdAt.getTime() - b.createdAt.getTime())
+      .map(copy);
+  }
+}
+
+export class InMemoryReviewQueueRepository implements ReviewQueueRepository {
+  private items: Map<string, ReviewItem>;
+
+  constructor() {
+    this.items = new Map();
+  }
+
+  async insertItem(item: ReviewItem): Promise<void> {
+    this.items.set(item.id, copy(item));
+  }
+
+  async updateItem(item: ReviewItem): Promise<void> {
+    this.items.set(item.id, copy(item));
+  }
+
+  async findItem(itemId: string): Promise<ReviewItem | null> {
+    return copy(this.items.get(itemId) || null);
+  }
+
+  async findItems(filter: ReviewFilter = {}): Promise<ReviewItem[]> {
+    const items = Array.from(this.items.values())
+      .filter(
+        (item) =>
+          (!filter.statuses || filter.statuses.includes(item.status)) &&
+          (!filter.source || item.source === filter.source) &&
+          (!filter.language || item.language === filter.language)
+      )
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+
+    return copy(filter.limit && filter.limit > 0 ? items.slice(0, filter.limit) : items);
+  }
+
+  async findOpenByText(normalizedText: string): Promise<ReviewItem | null> {
+    return copy(
+      Array.from(this.items.values()).find(
+        (item) =>
+          item.normalizedText === normalizedText && (item.status === 'pending' || item.status === 'labelled')
+      ) || null
+    );
+  }
+}
+
+export class InMemorySafetyIncidentRepository implements SafetyIncidentRepository {
+  private events: Map<string, SafetyEvent>;
+  private audit: Map<string, SafetyAuditEntry[]>;
+
+  constructor() {
+    this.events = new Map();
+    this.audit = new Map();
+  }
+
+  async insertEvent(event: SafetyEvent): Promise<void> {
+    this.events.set(event.id, copy(event));
+  }
+
+  async updateEvent(event: SafetyEvent): Promise<void> {
+    this.events.set(event.id, copy(event));
+  }
+
+  async findEvent(eventId: string): Promise<SafetyEvent | null> {
+    return copy(this.events.get(eventId) || null);
+  }
+
+  async findEvents(filter: SafetyEventFilter = {}): Promise<SafetyEvent[]> {
+    const rank = (event: SafetyEvent) => SAFETY_SEVERITIES.indexOf(event.severity);
+    const events = Array.from(this.events.values())
+      .filter(
+        (event) =>
+          (!filter.statuses || filter.statuses.includes(event.status)) &&
+          (!filter.severities || filter.severities.includes(event.severity)) &&
+          (!filter.assignedTo || event.assignedTo === filter.assignedTo)
+      )
+      .sort((a, b) => rank(b) - rank(a) || b.timestamp.getTime() - a.timestamp.getTime());
+
+    return copy(filter.limit && filter.limit > 0 ? events.slice(0, filter.limit) : events);
+  }
+
+  async appendAudit(entry: SafetyAuditEntry): Promise<void> {
+    if (!this.audit.has(entry.eventId)) {
+      this.audit.set(entry.eventId, []);
+    }
+    this.audit.get(entry.eventId)!.push(copy(entry));
+  }
+
+  async findAudit(eventId: string): Promise<SafetyAuditEntry[]> {
+    return copy(this.audit.get(eventId) || []);
+  }
+}
+
+export class InMemoryTripShareRepository implements TripShareRepository {
+  private contacts: Map<string, TrustedContact>;
+  private shares: Map<string, TripShare>;
+
+  constructor() {
+    this.contacts = new Map();
+    this.shares = new Map();
+  }
+
+  async insertContact(contact: TrustedContact): Promise<void> {
+    this.contacts.set(contact.id, copy(contact));
+  }
+
+  async deleteContact(contactId: string): Promise<void> {
+    this.contacts.delete(contactId);
+  }
+
+  async findContacts(userId: string): Promise<TrustedContact[]> {
+    return Array.from(this.contacts.values())
+      .filter((contact) => contact.userId === userId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(copy);
+  }
+
+  async insertShare(share: TripShare): Promise<void> {
+    this.shares.set(share.id, copy(share));
+  }
+
+  async updateShare(share: TripShare): Promise<void> {
+    this.shares.set(share.id, copy(share));
+  }
+
+  async findShare(shareId: string): Promise<TripShare | null> {
+    return copy(this.shares.get(shareId) || null);
+  }
+
+  async findShareByTokenHash(tokenHash: string): Promise<TripShare | null> {
+    return copy(Array.from(this.shares.values()).find((share) => share.tokenHash === tokenHash) || null);
+  }
+
+  async findShares(status: TripShareStatus, userId?: string): Promise<TripShare[]> {
+    return Array.from(this.shares.values())
+      .filter((share) => share.status === status && (!userId || share.userId === userId))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(copy);
+  }
+}
+
+export class InMemoryWebhookDeliveryRepository implements WebhookDeliveryRepository {
+  private deliveries: Map<string, WebhookDelivery>;
+
+  constructor() {
+    this.deliveries = new Map();
+  }
+
+  async insertDelivery(delivery: WebhookDelivery): Promise<void> {
+    this.deliveries.set(delivery.id, copy(delivery));
+  }
+
+  async updateDelivery(delivery: WebhookDelivery): Promise<void> {
+    this.deliveries.set(delivery.id, copy(delivery));
+  }
+
+  async findDelivery(deliveryId: string): Promise<WebhookDelivery | null> {
+    return copy(this.deliveries.get(deliveryId) || null);
+  }
+
+  async findDeliveries(filter: WebhookDeliveryFilter = {}): Promise<WebhookDelivery[]> {
+    const deliveries = Array.from(this.deliveries.values())
+      .filter((delivery) => !filter.statuses || filter.statuses.includes(delivery.status))
+      .filter((delivery) => !filter.event || delivery.event === filter.event)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    return copy(filter.limit && filter.limit > 0 ? deliveries.slice(0, filter.limit) : deliveries);
+  }
+
+  async findDueDeliveries(now: Date): Promise<WebhookDelivery[]> {
+    return Array.from(this.deliveries.values())
+      .filter((delivery) => delivery.status === 'pending' && delivery.nextAttemptAt && delivery.nextAttemptAt <= now)
+      .sort((a, b) => a.nextAttemptAt!.getTime() - b.nextAttemptAt!.getTime())
+      .map(copy);
+  }
+}
@@ -0,0 +1,48 @@
+import config from '../config';
+import { getPool } from '../db/pool';
+import {
+  InMemoryConversationRepository,
+  InMemoryEscalationRepository,
+  InMemoryReviewQueueRepository,
+  InMemorySafetyIncidentRepository,
+  InMemoryTripShareRepository,
+  InMemoryWebhookDeliveryRepository,
+} from './inMemoryRepository';
+import {
+  PostgresConversationRepository,
+  PostgresEscalationRepository,
+  PostgresReviewQueueRepository,
+  PostgresSafetyIncidentRepository,
+  PostgresTripShareRepository,
+  PostgresWebhookDeliveryRepository,
+} from './postgresRepository';
+import { Repositories } from './types';
+
+export * from './types';
+
+/**
+ * Build the repositories selected by PERSISTENCE_DRIVER
+ * ('memory' by default, 'postgres' for durable storage).
+ */
+export function createRepositories(driver: string = config.persistenceDriver): Repositories {
+  if (driver === 'postgres') {
+    const pool = getPool();
+    return {
+      conversations: new PostgresConversationRepository(pool),
+      escalations: new PostgresEscalationRepository(pool),
+      reviewQueue: new PostgresReviewQueueRepository(pool),
+      safetyIncidents: new PostgresSafetyIncidentRepository(pool),
+      tripShares: new PostgresTripShareRepository(pool),
+      webhookDeliveries: new PostgresWebhookDeliveryRepository(pool),
+    };
+  }
+
+  return {
+    conversations: new InMemoryConversationRepository(),
+    escalations: new InMemoryEscalationRepository(),
+    reviewQueue: new InMemoryReviewQueueRepository(),
+    safetyIncidents: new InMemorySafetyIncidentRepository(),
+    tripShares: new InMemoryTripShareRepository(),
+    webhookDeliveries: new InMemoryWebhookDeliveryRepository(),
+  };
+}
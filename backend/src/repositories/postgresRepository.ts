@@ -0,0 +1,811 @@
+import { Pool } from 'pg';
+import {
+  Conversation,
+  ChatMessage,
+  DialogState,
+  DriverRelay,
+  CancellationRecord,
+  ESCALATION_PRIORITIES,
+  EscalationRequest,
+  ReviewItem,
+  SAFETY_SEVERITIES,
+  SafetyAuditEntry,
+  SafetyEvent,
+  SupportTicket,
+  TripShare,
+  TripShareStatus,
+  TrustedContact,
+  WebhookDelivery,
+} from '../types';
+import {
+  ConversationChanges,
+  ConversationRepository,
+  EscalationRepository,
+  ReviewFilter,
+  ReviewQueueRepository,
+  SafetyEventFilter,
+  SafetyIncidentRepository,
+  TicketFilter,
+  TripShareRepository,
+  WebhookDeliveryFilter,
+  WebhookDeliveryRepository,
+} from './types';
+
+// ────────────────────────────────────────────
+// Row mappers (snake_case columns → domain types)
+// ────────────────────────────────────────────
+function toMessage(row: any): ChatMessage {
+  return {
+    id: row.id,
+    conversationId: row.conversation_id,
+    sender: row.sender,
+    message: row.message,
+    timestamp: new Date(row.timestamp),
+    metadata: row.metadata || undefined,
+  };
+}
+
+function toConversation(row: any, messages: ChatMessage[]): Conversation {
+  return {
+    id: row.id,
+    bookingId: row.booking_id,
+    userId: row.user_id,
+    driverId: row.driver_id || undefined,
+    supportAgentId: row.support_agent_id || undefined,
+    supportTicketId: row.support_ticket_id || undefined,
+    messages,
+    status: row.status,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+    escalationType: row.escalation_type || undefined,
+    dialogState: row.dialog_state ? toDialogState(row.dialog_state) : undefined,
+    cancellation: row.cancellation ? toCancellationRecord(row.cancellation) : undefined,
+    language: row.language,
+    driverRelay: row.driver_relay ? toDriverRelay(row.driver_relay) : undefined,
+  };
+}
+
+function toDriverRelay(raw: any): DriverRelay {
+  return { ...raw, openedAt: new Date(raw.openedAt), closedAt: raw.closedAt ? new Date(raw.closedAt) : undefined };
+}
+
+function toCancellationRecord(raw: any): CancellationRecord {
+  return { ...raw, cancelledAt: new Date(raw.cancelledAt) };
+}
+
+function toDialogState(raw: any): DialogState {
+  const pending = raw.pendingConfirmation;
+  return {
+    activeFlow: raw.activeFlow || undefined,
+    pendingConfirmation: pending ? { ...pending, askedAt: new Date(pending.askedAt) } : undefined,
+    slots: raw.slots || {},
+  };
+}
+
+function toEscalationRequest(row: any): EscalationRequest {
+  return {
+    id: row.id,
+    conversationId: row.conversation_id,
+    bookingId: row.booking_id,
+    userId: row.user_id,
+    escalationType: row.escalation_type,
+    reason: row.reason,
+    priority: row.priority,
+    timestamp: new Date(row.timestamp),
+    context: row.context || {},
+    chatTranscript: row.chat_transcript || undefined,
+  };
+}
+
+function toSupportTicket(row: any): SupportTicket {
+  return {
+    id: row.id,
+    escalationRequestId: row.escalation_request_id,
+    conversationId: row.conversation_id,
+    userId: row.user_id,
+    status: row.status,
+    priority: row.priority,
+    assignedAgent: row.assigned_agent || undefined,
+    createdAt: new Date(row.created_at),
+    slaDueAt: row.sla_due_at ? new Date(row.sla_due_at) : undefined,
+    slaBreaches: row.sla_breaches,
+    resolvedAt: row.resolved_at ? new Date(row.resolved_at) : undefined,
+    resolution: row.resolution || undefined,
+    bookingContext: row.booking_context || undefined,
+    events: (row.events || []).map((event: any) => ({ ...event, at: new Date(event.at) })),
+  };
+}
+
+function toReviewItem(row: any): ReviewItem {
+  return {
+    id: row.id,
+    text: row.text,
+    normalizedText: row.normalized_text,
+    source: row.source,
+    status: row.status,
+    occurrences: row.occurrences,
+    conversationId: row.conversation_id,
+    language: row.language,
+    predictedIntent: row.predicted_intent || undefined,
+    confidence: row.confidence,
+    candidates: row.candidates || undefined,
+    escalationType: row.escalation_type || undefined,
+    label: row.label || undefined,
+    labelledBy: row.labelled_by || undefined,
+    trainingJobId: row.training_job_id || undefined,
+    corpusVersion: row.corpus_version ?? undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+function toSafetyEvent(row: any): SafetyEvent {
+  return {
+    id: row.id,
+    conversationId: row.conversation_id,
+    userId: row.user_id,
+    driverId: row.driver_id || undefined,
+    severity: row.severity,
+    score: row.score ?? undefined,
+    keywords: row.keywords || [],
+    timestamp: new Date(row.timestamp),
+    status: row.status,
+    escalatedTo: row.escalated_to || undefined,
+    assignedTo: row.assigned_to || undefined,
+    acknowledgedBy: row.acknowledged_by || undefined,
+    acknowledgedAt: row.acknowledged_at ? new Date(row.acknowledged_at) : undefined,
+    resolvedBy: row.resolved_by || undefined,
+    resolvedAt: row.resolved_at ? new Date(row.resolved_at) : undefined,
+    outcome: row.outcome || undefined,
+  };
+}
+
+function toSafetyAuditEntry(row: any): SafetyAuditEntry {
+  return {
+    id: row.id,
+    eventId: row.event_id,
+    action: row.action,
+    actor: row.actor,
+    note: row.note || undefined,
+    details: row.details || undefined,
+    at: new Date(row.at),
+  };
+}
+
+function toTrustedContact(row: any): TrustedContact {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    phone: row.phone,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+function toTripShare(row: any): TripShare {
+  return {
+    id: row.id,
+    tokenHash: row.token_hash,
+    userId: row.user_id,
+    bookingId: row.booking_id,
+    conversationId: row.conversation_id,
+    driverId: row.driver_id || undefined,
+    status: row.status,
+    recipients: row.recipients || [],
+    createdAt: new Date(row.created_at),
+    expiresAt: new Date(row.expires_at),
+    endedAt: row.ended_at ? new Date(row.ended_at) : undefined,
+  };
+}
+
+function toWebhookDelivery(row: any): WebhookDelivery {
+  return {
+    id: row.id,
+    event: row.event,
+    url: row.url,
+    body: row.body,
+    status: row.status,
+    attempts: (row.attempts || []).map((attempt: any) => ({ ...attempt, at: new Date(attempt.at) })),
+    nextAttemptAt: row.next_attempt_at ? new Date(row.next_attempt_at) : undefined,
+    createdAt: new Date(row.created_at),
+    deliveredAt: row.delivered_at ? new Date(row.delivered_at) : undefined,
+  };
+}
+
+function toJson(value: unknown): string | null {
+  return value === undefined ? null : JSON.stringify(value);
+}
+
+// Conversation field → column, for writes of just the fields that changed
+const CONVERSATION_COLUMNS: Array<[keyof ConversationChanges, string]> = [
+  ['driverId', 'driver_id'],
+  ['supportAgentId', 'support_agent_id'],
+  ['supportTicketId', 'support_ticket_id'],
+  ['status', 'status'],
+  ['escalationType', 'escalation_type'],
+  ['dialogState', 'dialog_state'],
+  ['cancellation', 'cancellation'],
+  ['language', 'language'],
+  ['driverRelay', 'driver_relay'],
+  ['updatedAt', 'updated_at'],
+];
+const JSON_CONVERSATION_FIELDS: Array<keyof ConversationChanges> = ['dialogState', 'cancellation', 'driverRelay'];
+
+export class PostgresConversationRepository implements ConversationRepository {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  async insertConversation(conversation: Conversation): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO conversations
+         (id, booking_id, user_id, driver_id, support_agent_id, support_ticket_id, status, escalation_type,
+          dialog_state, cancellation, language, driver_relay, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)`,
+      [
+        conversation.id,
+        conversation.bookingId,
+        conversation.userId,
+        conversation.driverId || null,
+        conversation.supportAgentId || null,
+        conversation.supportTicketId || null,
+        conversation.status,
+        conversation.escalationType || null,
+        toJson(conversation.dialogState),
+        toJson(conversation.cancellation),
+        conversation.language,
+        toJson(conversation.driverRelay),
+        conversation.createdAt,
+        conversation.updatedAt,
+      ]
+    );
+  }
+
+  async findConversation(conversationId: string): Promise<Conversation | null> {
+    const { rows } = await this.pool.query('SELECT * FROM conversations WHERE id = $1', [
+      conversationId,
+    ]);
+    if (rows.length === 0) return null;
+
+    const messages = await this.findMessages(conversationId);
+    return toConversation(rows[0], messages);
+  }
+
+  async updateConversation(conversationId: string, changes: ConversationChanges): Promise<void> {
+    const columns = CONVERSATION_COLUMNS.filter(([field]) => field in changes);
+    await this.pool.query(
+      `UPDATE conversations SET ${columns.map(([, column], index) => `${column} = $${index + 2}`).join(', ')}
+        WHERE id = $1`,
+      [
+        conversationId,
+        ...columns.map(([field]) =>
+          JSON_CONVERSATION_FIELDS.includes(field) ? toJson(changes[field]) : changes[field] || null),
+      ]
+    );
+  }
+
+  async appendMessage(message: ChatMessage): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO chat_messages (id, conversation_id, sender, message, timestamp, metadata)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        message.id,
+        message.conversationId,
+        message.sender,
+        message.message,
+        message.timestamp,
+        toJson(message.metadata),
+      ]
+    );
+  }
+
+  async updateMessage(message: ChatMessage): Promise<void> {
+    await this.pool.query('UPDATE chat_messages SET metadata = $2 WHERE id = $1', [
+      message.id,
+      toJson(message.metadata),
+    ]);
+  }
+
+  async findMessages(conversationId: string, limit?: number): Promise<ChatMessage[]> {
+    if (limit && limit > 0) {
+      // Latest N, returned oldest-first to match the transcript order
+      const { rows } = await this.pool.query(
+        `SELECT * FROM (
+           SELECT * FROM chat_messages WHERE conversation_id = $1
+            ORDER BY seq DESC LIMIT $2
+         ) latest ORDER BY seq ASC`,
+        [conversationId, limit]
+      );
+      return rows.map(toMessage);
+    }
+
+    const { rows } = await this.pool.query(
+      'SELECT * FROM chat_messages WHERE conversation_id = $1 ORDER BY seq ASC',
+      [conversationId]
+    );
+    return rows.map(toMessage);
+  }
+
+  async findConversationsByUser(userId: string, limit: number): Promise<Conversation[]> {
+    const { rows } = await this.pool.query(
+      'SELECT * FROM conversations WHERE user_id = $1 ORDER BY updated_at DESC LIMIT $2',
+      [userId, limit]
+    );
+    if (rows.length === 0) return [];
+
+    const messageResult = await this.pool.query(
+      'SELECT * FROM chat_messages WHERE conversation_id = ANY($1) ORDER BY seq ASC',
+      [rows.map((row) => row.id)]
+    );
+    const messagesByConversation = new Map<string, ChatMessage[]>();
+    for (const message of messageResult.rows.map(toMessage)) {
+      if (!messagesByConversation.has(message.conversationId)) {
+        messagesByConversation.set(message.conversationId, []);
+      }
+      messagesByConversation.get(message.conversationId)!.push(message);
+    }
+
+    return rows.map((row) => toConversation(row, messagesByConversation.get(row.id) || []));
+  }
+
+  async findOpenDriverRelays(): Promise<string[]> {
+    const { rows } = await this.pool.query(
+      "SELECT id FROM conversations WHERE driver_relay->>'status' = 'open'"
+    );
+    return rows.map((row) => row.id);
+  }
+}
+
+export class PostgresEscalationRepository implements EscalationRepository {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  async insertEscalationRequest(request: EscalationRequest): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO escalation_requests
+         (id, conversation_id, booking_id, user_id, escalation_type, reason, priority, timestamp, context, chat_transcript)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [
+        request.id,
+        request.conversationId,
+        request.bookingId || null,
+        request.userId || null,
+        request.escalationType,
+        request.reason,
+        request.priority,
+        request.timestamp,
+        toJson(request.context) || '{}',
+        toJson(request.chatTranscript),
+      ]
+    );
+  }
+
+  async findEscalationRequest(requestId: string): Promise<EscalationRequest | null> {
+    const { rows } = await this.pool.query('SELECT * FROM escalation_requests WHERE id = $1', [
+      requestId,
+    ]);
+    return rows.length ? toEscalationRequest(rows[0]) : null;
+  }
+
+  async insertSupportTicket(ticket: SupportTicket): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO support_tickets
+         (id, escalation_request_id, conversation_id, user_id, status, priority, assigned_agent,
+          created_at, sla_due_at, sla_breaches, resolved_at, resolution, booking_context, events)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)`,
+      [
+        ticket.id,
+        ticket.escalationRequestId,
+        ticket.conversationId,
+        ticket.userId || null,
+        ticket.status,
+        ticket.priority,
+        ticket.assignedAgent || null,
+        ticket.createdAt,
+        ticket.slaDueAt || null,
+        ticket.slaBreaches || 0,
+        ticket.resolvedAt || null,
+        ticket.resolution || null,
+        toJson(ticket.bookingContext),
+        toJson(ticket.events),
+      ]
+    );
+  }
+
+  async updateSupportTicket(ticket: SupportTicket): Promise<void> {
+    await this.pool.query(
+      `UPDATE support_tickets
+          SET status = $2, assigned_agent = $3, resolved_at = $4, resolution = $5, booking_context = $6,
+              priority = $7, sla_due_at = $8, sla_breaches = $9, events = $10
+        WHERE id = $1`,
+      [
+        ticket.id,
+        ticket.status,
+        ticket.assignedAgent || null,
+        ticket.resolvedAt || null,
+        ticket.resolution || null,
+        toJson(ticket.bookingContext),
+        ticket.priority,
+        ticket.slaDueAt || null,
+        ticket.slaBreaches || 0,
+        toJson(ticket.events),
+      ]
+    );
+  }
+
+  async claimSupportTicket(ticketId: string, agentId: string): Promise<SupportTicket | null> {
+    const { rows } = await this.pool.query(
+      `UPDATE support_tickets
+          SET status = 'in_progress', assigned_agent = $2
+        WHERE id = $1
+          AND (status = 'open' OR (status = 'in_progress' AND assigned_agent IS NULL))
+       RETURNING *`,
+      [ticketId, agentId]
+    );
+    return rows.length ? toSupportTicket(rows[0]) : null;
+  }
+
+  async findSupportTicket(ticketId: string): Promise<SupportTicket | null> {
+    const { rows } = await this.pool.query('SELECT * FROM support_tickets WHERE id = $1', [
+      ticketId,
+    ]);
+    return rows.length ? toSupportTicket(rows[0]) : null;
+  }
+
+  async findTickets(filter: TicketFilter = {}): Promise<SupportTicket[]> {
+    const { rows } = await this.pool.query(
+      `SELECT * FROM support_tickets
+        WHERE ($1::text IS NULL OR user_id = $1)
+          AND ($2::text[] IS NULL OR status = ANY($2::text[]))
+          AND NOT (status = ANY($3::text[]))
+          AND ($4::text IS NULL OR assigned_agent = $4)
+          AND ($6::uuid IS NULL OR conversation_id = $6)
+        ORDER BY array_position($5::text[], priority) DESC, created_at ASC`,
+      [
+        filter.userId || null,
+        filter.statuses || null,
+        filter.excludeStatuses || [],
+        filter.assignedAgent || null,
+        ESCALATION_PRIORITIES,
+        filter.conversationId || null,
+      ]
+    );
+    return rows.map(toSupportTicket);
+  }
+}
+
+export class PostgresReviewQueueRepository implements ReviewQueueRepository {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  async insertItem(item: ReviewItem): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO utterance_reviews
+         (id, text, normalized_text, source, status, occurrences, conversation_id, language,
+          predicted_intent, confidence, candidates, escalation_type, label, labelled_by, training_job_id,
+          corpus_version, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)`,
+      [
+        item.id,
+        item.text,
+        item.normalizedText,
+        item.source,
+        item.status,
+        item.occurrences,
+        item.conversationId,
+        item.language,
+        item.predictedIntent || null,
+        item.confidence,
+        toJson(item.candidates),
+        item.escalationType || null,
+        item.label || null,
+        item.labelledBy || null,
+        item.trainingJobId || null,
+        item.corpusVersion ?? null,
+        item.createdAt,
+        item.updatedAt,
+      ]
+    );
+  }
+
+  async updateItem(item: ReviewItem): Promise<void> {
+    await this.pool.query(
+      `UPDATE utterance_reviews
+          SET status = $2, occurrences = $3, label = $4, labelled_by = $5, training_job_id = $6,
+              corpus_version = $7, updated_at = $8
+        WHERE id = $1`,
+      [
+        item.id,
+        item.status,
+        item.occurrences,
+        item.label || null,
+        item.labelledBy || null,
+        item.trainingJobId || null,
+        item.corpusVersion ?? null,
+        item.updatedAt,
+      ]
+    );
+  }
+
+  async findItem(itemId: string): Promise<ReviewItem | null> {
+    const { rows } = await this.pool.query('SELECT * FROM utterance_reviews WHERE id = $1', [itemId]);
+    return rows.length ? toReviewItem(rows[0]) : null;
+  }
+
+  async findItems(filter: ReviewFilter = {}): Promise<ReviewItem[]> {
+    const { rows } = await this.pool.query(
+      `SELECT * FROM utterance_reviews
+        WHERE ($1::text[] IS NULL OR status = ANY($1::text[]))
+          AND ($2::text IS NULL OR source = $2)
+          AND ($3::text IS NULL OR language = $3)
+        ORDER BY updated_at DESC
+        LIMIT $4`,
+      [
+        filter.statuses || null,
+        filter.source || null,
+        filter.language || null,
+        filter.limit && filter.limit > 0 ? filter.limit : null,
+      ]
+    );
+    return rows.map(toReviewItem);
+  }
+
+  async findOpenByText(normalizedText: string): Promise<ReviewItem | null> {
+    const { rows } = await this.pool.query(
+      `SELECT * FROM utterance_reviews
+        WHERE normalized_text = $1 AND status IN ('pending', 'labelled')
+        LIMIT 1`,
+      [normalizedText]
+    );
+    return rows.length ? toReviewItem(rows[0]) : null;
+  }
+}
+
+export class PostgresSafetyIncidentRepository implements SafetyIncidentRepository {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  async insertEvent(event: SafetyEvent): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO safety_events
+         (id, conversation_id, user_id, driver_id, severity, score, keywords, timestamp, status, escalated_to,
+          assigned_to, acknowledged_by, acknowledged_at, resolved_by, resolved_at, outcome)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)`,
+      [
+        event.id,
+        event.conversationId,
+        event.userId,
+        event.driverId || null,
+        event.severity,
+        event.score ?? null,
+        toJson(event.keywords),
+        event.timestamp,
+        event.status,
+        event.escalatedTo || null,
+        event.assignedTo || null,
+        event.acknowledgedBy || null,
+        event.acknowledgedAt || null,
+        event.resolvedBy || null,
+        event.resolvedAt || null,
+        event.outcome || null,
+      ]
+    );
+  }
+
+  async updateEvent(event: SafetyEvent): Promise<void> {
+    await this.pool.query(
+      `UPDATE safety_events
+          SET status = $2, escalated_to = $3, assigned_to = $4, acknowledged_by = $5, acknowledged_at = $6,
+              resolved_by = $7, resolved_at = $8, outcome = $9
+        WHERE id = $1`,
+      [
+        event.id,
+        event.status,
+        event.escalatedTo || null,
+        event.assignedTo || null,
+        event.acknowledgedBy || null,
+        event.acknowledgedAt || null,
+        event.resolvedBy || null,
+        event.resolvedAt || null,
+        event.outcome || null,
+      ]
+    );
+  }
+
+  async findEvent(eventId: string): Promise<SafetyEvent | null> {
+    const { rows } = await this.pool.query('SELECT * FROM safety_events WHERE id = $1', [eventId]);
+    return rows.length ? toSafetyEvent(rows[0]) : null;
+  }
+
+  async findEvents(filter: SafetyEventFilter = {}): Promise<SafetyEvent[]> {
+    const { rows } = await this.pool.query(
+      `SELECT * FROM safety_events
+        WHERE ($1::text[] IS NULL OR status = ANY($1::text[]))
+          AND ($2::text[] IS NULL OR severity = ANY($2::text[]))
+          AND ($3::text IS NULL OR assigned_to = $3)
+        ORDER BY array_position($4::text[], severity) DESC, timestamp DESC
+        LIMIT $5`,
+      [
+        filter.statuses || null,
+        filter.severities || null,
+        filter.assignedTo || null,
+        SAFETY_SEVERITIES,
+        filter.limit && filter.limit > 0 ? filter.limit : null,
+      ]
+    );
+    return rows.map(toSafetyEvent);
+  }
+
+  async appendAudit(entry: SafetyAuditEntry): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO safety_event_audit (id, event_id, action, actor, note, details, at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [entry.id, entry.eventId, entry.action, entry.actor, entry.note || null, toJson(entry.details), entry.at]
+    );
+  }
+
+  async findAudit(eventId: string): Promise<SafetyAuditEntry[]> {
+    const { rows } = await this.pool.query(
+      'SELECT * FROM safety_event_audit WHERE event_id = $1 ORDER BY seq',
+      [eventId]
+    );
+    return rows.map(toSafetyAuditEntry);
+  }
+}
+
+export class PostgresTripShareRepository implements TripShareRepository {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  async insertContact(contact: TrustedContact): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO trusted_contacts (id, user_id, name, phone, created_at)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [contact.id, contact.userId, contact.name, contact.phone, contact.createdAt]
+    );
+  }
+
+  async deleteContact(contactId: string): Promise<void> {
+    await this.pool.query('DELETE FROM trusted_contacts WHERE id = $1', [contactId]);
+  }
+
+  async findContacts(userId: string): Promise<TrustedContact[]> {
+    const { rows } = await this.pool.query(
+      'SELECT * FROM trusted_contacts WHERE user_id = $1 ORDER BY created_at ASC',
+      [userId]
+    );
+    return rows.map(toTrustedContact);
+  }
+
+  async insertShare(share: TripShare): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO trip_shares
+         (id, token_hash, user_id, booking_id, conversation_id, driver_id, status, recipients,
+          created_at, expires_at, ended_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+      [
+        share.id,
+        share.tokenHash,
+        share.userId,
+        share.bookingId,
+        share.conversationId,
+        share.driverId || null,
+        share.status,
+        toJson(share.recipients),
+        share.createdAt,
+        share.expiresAt,
+        share.endedAt || null,
+      ]
+    );
+  }
+
+  async updateShare(share: TripShare): Promise<void> {
+    await this.pool.query(
+      'UPDATE trip_shares SET status = $2, recipients = $3, ended_at = $4 WHERE id = $1',
+      [share.id, share.status, toJson(share.recipients), share.endedAt || null]
+    );
+  }
+
+  async findShare(shareId: string): Promise<TripShare | null> {
+    const { rows } = await this.pool.query('SELECT * FROM trip_shares WHERE id = $1', [shareId]);
+    return rows.length ? toTripShare(rows[0]) : null;
+  }
+
+  async findShareByTokenHash(tokenHash: string): Promise<TripShare | null> {
+    const { rows } = await this.pool.query('SELECT * FROM trip_shares WHERE token_hash = $1', [tokenHash]);
+    return rows.length ? toTripShare(rows[0]) : null;
+  }
+
+  async findShares(status: TripShareStatus, userId?: string): Promise<TripShare[]> {
+    const { rows } = await this.pool.query(
+      `SELECT * FROM trip_shares
+        WHERE status = $1 AND ($2::text IS NULL OR user_id = $2)
+        ORDER BY created_at DESC`,
+      [status, userId || null]
+    );
+    return rows.map(toTripShare);
+  }
+}
+
+export class PostgresWebhookDeliveryRepository implements WebhookDeliveryRepository {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  async insertDelivery(delivery: WebhookDelivery): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO webhook_deliveries
+         (id, event, url, body, status, attempts, next_attempt_at, created_at, delivered_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        delivery.id,
+        delivery.event,
+        delivery.url,
+        delivery.body,
+        delivery.status,
+        toJson(delivery.attempts),
+        delivery.nextAttemptAt || null,
+        delivery.createdAt,
+        delivery.deliveredAt || null,
+      ]
+    );
+  }
+
+  async updateDelivery(delivery: WebhookDelivery): Promise<void> {
+    await this.pool.query(
+      `UPDATE webhook_deliveries
+          SET status = $2, attempts = $3, next_attempt_at = $4, delivered_at = $5
+        WHERE id = $1`,
+      [
+        delivery.id,
+        delivery.status,
+        toJson(delivery.attempts),
+        delivery.nextAttemptAt || null,
+        delivery.deliveredAt || null,
+      ]
+    );
+  }
+
+  async findDelivery(deliveryId: string): Promise<WebhookDelivery | null> {
+    const { rows } = await this.pool.query('SELECT * FROM webhook_deliveries WHERE id = $1', [deliveryId]);
+    return rows.length ? toWebhookDelivery(rows[0]) : null;
+  }
+
+  async findDeliveries(filter: WebhookDeliveryFilter = {}): Promise<WebhookDelivery[]> {
+    const { rows } = await this.pool.query(
+      `SELECT * FROM webhook_deliveries
+        WHERE ($1::text[] IS NULL OR status = ANY($1::text[]))
+          AND ($2::text IS NULL OR event = $2)
+        ORDER BY created_at DESC
+        LIMIT $3`,
+      [filter.statuses || null, filter.event || null, filter.limit && filter.limit > 0 ? filter.limit : null]
+    );
+    return rows.map(toWebhookDelivery);
+  }
+
+  async findDueDeliveries(now: Date): Promise<WebhookDelivery[]> {
+    const { rows } = await this.pool.query(
+      `SELECT * FROM webhook_deliveries
+        WHERE status = 'pending' AND next_attempt_at <= $1
+        ORDER BY next_attempt_at ASC`,
+      [now]
+    );
+    return rows.map(toWebhookDelivery);
+  }
+}
@@ -0,0 +1,151 @@
+import {
+  Conversation,
+  ChatMessage,
+  EscalationRequest,
+  Language,
+  ReviewItem,
+  ReviewSource,
+  ReviewStatus,
+  SafetyAuditEntry,
+  SafetyEvent,
+  SafetyEventStatus,
+  SupportTicket,
+  TripShare,
+  TripShareStatus,
+  TrustedContact,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+} from '../types';
+
+// ============================================================
+// Repository contracts for conversation and escalation storage.
+// Implemented by the in-memory store (default, used without a
+// database) and the PostgreSQL store (PERSISTENCE_DRIVER=postgres).
+// ============================================================
+
+// The conversation fields a write changes; a field given as undefined is cleared.
+// Messages are appended on their own (appendMessage).
+export type ConversationChanges = Partial<Pick<
+  Conversation,
+  | 'driverId'
+  | 'supportAgentId'
+  | 'supportTicketId'
+  | 'status'
+  | 'escalationType'
+  | 'dialogState'
+  | 'cancellation'
+  | 'language'
+  | 'driverRelay'
+>> & { updatedAt: Date };
+
+export interface ConversationRepository {
+  insertConversation(conversation: Conversation): Promise<void>;
+  // Returns the conversation with its messages in chronological order
+  findConversation(conversationId: string): Promise<Conversation | null>;
+  // Writes only the fields in `changes`, so writers changing different
+  // fields don't overwrite each other
+  updateConversation(conversationId: string, changes: ConversationChanges): Promise<void>;
+  appendMessage(message: ChatMessage): Promise<void>;
+  // Only the metadata changes (relay receipts)
+  updateMessage(message: ChatMessage): Promise<void>;
+  findMessages(conversationId: string, limit?: number): Promise<ChatMessage[]>;
+  // Most recently updated first
+  findConversationsByUser(userId: string, limit: number): Promise<Conversation[]>;
+  // Ids of conversations whose driver relay is open
+  findOpenDriverRelays(): Promise<string[]>;
+}
+
+export interface TicketFilter {
+  userId?: string;
+  conversationId?: string;
+  statuses?: SupportTicket['status'][];
+  excludeStatuses?: SupportTicket['status'][];
+  assignedAgent?: string;
+}
+
+export interface EscalationRepository {
+  insertEscalationRequest(request: EscalationRequest): Promise<void>;
+  findEscalationRequest(requestId: string): Promise<EscalationRequest | null>;
+  insertSupportTicket(ticket: SupportTicket): Promise<void>;
+  updateSupportTicket(ticket: SupportTicket): Promise<void>;
+  // Atomically: in_progress with the agent, only if no agent holds it yet.
+  // Null if the ticket doesn't exist or someone got there first.
+  claimSupportTicket(ticketId: string, agentId: string): Promise<SupportTicket | null>;
+  findSupportTicket(ticketId: string): Promise<SupportTicket | null>;
+  // Most urgent first, then oldest
+  findTickets(filter?: TicketFilter): Promise<SupportTicket[]>;
+}
+
+export interface ReviewFilter {
+  statuses?: ReviewStatus[];
+  source?: ReviewSource;
+  language?: Language;
+  limit?: number;
+}
+
+export interface ReviewQueueRepository {
+  insertItem(item: ReviewItem): Promise<void>;
+  updateItem(item: ReviewItem): Promise<void>;
+  findItem(itemId: string): Promise<ReviewItem | null>;
+  // Most recently updated first
+  findItems(filter?: ReviewFilter): Promise<ReviewItem[]>;
+  // The pending or labelled item with this normalized text, if any
+  findOpenByText(normalizedText: string): Promise<ReviewItem | null>;
+}
+
+export interface SafetyEventFilter {
+  statuses?: SafetyEventStatus[];
+  severities?: SafetyEvent['severity'][];
+  assignedTo?: string;
+  limit?: number;
+}
+
+export interface SafetyIncidentRepository {
+  insertEvent(event: SafetyEvent): Promise<void>;
+  updateEvent(event: SafetyEvent): Promise<void>;
+  findEvent(eventId: string): Promise<SafetyEvent | null>;
+  // Most severe first, then most recent
+  findEvents(filter?: SafetyEventFilter): Promise<SafetyEvent[]>;
+  appendAudit(entry: SafetyAuditEntry): Promise<void>;
+  // Chronological
+  findAudit(eventId: string): Promise<SafetyAuditEntry[]>;
+}
+
+export interface TripShareRepository {
+  insertContact(contact: TrustedContact): Promise<void>;
+  deleteContact(contactId: string): Promise<void>;
+  // Oldest first
+  findContacts(userId: string): Promise<TrustedContact[]>;
+  insertShare(share: TripShare): Promise<void>;
+  updateShare(share: TripShare): Promise<void>;
+  findShare(shareId: string): Promise<TripShare | null>;
+  findShareByTokenHash(tokenHash: string): Promise<TripShare | null>;
+  // Most recent first; every user's when userId is omitted
+  findShares(status: TripShareStatus, userId?: string): Promise<TripShare[]>;
+}
+
+export interface WebhookDeliveryFilter {
+  statuses?: WebhookDeliveryStatus[];
+  event?: WebhookEvent;
+  limit?: number;
+}
+
+export interface WebhookDeliveryRepository {
+  insertDelivery(delivery: WebhookDelivery): Promise<void>;
+  updateDelivery(delivery: WebhookDelivery): Promise<void>;
+  findDelivery(deliveryId: string): Promise<WebhookDelivery | null>;
+  // Most recent first
+  findDeliveries(filter?: WebhookDeliveryFilter): Promise<WebhookDelivery[]>;
+  // Pending with the next attempt at or before `now`, soonest first
+  findDueDeliveries(now: Date): Promise<WebhookDelivery[]>;
+}
+
+export interface Repositories {
+  conversations: ConversationRepository;
+  escalations: EscalationRepository;
+  reviewQueue: ReviewQueueRepository;
+  safetyIncidents: SafetyIncidentRepository;
+  tripShares: TripShareRepository;
+  webhookDeliveries: WebhookDeliveryRepository;
+}
@@ -0,0 +1,344 @@
+// ============================================================
+// RideSharePro — Admin API Routes
+// Intent classifier: labelled utterances, retraining, model status,
+// and the review queue of utterances the bot did not resolve;
+// drivers flagged by safety events across riders; webhook deliveries
+// ============================================================
+
+import { Router, Request, Response, NextFunction } from 'express';
+import intentDetector, { TrainingInProgressError } from '../nlp/intentDetector';
+import reviewQueueService from '../services/reviewQueueService';
+import safetyDetectionService from '../services/safetyDetection';
+import webhookService, { WebhookDeliveryStateError } from '../services/webhookService';
+import {
+  Language,
+  LANGUAGES,
+  ReviewSource,
+  ReviewStatus,
+  WEBHOOK_EVENTS,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+} from '../types';
+import { CorpusValidationError } from '../nlp/corpus';
+import { isLanguage } from '../nlp/language';
+import { authenticate, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// Middleware for error handling
+const asyncHandler = (fn: Function) => (req: Request, res: Response, next: NextFunction) => {
+  Promise.resolve(fn(req, res, next)).catch(next);
+};
+
+router.use(authenticate, requireRole('admin'));
+
+// Corpus problems are the caller's to fix; a running job means "try again later"
+const handleTrainingError = (res: Response, error: unknown) => {
+  if (error instanceof CorpusValidationError) {
+    return res.status(400).json({ error: 'Invalid utterances', problems: error.problems });
+  }
+  if (error instanceof TrainingInProgressError) {
+    return res.status(409).json({ error: error.message });
+  }
+  throw error;
+};
+
+// Which language's corpus / model a request is about (English by default)
+const languageParam = (value: unknown): Language | null =>
+  value === undefined ? 'en' : isLanguage(value) ? value : null;
+
+const invalidLanguage = (res: Response) =>
+  res.status(400).json({ error: `language must be one of: ${LANGUAGES.join(', ')}` });
+
+// ─────────────────────────────────────────────────
+// GET /api/admin/nlp/model
+// Active English model (corpus version, held-out score), every language's
+// model and recent training jobs
+// ─────────────────────────────────────────────────
+router.get('/nlp/model', (_req: Request, res: Response) => {
+  res.status(200).json({
+    model: intentDetector.getModelInfo(),
+    models: intentDetector.getModels(),
+    jobs: intentDetector.getTrainingJobs(),
+  });
+});
+
+// ─────────────────────────────────────────────────
+// POST /api/admin/nlp/utterances
+// Body: { utterances: [{ text, intent }], note?, language? }
+// Adds phrases as the language's next corpus version and retrains in the background.
+// The current model keeps serving until the new one passes evaluation.
+// ─────────────────────────────────────────────────
+router.post(
+  '/nlp/utterances',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { utterances, note } = req.body;
+    const language = languageParam(req.body.language);
+
+    if (!Array.isArray(utterances) || utterances.length === 0) {
+      return res.status(400).json({ error: 'Missing required parameter: utterances' });
+    }
+    if (!language || !intentDetector.hasModel(language)) {
+      return invalidLanguage(res);
+    }
+
+    try {
+      const job = intentDetector.addUtterances(language, utterances, req.auth!.userId, note);
+      if (!job) {
+        return res.status(200).json({
+          message: 'Every utterance is already in the corpus',
+          model: intentDetector.getModelInfo(language),
+        });
+      }
+      return res.status(202).json({ job });
+    } catch (error) {
+      return handleTrainingError(res, error);
+    }
+  })
+);
+
+// ─────────────────────────────────────────────────
+// POST /api/admin/nlp/reload
+// Body: { language? } — retrain from the language's latest corpus file on disk
+// ─────────────────────────────────────────────────
+router.post(
+  '/nlp/reload',
+  asyncHandler(async (req: Request, res: Response) => {
+    const language = languageParam(req.body?.language);
+    if (!language || !intentDetector.hasModel(language)) {
+      return invalidLanguage(res);
+    }
+
+    try {
+      return res.status(202).json({ job: intentDetector.reloadCorpus(language, req.auth!.userId) });
+    } catch (error) {
+      return handleTrainingError(res, error);
+    }
+  })
+);
+
+// ─────────────────────────────────────────────────
+// GET /api/admin/nlp/jobs/:jobId
+// Training job status: training → active | rejected | failed
+// ─────────────────────────────────────────────────
+router.get('/nlp/jobs/:jobId', (req: Request, res: Response) => {
+  const job = intentDetector.getTrainingJob(req.params.jobId);
+  if (!job) {
+    return res.status(404).json({ error: 'Training job not found' });
+  }
+  return res.status(200).json(job);
+});
+
+const REVIEW_STATUSES: ReviewStatus[] = ['pending', 'labelled', 'promoting', 'promoted', 'dismissed'];
+const REVIEW_SOURCES: ReviewSource[] = ['unknown', 'escalated'];
+
+// ─────────────────────────────────────────────────
+// GET /api/admin/nlp/review?status=pending,labelled&source=unknown&language=es&limit=50
+// Queued utterances, most recently seen first (default: pending)
+// ─────────────────────────────────────────────────
+router.get(
+  '/nlp/review',
+  asyncHandler(async (req: Request, res: Response) => {
+    const statuses = String(req.query.status || 'pending').split(',') as ReviewStatus[];
+    const source = req.query.source as ReviewSource | undefined;
+    const language = req.query.language;
+    const limit = parseInt(String(req.query.limit || '50'), 10);
+
+    if (statuses.some((status) => !REVIEW_STATUSES.includes(status))) {
+      return res.status(400).json({ error: `status must be one of: ${REVIEW_STATUSES.join(', ')}` });
+    }
+    if (source && !REVIEW_SOURCES.includes(source)) {
+      return res.status(400).json({ error: `source must be one of: ${REVIEW_SOURCES.join(', ')}` });
+    }
+    if (language !== undefined && !isLanguage(language)) {
+      return invalidLanguage(res);
+    }
+
+    const items = await reviewQueueService.listItems({ statuses, source, language, limit });
+    return res.status(200).json({ items, total: items.length });
+  })
+);
+
+// ─────────────────────────────────────────────────
+// GET /api/admin/nlp/review/clusters?similarity=0.5
+// Pending utterances grouped by word overlap, largest group first
+// ─────────────────────────────────────────────────
+router.get(
+  '/nlp/review/clusters',
+  asyncHandler(async (req: Request, res: Response) => {
+    const similarity = req.query.similarity !== undefined ? parseFloat(String(req.query.similarity)) : undefined;
+
+    if (similarity !== undefined && !(similarity > 0 && similarity <= 1)) {
+      return res.status(400).json({ error: 'similarity must be a number in (0, 1]' });
+    }
+
+    const clusters = await reviewQueueService.getClusters(similarity);
+    return res.status(200).json({ clusters, total: clusters.length });
+  })
+);
+
+// ─────────────────────────────────────────────────
+// POST /api/admin/nlp/review/label
+// Body: { itemIds: [...], intent, language? } — intent null dismisses the items
+// ─────────────────────────────────────────────────
+router.post(
+  '/nlp/review/label',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { itemIds, intent } = req.body;
+    const language = languageParam(req.body.language);
+
+    if (!Array.isArray(itemIds) || itemIds.length === 0 || intent === undefined) {
+      return res.status(400).json({ error: 'Missing required parameters: itemIds, intent' });
+    }
+    if (!language) {
+      return invalidLanguage(res);
+    }
+    if (intent !== null && !intentDetector.getIntents(language).includes(intent)) {
+      return res.status(400).json({ error: `Unknown intent "${intent}"` });
+    }
+
+    const items = await reviewQueueService.labelItems(itemIds, intent, req.auth!.userId);
+    if (!items.length) {
+      return res.status(404).json({ error: 'No open review items found for itemIds' });
+    }
+    return res.status(200).json({ items });
+  })
+);
+
+// ─────────────────────────────────────────────────
+// POST /api/admin/nlp/review/promote
+// Body: { itemIds?, language? } — the language's labelled items (all of them
+// by default) go into its training corpus; same evaluation gate as /nlp/utterances
+// ─────────────────────────────────────────────────
+router.post(
+  '/nlp/review/promote',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { itemIds } = req.body;
+    const language = languageParam(req.body.language);
+
+    if (itemIds !== undefined && !Array.isArray(itemIds)) {
+      return res.status(400).json({ error: 'itemIds must be an array' });
+    }
+    if (!language || !intentDetector.hasModel(language)) {
+      return invalidLanguage(res);
+    }
+
+    try {
+      const { job, items } = await reviewQueueService.promote(itemIds, req.auth!.userId, language);
+      if (!items.length) {
+        return res.status(404).json({ error: 'No labelled review items to promote' });
+      }
+      return res.status(job ? 202 : 200).json({ job, items });
+    } catch (error) {
+      return handleTrainingError(res, error);
+    }
+  })
+);
+
+// ─────────────────────────────────────────────────
+// GET /api/admin/safety/drivers
+// Drivers named in safety events by DRIVER_FLAG_RIDER_COUNT or more riders
+// within DRIVER_FLAG_WINDOW_DAYS, most riders first
+// ─────────────────────────────────────────────────
+router.get('/safety/drivers', (_req: Request, res: Response) => {
+  const drivers = safetyDetectionService.getFlaggedDrivers();
+  res.status(200).json({ drivers, total: drivers.length });
+});
+
+// ─────────────────────────────────────────────────
+// GET /api/admin/safety/drivers/:driverId
+// A driver's flag (if any) and safety events within the window
+// ─────────────────────────────────────────────────
+router.get('/safety/drivers/:driverId', (req: Request, res: Response) => {
+  const { driverId } = req.params;
+  const events = safetyDetectionService.getDriverEvents(driverId);
+  if (!events.length) {
+    return res.status(404).json({ error: 'No safety events for this driver' });
+  }
+  return res.status(200).json({
+    flag: safetyDetectionService.getDriverFlag(driverId) || null,
+    events,
+  });
+});
+
+const WEBHOOK_DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'delivered', 'dead'];
+
+// The body as the receiver got it, parsed for reading
+const deliveryView = ({ body, ...delivery }: WebhookDelivery) => ({ ...delivery, payload: JSON.parse(body) });
+
+// ─────────────────────────────────────────────────
+// GET /api/admin/webhooks/deliveries?status=dead&event=ticket_created&limit=50
+// Delivery log, most recent first, with every attempt
+// ─────────────────────────────────────────────────
+router.get(
+  '/webhooks/deliveries',
+  asyncHandler(async (req: Request, res: Response) => {
+    const statuses = req.query.status === undefined
+      ? undefined
+      : (String(req.query.status).split(',') as WebhookDeliveryStatus[]);
+    const event = req.query.event as WebhookEvent | undefined;
+    const limit = parseInt(String(req.query.limit || '50'), 10);
+
+    if (statuses && statuses.some((status) => !WEBHOOK_DELIVERY_STATUSES.includes(status))) {
+      return res.status(400).json({ error: `status must be one of: ${WEBHOOK_DELIVERY_STATUSES.join(', ')}` });
+    }
+    if (event && !WEBHOOK_EVENTS.includes(event)) {
+      return res.status(400).json({ error: `event must be one of: ${WEBHOOK_EVENTS.join(', ')}` });
+    }
+
+    const deliveries = (await webhookService.listDeliveries({ statuses, event, limit })).map(deliveryView);
+    return res.status(200).json({ deliveries, total: deliveries.length });
+  })
+);
+
+// ─────────────────────────────────────────────────
+// GET /api/admin/webhooks/dead-letters?limit=50
+// Deliveries that ran out of attempts, most recent first
+// ─────────────────────────────────────────────────
+router.get(
+  '/webhooks/dead-letters',
+  asyncHandler(async (req: Request, res: Response) => {
+    const limit = parseInt(String(req.query.limit || '50'), 10);
+    const deliveries = (await webhookService.listDeliveries({ statuses: ['dead'], limit })).map(deliveryView);
+    res.status(200).json({ deliveries, total: deliveries.length });
+  })
+);
+
+// ─────────────────────────────────────────────────
+// GET /api/admin/webhooks/deliveries/:deliveryId
+// ─────────────────────────────────────────────────
+router.get(
+  '/webhooks/deliveries/:deliveryId',
+  asyncHandler(async (req: Request, res: Response) => {
+    const delivery = await webhookService.getDelivery(req.params.deliveryId);
+    if (!delivery) {
+      return res.status(404).json({ error: 'Webhook delivery not found' });
+    }
+    return res.status(200).json(deliveryView(delivery));
+  })
+);
+
+// ─────────────────────────────────────────────────
+// POST /api/admin/webhooks/deliveries/:deliveryId/redeliver
+// One more attempt for a dead letter, made before responding
+// ─────────────────────────────────────────────────
+router.post(
+  '/webhooks/deliveries/:deliveryId/redeliver',
+  asyncHandler(async (req: Request, res: Response) => {
+    try {
+      const delivery = await webhookService.redeliver(req.params.deliveryId);
+      if (!delivery) {
+        return res.status(404).json({ error: 'Webhook delivery not found' });
+      }
+      return res.status(200).json(deliveryView(delivery));
+    } catch (error) {
+      if (error instanceof WebhookDeliveryStateError) {
+        return res.status(409).json({ error: error.message });
+      }
+      throw error;
+    }
+  })
+);
+
+export default router;
@@ -0,0 +1,168 @@
+// ============================================================
+// RideSharePro — Support Agent Console API Routes
+// Agents work the escalation queue: claim a ticket, read the
+// transcript, reply to the rider, hand back to the bot or resolve
+// ============================================================
+
+import { Router, Request, Response, NextFunction } from 'express';
+import agentConsoleService, { AgentConsoleStateError } from '../services/agentConsoleService';
+import escalationSlaService from '../services/escalationSlaService';
+import { SupportTicket } from '../types';
+import { authenticate, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// Middleware for error handling
+const asyncHandler = (fn: Function) => (req: Request, res: Response, next: NextFunction) => {
+  Promise.resolve(fn(req, res, next)).catch(next);
+};
+
+router.use(authenticate, requireRole('agent', 'admin'));
+
+const TICKET_STATUSES: SupportTicket['status'][] = ['open', 'in_progress', 'resolved', 'closed'];
+const MAX_MESSAGE_LENGTH = 2000;
+
+const notFound = (res: Response) => res.status(404).json({ error: 'Support ticket not found' });
+
+const handleStateError = (res: Response, error: unknown) => {
+  if (error instanceof AgentConsoleStateError) {
+    return res.status(409).json({ error: error.message });
+  }
+  throw error;
+};
+
+const text = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+// ─────────────────────────────────────────────────
+// GET /api/agent/queue?status=&mine=&assignedTo=&limit=
+// Open and in-progress tickets unless `status` (comma-separated) says
+// otherwise, most urgent first, then oldest. mine=true: the caller's tickets.
+// ─────────────────────────────────────────────────
+router.get(
+  '/queue',
+  asyncHandler(async (req: Request, res: Response) => {
+    const statuses = req.query.status === undefined
+      ? undefined
+      : String(req.query.status).split(',').map((status) => status.trim());
+    if (statuses && !statuses.every((status) => (TICKET_STATUSES as string[]).includes(status))) {
+      return res.status(400).json({ error: `status must be one of: ${TICKET_STATUSES.join(', ')}` });
+    }
+    const limit = req.query.limit === undefined ? undefined : parseInt(String(req.query.limit), 10);
+    if (limit !== undefined && !(limit > 0)) {
+      return res.status(400).json({ error: 'limit must be a positive number' });
+    }
+
+    const tickets = await agentConsoleService.listQueue({
+      statuses: statuses as SupportTicket['status'][] | undefined,
+      assignedAgent: req.query.mine === 'true'
+        ? req.auth!.userId
+        : req.query.assignedTo ? String(req.query.assignedTo) : undefined,
+      limit,
+    });
+    return res.status(200).json({ tickets, total: tickets.length });
+  })
+);
+
+// ─────────────────────────────────────────────────
+// GET /api/agent/sla
+// SLA per priority, breaches and claims in time, and how overdue the queue is
+// ─────────────────────────────────────────────────
+router.get(
+  '/sla',
+  asyncHandler(async (_req: Request, res: Response) => {
+    res.status(200).json(await escalationSlaService.getMetrics());
+  })
+);
+
+// ─────────────────────────────────────────────────
+// GET /api/agent/tickets/:ticketId
+// The ticket, its escalation (with the shared chat transcript) and the
+// conversation as it stands
+// ─────────────────────────────────────────────────
+router.get(
+  '/tickets/:ticketId',
+  asyncHandler(async (req: Request, res: Response) => {
+    const view = await agentConsoleService.getTicket(req.params.ticketId);
+    return view ? res.status(200).json(view) : notFound(res);
+  })
+);
+
+// ─────────────────────────────────────────────────
+// POST /api/agent/tickets/:ticketId/claim
+// The caller takes the ticket and its conversation over from the bot
+// ─────────────────────────────────────────────────
+router.post(
+  '/tickets/:ticketId/claim',
+  asyncHandler(async (req: Request, res: Response) => {
+    try {
+      const ticket = await agentConsoleService.claim(req.params.ticketId, req.auth!.userId);
+      return ticket ? res.status(200).json(ticket) : notFound(res);
+    } catch (error) {
+      return handleStateError(res, error);
+    }
+  })
+);
+
+// ─────────────────────────────────────────────────
+// POST /api/agent/tickets/:ticketId/messages
+// Body: { message }
+// Posts into the conversation as support_agent (the caller must hold the ticket)
+// ─────────────────────────────────────────────────
+router.post(
+  '/tickets/:ticketId/messages',
+  asyncHandler(async (req: Request, res: Response) => {
+    const message = text(req.body.message);
+    if (!message || message.length > MAX_MESSAGE_LENGTH) {
+      return res.status(400).json({ error: `message is required (at most ${MAX_MESSAGE_LENGTH} characters)` });
+    }
+
+    try {
+      const chatMessage = await agentConsoleService.reply(req.params.ticketId, req.auth!.userId, message);
+      return chatMessage ? res.status(201).json(chatMessage) : notFound(res);
+    } catch (error) {
+      return handleStateError(res, error);
+    }
+  })
+);
+
+// ─────────────────────────────────────────────────
+// POST /api/agent/tickets/:ticketId/handback
+// Body: { note? }
+// The bot answers the rider again; the ticket is resolved with the note
+// ─────────────────────────────────────────────────
+router.post(
+  '/tickets/:ticketId/handback',
+  asyncHandler(async (req: Request, res: Response) => {
+    try {
+      const ticket = await agentConsoleService.handBack(req.params.ticketId, req.auth!.userId, text(req.body.note));
+      return ticket ? res.status(200).json(ticket) : notFound(res);
+    } catch (error) {
+      return handleStateError(res, error);
+    }
+  })
+);
+
+// ─────────────────────────────────────────────────
+// POST /api/agent/tickets/:ticketId/resolve
+// Body: { resolution }
+// Resolves the ticket and the conversation
+// ─────────────────────────────────────────────────
+router.post(
+  '/tickets/:ticketId/resolve',
+  asyncHandler(async (req: Request, res: Response) => {
+    const resolution = text(req.body.resolution);
+    if (!resolution) {
+      return res.status(400).json({ error: 'Missing required parameter: resolution' });
+    }
+
+    try {
+      const ticket = await agentConsoleService.resolve(req.params.ticketId, req.auth!.userId, resolution);
+      return ticket ? res.status(200).json(ticket) : notFound(res);
+    } catch (error) {
+      return handleStateError(res, error);
+    }
+  })
+);
+
+export default router;
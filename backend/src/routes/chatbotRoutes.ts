@@ -5,8 +5,14 @@
 
 import { Router, Request, Response, NextFunction } from 'express';
 import chatbotService from '../services/chatbotService';
+import rideMonitorService from '../services/rideMonitorService';
 import { conversationService, escalationService } from '../services/conversationService';
 import apiClient from '../utils/apiClient';
+import { authenticate, requireRole, canAccessUser, isStaff } from '../middleware/auth';
+import catalog from '../i18n/catalog';
+import { isLanguage } from '../nlp/language';
+import { LANGUAGES } from '../types';
+import config from '../config';
 
 const router = Router();
 
@@ -15,41 +21,83 @@ const asyncHandler = (fn: Function) => (req: Request, res: Response, next: NextF
   Promise.resolve(fn(req, res, next)).catch(next);
 };
 
+const forbidden = (res: Response) =>
+  res.status(403).json({ error: 'You do not have access to this resource' });
+
+// ─────────────────────────────────────────────────
+// GET /api/chatbot/health
+// Health check (public)
+// ─────────────────────────────────────────────────
+router.get('/health', (_req: Request, res: Response) => {
+  res.status(200).json({
+    status: 'healthy',
+    timestamp: new Date().toISOString(),
+    service: 'RideSharePro In-App Chatbot',
+    version: '1.0.0',
+  });
+});
+
+// Every other chatbot route requires a verified token, a rider's or staff's
+// (drivers only have the driver-relay routes).
+// The caller's userId comes from the token, never from the request body.
+router.use(authenticate, requireRole('rider', 'agent', 'admin'));
+
 // ─────────────────────────────────────────────────
 // POST /api/chatbot/initiate
 // BRD §5.1, §5.2, Epic 1, Epic 2
 // Triggered immediately after booking confirmation
+// Body: { bookingId, language? } — language defaults to DEFAULT_LANGUAGE; the driver comes from the booking
 // Returns: greeting with booking context
 // ─────────────────────────────────────────────────
 router.post(
   '/initiate',
   asyncHandler(async (req: Request, res: Response) => {
-    const { bookingId, userId, driverId } = req.body;
+    const { bookingId, language = config.defaultLanguage } = req.body;
+    // Agents may open a conversation on a rider's behalf
+    const userId = isStaff(req.auth) && req.body.userId ? req.body.userId : req.auth!.userId;
 
-    if (!bookingId || !userId) {
+    if (!bookingId) {
       return res.status(400).json({
-        error: 'Missing required parameters: bookingId, userId',
+        error: 'Missing required parameter: bookingId',
       });
     }
+    if (!isLanguage(language)) {
+      return res.status(400).json({ error: `language must be one of: ${LANGUAGES.join(', ')}` });
+    }
+
+    // The booking must be the caller's own: the conversation exposes its driver and ETA
+    // and can cancel it. Without an answer from the booking API we can't tell, so refuse.
+    const booking = await apiClient.getBooking(bookingId).catch(() => null);
+    if (!booking) {
+      return res.status(503).json({ error: 'Could not look up the booking, please try again shortly' });
+    }
+    if (!isStaff(req.auth) && booking.userId !== req.auth!.userId) {
+      return forbidden(res);
+    }
 
     // Create conversation
     const conversation = await conversationService.createConversation(
       bookingId,
       userId,
-      driverId
+      booking.driverId,
+      language
     );
 
     // BRD §5.2: Context-aware greeting with user name, booking, driver, ETA
     const { message: greeting, bookingContext } = await chatbotService.getGreeting(
       conversation.id,
       bookingId,
-      userId
+      userId,
+      language
     );
 
     await conversationService.addMessage(conversation.id, 'bot', greeting, {
       type: 'greeting',
     });
 
+    // Checks in with the rider if the driver strays or stops during the ride
+    rideMonitorService.track(conversation);
+
     // BRD Epic 3: Quick actions based on booking status
     const bookingStatus = bookingContext.status || 'confirmed';
     const quickActions = await chatbotService.getQuickActions(bookingStatus);
@@ -60,6 +108,7 @@ router.post(
       message: greeting,
       suggestedActions: quickActions,
       bookingContext,
+      language,
     });
   })
 );
@@ -72,11 +121,11 @@ router.post(
 router.post(
   '/message',
   asyncHandler(async (req: Request, res: Response) => {
-    const { conversationId, bookingId, userId, message } = req.body;
+    const { conversationId, message } = req.body;
 
-    if (!conversationId || !bookingId || !userId || !message) {
+    if (!conversationId || !message) {
       return res.status(400).json({
-        error: 'Missing required parameters: conversationId, bookingId, userId, message',
+        error: 'Missing required parameters: conversationId, message',
       });
     }
 
@@ -84,11 +133,14 @@ router.post(
     if (!conversation) {
       return res.status(404).json({ error: 'Conversation not found' });
     }
+    if (!canAccessUser(req.auth, conversation.userId)) {
+      return forbidden(res);
+    }
 
     const response = await chatbotService.processMessage({
       conversationId,
-      bookingId,
-      userId,
+      bookingId: conversation.bookingId,
+      userId: conversation.userId,
       userInput: message,
       context: {
         driverId: conversation.driverId,
@@ -107,11 +159,11 @@ router.post(
 router.post(
   '/quick-action',
   asyncHandler(async (req: Request, res: Response) => {
-    const { conversationId, bookingId, userId, action } = req.body;
+    const { conversationId, action } = req.body;
 
-    if (!conversationId || !bookingId || !userId || !action) {
+    if (!conversationId || !action) {
       return res.status(400).json({
-        error: 'Missing required parameters: conversationId, bookingId, userId, action',
+        error: 'Missing required parameters: conversationId, action',
       });
     }
 
@@ -119,29 +171,20 @@ router.post(
     if (!conversation) {
       return res.status(404).json({ error: 'Conversation not found' });
     }
+    if (!canAccessUser(req.auth, conversation.userId)) {
+      return forbidden(res);
+    }
 
-    // BRD: Map quick action to natural language for NLP processing
-    const actionMessages: Record<string, string> = {
-      where_is_driver: 'Where is my driver?',
-      driver_late: 'My driver is late',
-      contact_driver: 'I want to contact my driver',
-      cannot_contact_driver: 'I cannot reach my driver',
-      cancel_booking: 'I want to cancel my booking',
-      payment_query: 'What is the fare for my ride?',
-      safety_concern: 'I have a safety concern',
-      call_driver: 'Call my driver',
-      message_driver: 'Send a message to my driver',
-      talk_to_agent: 'I want to talk to a support agent',
-      ok_thanks: 'OK, thanks',
-      emergency_contact: 'I need emergency help',
-    };
-
-    const message = actionMessages[action] || action;
+    // BRD: Map quick action to natural language for NLP processing, in the
+    // conversation's language (confirm_cancel / keep_booking answer a pending
+    // confirmation and are resolved without intent detection)
+    const actionKey = `quickActions.${action}`;
+    const message = catalog.has(actionKey) ? catalog.t(conversation.language, actionKey) : action;
 
     const response = await chatbotService.processMessage({
       conversationId,
-      bookingId,
-      userId,
+      bookingId: conversation.bookingId,
+      userId: conversation.userId,
       userInput: message,
       context: {
         action,
@@ -167,6 +210,9 @@ router.get(
     if (!conversation) {
       return res.status(404).json({ error: 'Conversation not found' });
     }
+    if (!canAccessUser(req.auth, conversation.userId)) {
+      return forbidden(res);
+    }
 
     const messages = await conversationService.getMessages(
       conversationId,
@@ -179,7 +225,10 @@ router.get(
         bookingId: conversation.bookingId,
         userId: conversation.userId,
         status: conversation.status,
+        language: conversation.language,
         escalationType: conversation.escalationType,
+        cancellation: conversation.cancellation,
+        driverRelay: conversation.driverRelay,
         createdAt: conversation.createdAt,
         updatedAt: conversation.updatedAt,
       },
@@ -198,13 +247,17 @@ router.get(
     const { userId } = req.params;
     const { limit } = req.query;
 
+    if (!canAccessUser(req.auth, userId)) {
+      return forbidden(res);
+    }
+
     const conversations = await conversationService.getConversationHistory(
       userId,
       limit ? parseInt(limit as string) : 10
     );
 
-    const summaries = conversations.map((conv) =>
-      conversationService.getConversationSummary(conv.id)
+    const summaries = await Promise.all(
+      conversations.map((conv) => conversationService.getConversationSummary(conv.id))
     );
 
     return res.status(200).json({
@@ -222,7 +275,7 @@ router.get(
 router.post(
   '/escalate',
   asyncHandler(async (req: Request, res: Response) => {
-    const { conversationId, bookingId, userId, escalationType, reason } = req.body;
+    const { conversationId, escalationType, reason } = req.body;
 
     if (!conversationId || !escalationType) {
       return res.status(400).json({
@@ -230,6 +283,15 @@ router.post(
       });
     }
 
+    const conversation = await conversationService.getConversation(conversationId);
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+    if (!canAccessUser(req.auth, conversation.userId)) {
+      return forbidden(res);
+    }
+    const { bookingId, userId } = conversation;
+
     // BRD Epic 5: Chat transcript shared automatically
     const messages = await conversationService.getMessages(conversationId);
 
@@ -240,35 +302,31 @@ router.post(
       escalationType,
       reason || 'Manual escalation by user',
       {
+        driverId: conversation.driverId,
         chatTranscript: messages,
       }
     );
 
-    let ticket;
-    if (escalationType === 'support' || escalationType === 'safety') {
-      ticket = await escalationService.createSupportTicket(
-        escalationRequest.id,
-        conversationId,
-        userId
-      );
-
-      await conversationService.escalateConversation(
-        conversationId,
-        escalationType,
-        undefined,
-        ticket.id
-      );
-    } else {
-      await conversationService.escalateConversation(
-        conversationId,
-        escalationType
-      );
-    }
+    // Every escalation gets a ticket, so an agent picks it up within its SLA
+    const ticket = await escalationService.createSupportTicket(
+      escalationRequest.id,
+      conversationId,
+      userId
+    );
+
+    await conversationService.escalateConversation(
+      conversationId,
+      escalationType,
+      undefined,
+      ticket.id
+    );
 
     return res.status(200).json({
       escalationRequestId: escalationRequest.id,
-      ticketId: ticket?.id,
-      message: `Your conversation has been escalated to ${escalationType}. Chat transcript has been shared.`,
+      ticketId: ticket.id,
+      message: catalog.t(conversation.language, 'chat.escalated', {
+        escalationType: catalog.t(conversation.language, `escalationTypes.${escalationType}`),
+      }),
       transcript: messages.length,
     });
   })
@@ -287,6 +345,9 @@ router.get(
     if (!escalationRequest) {
       return res.status(404).json({ error: 'Escalation request not found' });
     }
+    if (!canAccessUser(req.auth, escalationRequest.userId)) {
+      return forbidden(res);
+    }
 
     return res.status(200).json(escalationRequest);
   })
@@ -305,6 +366,9 @@ router.get(
     if (!ticket) {
       return res.status(404).json({ error: 'Support ticket not found' });
     }
+    if (!canAccessUser(req.auth, ticket.userId)) {
+      return forbidden(res);
+    }
 
     return res.status(200).json(ticket);
   })
@@ -312,10 +376,11 @@ router.get(
 
 // ─────────────────────────────────────────────────
 // PUT /api/chatbot/ticket/:ticketId
-// Update support ticket status
+// Update support ticket status (agents/admins only)
 // ─────────────────────────────────────────────────
 router.put(
   '/ticket/:ticketId',
+  requireRole('agent', 'admin'),
   asyncHandler(async (req: Request, res: Response) => {
     const { ticketId } = req.params;
     const { status, resolution, assignedAgent } = req.body;
@@ -348,6 +413,10 @@ router.get(
   asyncHandler(async (req: Request, res: Response) => {
     const { userId } = req.params;
 
+    if (!canAccessUser(req.auth, userId)) {
+      return forbidden(res);
+    }
+
     const tickets = await escalationService.getOpenTickets(userId);
 
     return res.status(200).json({
@@ -370,6 +439,14 @@ router.post(
       return res.status(400).json({ error: 'Missing required parameter: conversationId' });
     }
 
+    const conversation = await conversationService.getConversation(conversationId);
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+    if (!canAccessUser(req.auth, conversation.userId)) {
+      return forbidden(res);
+    }
+
     await conversationService.closeConversation(conversationId, reason);
 
     return res.status(200).json({
@@ -379,19 +456,6 @@ router.post(
   })
 );
 
-// ─────────────────────────────────────────────────
-// GET /api/chatbot/health
-// Health check
-// ─────────────────────────────────────────────────
-router.get('/health', (_req: Request, res: Response) => {
-  res.status(200).json({
-    status: 'healthy',
-    timestamp: new Date().toISOString(),
-    service: 'RideSharePro In-App Chatbot',
-    version: '1.0.0',
-  });
-});
-
 // ─────────────────────────────────────────────────
 // POST /api/chatbot/chat
 // Dummy API for testing dynamic responses
@@ -0,0 +1,144 @@
+// ============================================================
+// RideSharePro — Rider ↔ Driver Relay API Routes
+// The driver's side of the chat the rider opens with message_driver:
+// quick-reply templates, the relayed thread, replies and read receipts
+// ============================================================
+
+import { Router, Request, Response, NextFunction } from 'express';
+import driverRelayService, {
+  DRIVER_RELAY_TEMPLATES,
+  DriverRelayError,
+  DriverRelayTemplate,
+  RelayReader,
+} from '../services/driverRelayService';
+import { conversationService } from '../services/conversationService';
+import { authenticate, requireRole } from '../middleware/auth';
+import { isLanguage } from '../nlp/language';
+import { LANGUAGES } from '../types';
+
+const router = Router();
+
+// Middleware for error handling
+const asyncHandler = (fn: Function) => (req: Request, res: Response, next: NextFunction) => {
+  Promise.resolve(fn(req, res, next)).catch(next);
+};
+
+router.use(authenticate);
+
+const MAX_MESSAGE_LENGTH = 1000;
+
+const notFound = (res: Response) => res.status(404).json({ error: 'Conversation not found' });
+
+// Another driver's conversation is forbidden; anything else the relay refuses is a conflict
+const handleRelayError = (res: Response, error: unknown) => {
+  if (error instanceof DriverRelayError) {
+    return res.status(error.reason === 'not_your_ride' ? 403 : 409).json({ error: error.message, reason: error.reason });
+  }
+  throw error;
+};
+
+// ─────────────────────────────────────────────────
+// GET /api/driver-relay/templates?language=
+// The driver's quick replies (English unless asked otherwise). The rider
+// gets a template in their own language.
+// ─────────────────────────────────────────────────
+router.get(
+  '/templates',
+  requireRole('driver', 'agent', 'admin'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const language = req.query.language === undefined ? 'en' : String(req.query.language);
+    if (!isLanguage(language)) {
+      return res.status(400).json({ error: `language must be one of: ${LANGUAGES.join(', ')}` });
+    }
+    return res.status(200).json({ templates: driverRelayService.templates(language) });
+  })
+);
+
+// ─────────────────────────────────────────────────
+// GET /api/driver-relay/conversations/:conversationId
+// The relay and its messages, for the relay's driver. The rider's
+// messages are delivered once fetched.
+// ─────────────────────────────────────────────────
+router.get(
+  '/conversations/:conversationId',
+  requireRole('driver'),
+  asyncHandler(async (req: Request, res: Response) => {
+    if (!(await conversationService.getConversation(req.params.conversationId))) {
+      return notFound(res);
+    }
+
+    try {
+      const thread = await driverRelayService.getThread(req.params.conversationId, req.auth!.userId);
+      return res.status(200).json(thread);
+    } catch (error) {
+      return handleRelayError(res, error);
+    }
+  })
+);
+
+// ─────────────────────────────────────────────────
+// POST /api/driver-relay/conversations/:conversationId/messages
+// Body: { message } or { template }
+// The driver's reply, posted into the conversation as `driver`
+// ─────────────────────────────────────────────────
+router.post(
+  '/conversations/:conversationId/messages',
+  requireRole('driver'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { template } = req.body;
+    const message = typeof req.body.message === 'string' ? req.body.message.trim() : '';
+
+    if (template !== undefined && !(DRIVER_RELAY_TEMPLATES as readonly string[]).includes(template)) {
+      return res.status(400).json({ error: `template must be one of: ${DRIVER_RELAY_TEMPLATES.join(', ')}` });
+    }
+    if (!template && (!message || message.length > MAX_MESSAGE_LENGTH)) {
+      return res.status(400).json({
+        error: `message (at most ${MAX_MESSAGE_LENGTH} characters) or template is required`,
+      });
+    }
+    if (!(await conversationService.getConversation(req.params.conversationId))) {
+      return notFound(res);
+    }
+
+    try {
+      const chatMessage = await driverRelayService.replyFromDriver(req.params.conversationId, req.auth!.userId, {
+        message: template ? undefined : message,
+        template: template as DriverRelayTemplate | undefined,
+      });
+      return res.status(201).json(chatMessage);
+    } catch (error) {
+      return handleRelayError(res, error);
+    }
+  })
+);
+
+// ─────────────────────────────────────────────────
+// POST /api/driver-relay/conversations/:conversationId/read
+// The caller has read the other side's messages: the driver the rider's,
+// the rider the driver's. Returns the messages marked.
+// ─────────────────────────────────────────────────
+router.post(
+  '/conversations/:conversationId/read',
+  requireRole('rider', 'driver'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const conversation = await conversationService.getConversation(req.params.conversationId);
+    if (!conversation) {
+      return notFound(res);
+    }
+    if (req.auth!.role === 'rider' && conversation.userId !== req.auth!.userId) {
+      return res.status(403).json({ error: 'You do not have access to this resource' });
+    }
+
+    const reader: RelayReader = req.auth!.role === 'driver'
+      ? { role: 'driver', driverId: req.auth!.userId }
+      : { role: 'rider' };
+    try {
+      const messages = await driverRelayService.markRead(conversation.id, reader);
+      return res.status(200).json({ messages, total: messages.length });
+    } catch (error) {
+      return handleRelayError(res, error);
+    }
+  })
+);
+
+export default router;
@@ -1,6 +1,8 @@
 import { Router, Request, Response } from 'express';
 import dummyService from '../services/dummyService';
 import logger from '../utils/logger';
+import config from '../config';
+import { verifyWebhook } from '../utils/webhookSignature';
 
 const router = Router();
 
@@ -60,6 +62,8 @@ router.get('/booking/:bookingId', (req: Request, res: Response) => {
         data.data = {
             ...data.data,
             bookingId: req.params.bookingId,
+            userId: 'user_456',
+            driverId: 'driver_789',
             createdAt: new Date(Date.now() - 10 * 60 * 1000).toISOString(),
         };
         logger.info('Dummy booking data requested', { bookingId: req.params.bookingId });
@@ -69,18 +73,31 @@ router.get('/booking/:bookingId', (req: Request, res: Response) => {
     }
 });
 
+// Cancellation responses by Idempotency-Key header
+const cancellationsByKey: Map<string, Record<string, any>> = new Map();
+
 /**
  * POST /api/dummy/booking/:bookingId/cancel
- * Cancel a dummy booking
+ * Cancel a dummy booking (honours the Idempotency-Key header)
  */
 router.post('/booking/:bookingId/cancel', (req: Request, res: Response) => {
     try {
         const { reason } = req.body;
+        const idempotencyKey = req.get('Idempotency-Key');
+
+        // Replays with the same key get the original response
+        const previous = idempotencyKey ? cancellationsByKey.get(idempotencyKey) : undefined;
+        if (previous) {
+            logger.info('Dummy booking cancellation replayed', { bookingId: req.params.bookingId, idempotencyKey });
+            return res.status(200).json(previous);
+        }
+
         logger.info('Dummy booking cancelled', {
             bookingId: req.params.bookingId,
             reason: reason || 'No reason given',
+            idempotencyKey,
         });
-        return res.status(200).json({
+        const body = {
             status: 'success',
             message: 'Booking cancelled successfully',
             data: {
@@ -88,10 +105,11 @@ router.post('/booking/:bookingId/cancel', (req: Request, res: Response) => {
                 status: 'cancelled',
                 reason: reason || 'User initiated',
                 cancelledAt: new Date().toISOString(),
-                refundAmount: `$${(Math.random() * 10 + 2).toFixed(2)}`,
                 refundStatus: 'processing',
             },
-        });
+        };
+        if (idempotencyKey) cancellationsByKey.set(idempotencyKey, body);
+        return res.status(200).json(body);
     } catch (error) {
         return res.status(500).json({ error: 'Failed to cancel booking' });
     }
@@ -182,9 +200,57 @@ router.post('/notification/send', (req: Request, res: Response) => {
     }
 });
 
+// What the dummy webhook receiver accepted, most recent first
+const MAX_RECEIVED_WEBHOOKS = 100;
+const receivedWebhooks: Array<{ id: string; event: string; receivedAt: string; payload: any }> = [];
+
+/**
+ * POST /api/dummy/webhooks
+ * Local webhook receiver: checks the signature with WEBHOOK_SECRET like a
+ * real receiver should. ?status=503 (any status) answers with that instead,
+ * to try out retries and dead letters
+ */
+router.post('/webhooks', (req: Request, res: Response) => {
+    const status = req.query.status ? parseInt(String(req.query.status), 10) : 200;
+    const rawBody = req.rawBody ? req.rawBody.toString('utf8') : '';
+    const valid = verifyWebhook(
+        config.webhookSecret,
+        parseInt(String(req.header('X-Webhook-Timestamp')), 10),
+        rawBody,
+        String(req.header('X-Webhook-Signature') || '')
+    );
+
+    if (!valid) {
+        logger.warn('Dummy webhook rejected: bad signature', { id: req.header('X-Webhook-Id') });
+        return res.status(401).json({ error: 'Invalid signature' });
+    }
+    if (status !== 200) {
+        logger.info('Dummy webhook failed on request', { id: req.header('X-Webhook-Id'), status });
+        return res.status(status).json({ error: 'Failing as asked' });
+    }
+
+    receivedWebhooks.unshift({
+        id: String(req.header('X-Webhook-Id')),
+        event: String(req.header('X-Webhook-Event')),
+        receivedAt: new Date().toISOString(),
+        payload: req.body,
+    });
+    receivedWebhooks.splice(MAX_RECEIVED_WEBHOOKS);
+    logger.info('Dummy webhook received', { id: req.header('X-Webhook-Id'), event: req.header('X-Webhook-Event') });
+    return res.status(200).json({ received: true });
+});
+
+/**
+ * GET /api/dummy/webhooks
+ * Webhooks the dummy receiver accepted, most recent first
+ */
+router.get('/webhooks', (_req: Request, res: Response) => {
+    return res.status(200).json({ webhooks: receivedWebhooks, total: receivedWebhooks.length });
+});
+
 /**
  * GET /api/dummy/realtime/driver-location
- * SSE endpoint for real-time driver location updates
+ * SSE endpoint for real-time driver location updates (?driverId= names the driver)
  */
 router.get('/realtime/driver-location', (req: Request, res: Response) => {
     res.setHeader('Content-Type', 'text/event-stream');
@@ -198,7 +264,7 @@ router.get('/realtime/driver-location', (req: Request, res: Response) => {
     const interval = setInterval(() => {
         counter++;
         const locationData = {
-            driverId: 'driver_789',
+            driverId: req.query.driverId || 'driver_789',
             latitude: (40.7128 + (Math.random() - 0.5) * 0.01).toFixed(6),
             longitude: (-74.006 + (Math.random() - 0.5) * 0.01).toFixed(6),
             heading: Math.floor(Math.random() * 360),
@@ -319,6 +385,8 @@ router.get('/health', (_req: Request, res: Response) => {
             'GET /api/dummy/payment/booking/:bookingId',
             'GET /api/dummy/user',
             'POST /api/dummy/notification/send',
+            'POST /api/dummy/webhooks',
+            'GET /api/dummy/webhooks',
             'GET /api/dummy/realtime/driver-location (SSE)',
             'GET /api/dummy/realtime/ride-updates (SSE)',
             'GET /api/dummy/all',
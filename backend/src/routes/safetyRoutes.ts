@@ -0,0 +1,184 @@
+// ============================================================
+// RideSharePro — Safety Incident API Routes
+// Trust & safety staff work through the safety events the bot
+// detected: list, inspect (transcript, booking, timeline),
+// acknowledge, assign, annotate and resolve
+// ============================================================
+
+import { Router, Request, Response, NextFunction } from 'express';
+import safetyIncidentService, { SafetyIncidentStateError } from '../services/safetyIncidentService';
+import { SAFETY_OUTCOMES, SAFETY_SEVERITIES, SafetyEvent, SafetyEventStatus, SafetyOutcome } from '../types';
+import { authenticate, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// Middleware for error handling
+const asyncHandler = (fn: Function) => (req: Request, res: Response, next: NextFunction) => {
+  Promise.resolve(fn(req, res, next)).catch(next);
+};
+
+router.use(authenticate, requireRole('agent', 'admin'));
+
+const EVENT_STATUSES: SafetyEventStatus[] = ['detected', 'escalated', 'acknowledged', 'resolved'];
+const OPEN_STATUSES: SafetyEventStatus[] = ['detected', 'escalated', 'acknowledged'];
+
+// "high,critical" → ['high', 'critical']; null if any value is not allowed
+const listParam = <T extends string>(value: unknown, allowed: readonly T[]): T[] | null => {
+  const values = String(value).split(',').map((item) => item.trim());
+  return values.every((item) => (allowed as readonly string[]).includes(item)) ? (values as T[]) : null;
+};
+
+const optionalNote = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const notFound = (res: Response) => res.status(404).json({ error: 'Safety event not found' });
+
+// A resolved event can only take notes
+const handleStateError = (res: Response, error: unknown) => {
+  if (error instanceof SafetyIncidentStateError) {
+    return res.status(409).json({ error: error.message });
+  }
+  throw error;
+};
+
+// ─────────────────────────────────────────────────
+// GET /api/safety/events?status=&severity=&assignedTo=&limit=
+// Open events (not resolved) unless `status` says otherwise, most severe
+// first, then most recent. status and severity take comma-separated lists.
+// ─────────────────────────────────────────────────
+router.get(
+  '/events',
+  asyncHandler(async (req: Request, res: Response) => {
+    const statuses = req.query.status === undefined ? OPEN_STATUSES : listParam(req.query.status, EVENT_STATUSES);
+    if (!statuses) {
+      return res.status(400).json({ error: `status must be one of: ${EVENT_STATUSES.join(', ')}` });
+    }
+    const severities =
+      req.query.severity === undefined
+        ? undefined
+        : listParam<SafetyEvent['severity']>(req.query.severity, SAFETY_SEVERITIES);
+    if (severities === null) {
+      return res.status(400).json({ error: `severity must be one of: ${SAFETY_SEVERITIES.join(', ')}` });
+    }
+    const limit = req.query.limit === undefined ? undefined : parseInt(String(req.query.limit), 10);
+    if (limit !== undefined && !(limit > 0)) {
+      return res.status(400).json({ error: 'limit must be a positive number' });
+    }
+
+    const events = await safetyIncidentService.listEvents({
+      statuses,
+      severities,
+      assignedTo: req.query.assignedTo ? String(req.query.assignedTo) : undefined,
+      limit,
+    });
+    return res.status(200).json({ events, total: events.length });
+  })
+);
+
+// ─────────────────────────────────────────────────
+// GET /api/safety/events/:eventId
+// The event, its audit timeline, the conversation transcript and the booking
+// ─────────────────────────────────────────────────
+router.get(
+  '/events/:eventId',
+  asyncHandler(async (req: Request, res: Response) => {
+    const incident = await safetyIncidentService.getIncident(req.params.eventId);
+    if (!incident) {
+      return notFound(res);
+    }
+    return res.status(200).json(incident);
+  })
+);
+
+// ─────────────────────────────────────────────────
+// POST /api/safety/events/:eventId/acknowledge
+// Body: { note? }
+// The caller takes the event on (and is assigned it unless someone already is)
+// ─────────────────────────────────────────────────
+router.post(
+  '/events/:eventId/acknowledge',
+  asyncHandler(async (req: Request, res: Response) => {
+    try {
+      const event = await safetyIncidentService.acknowledge(
+        req.params.eventId,
+        req.auth!.userId,
+        optionalNote(req.body.note)
+      );
+      return event ? res.status(200).json(event) : notFound(res);
+    } catch (error) {
+      return handleStateError(res, error);
+    }
+  })
+);
+
+// ─────────────────────────────────────────────────
+// POST /api/safety/events/:eventId/assign
+// Body: { assignee, note? }
+// ─────────────────────────────────────────────────
+router.post(
+  '/events/:eventId/assign',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { assignee } = req.body;
+    if (typeof assignee !== 'string' || !assignee.trim()) {
+      return res.status(400).json({ error: 'Missing required parameter: assignee' });
+    }
+
+    try {
+      const event = await safetyIncidentService.assign(
+        req.params.eventId,
+        assignee.trim(),
+        req.auth!.userId,
+        optionalNote(req.body.note)
+      );
+      return event ? res.status(200).json(event) : notFound(res);
+    } catch (error) {
+      return handleStateError(res, error);
+    }
+  })
+);
+
+// ─────────────────────────────────────────────────
+// POST /api/safety/events/:eventId/notes
+// Body: { note }
+// Returns the timeline entry
+// ─────────────────────────────────────────────────
+router.post(
+  '/events/:eventId/notes',
+  asyncHandler(async (req: Request, res: Response) => {
+    const note = optionalNote(req.body.note);
+    if (!note) {
+      return res.status(400).json({ error: 'Missing required parameter: note' });
+    }
+
+    const entry = await safetyIncidentService.addNote(req.params.eventId, req.auth!.userId, note);
+    return entry ? res.status(201).json(entry) : notFound(res);
+  })
+);
+
+// ─────────────────────────────────────────────────
+// POST /api/safety/events/:eventId/resolve
+// Body: { outcome, note? }
+// ─────────────────────────────────────────────────
+router.post(
+  '/events/:eventId/resolve',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { outcome } = req.body;
+    if (!SAFETY_OUTCOMES.includes(outcome)) {
+      return res.status(400).json({ error: `outcome must be one of: ${SAFETY_OUTCOMES.join(', ')}` });
+    }
+
+    try {
+      const event = await safetyIncidentService.resolve(
+        req.params.eventId,
+        outcome as SafetyOutcome,
+        req.auth!.userId,
+        optionalNote(req.body.note)
+      );
+      return event ? res.status(200).json(event) : notFound(res);
+    } catch (error) {
+      return handleStateError(res, error);
+    }
+  })
+);
+
+export default router;
@@ -0,0 +1,175 @@
+// ============================================================
+// RideSharePro — Trip Sharing API Routes
+// Riders manage trusted contacts and share a trip live with them;
+// contacts open the link without an account
+// ============================================================
+
+import { Router, Request, Response, NextFunction } from 'express';
+import tripShareService, { TripShareError, TrustedContactLimitError } from '../services/tripShareService';
+import { conversationService } from '../services/conversationService';
+import { authenticate, requireRole } from '../middleware/auth';
+import { TripShare } from '../types';
+
+const router = Router();
+
+// Middleware for error handling
+const asyncHandler = (fn: Function) => (req: Request, res: Response, next: NextFunction) => {
+  Promise.resolve(fn(req, res, next)).catch(next);
+};
+
+const PHONE_PATTERN = /^\+?[0-9][0-9 ()-]{5,19}$/;
+const MAX_NAME_LENGTH = 80;
+
+// The token hash stays server-side
+const shareView = ({ tokenHash, ...share }: TripShare) => share;
+
+// ─────────────────────────────────────────────────
+// GET /api/trip-share/live/:token
+// Live status behind a share link (public: the token is the credential).
+// 410 once the link has expired, the trip ended or the rider revoked it.
+// ─────────────────────────────────────────────────
+router.get(
+  '/live/:token',
+  asyncHandler(async (req: Request, res: Response) => {
+    const result = await tripShareService.getSharedStatus(req.params.token);
+    if (!result) {
+      return res.status(404).json({ error: 'Trip link not found' });
+    }
+    if (!result.status) {
+      return res.status(410).json({ error: 'This trip link is no longer active', reason: result.share.status });
+    }
+    return res.status(200).json(result.status);
+  })
+);
+
+// Everything else acts for the rider in the token
+router.use(authenticate, requireRole('rider', 'agent', 'admin'));
+
+// ─────────────────────────────────────────────────
+// GET /api/trip-share/contacts
+// ─────────────────────────────────────────────────
+router.get(
+  '/contacts',
+  asyncHandler(async (req: Request, res: Response) => {
+    const contacts = await tripShareService.listContacts(req.auth!.userId);
+    res.status(200).json({ contacts, total: contacts.length });
+  })
+);
+
+// ─────────────────────────────────────────────────
+// POST /api/trip-share/contacts
+// Body: { name, phone }
+// ─────────────────────────────────────────────────
+router.post(
+  '/contacts',
+  asyncHandler(async (req: Request, res: Response) => {
+    const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+    const phone = typeof req.body.phone === 'string' ? req.body.phone.trim() : '';
+
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      return res.status(400).json({ error: `name is required (at most ${MAX_NAME_LENGTH} characters)` });
+    }
+    if (!PHONE_PATTERN.test(phone)) {
+      return res.status(400).json({ error: 'phone must be a phone number, e.g. +15551234567' });
+    }
+
+    try {
+      const contact = await tripShareService.addContact(req.auth!.userId, name, phone);
+      return res.status(201).json(contact);
+    } catch (error) {
+      if (error instanceof TrustedContactLimitError) {
+        return res.status(409).json({ error: error.message });
+      }
+      throw error;
+    }
+  })
+);
+
+// ─────────────────────────────────────────────────
+// DELETE /api/trip-share/contacts/:contactId
+// ─────────────────────────────────────────────────
+router.delete(
+  '/contacts/:contactId',
+  asyncHandler(async (req: Request, res: Response) => {
+    const removed = await tripShareService.removeContact(req.auth!.userId, req.params.contactId);
+    if (!removed) {
+      return res.status(404).json({ error: 'Trusted contact not found' });
+    }
+    return res.status(204).send();
+  })
+);
+
+// ─────────────────────────────────────────────────
+// GET /api/trip-share/shares
+// The rider's active share links
+// ─────────────────────────────────────────────────
+router.get(
+  '/shares',
+  asyncHandler(async (req: Request, res: Response) => {
+    const shares = (await tripShareService.listShares(req.auth!.userId)).map(shareView);
+    res.status(200).json({ shares, total: shares.length });
+  })
+);
+
+// ─────────────────────────────────────────────────
+// POST /api/trip-share/shares
+// Body: { conversationId, contactIds? }
+// Shares the conversation's booking with the rider's trusted contacts
+// (all of them unless contactIds names some). The link is only returned here.
+// ─────────────────────────────────────────────────
+router.post(
+  '/shares',
+  asyncHandler(async (req: Request, res: Response) => {
+    const { conversationId, contactIds } = req.body;
+
+    if (!conversationId) {
+      return res.status(400).json({ error: 'Missing required parameter: conversationId' });
+    }
+    if (contactIds !== undefined && !(Array.isArray(contactIds) && contactIds.length)) {
+      return res.status(400).json({ error: 'contactIds must be a non-empty list' });
+    }
+
+    const conversation = await conversationService.getConversation(conversationId);
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+    // Only the rider shares their own trip
+    if (conversation.userId !== req.auth!.userId) {
+      return res.status(403).json({ error: 'You do not have access to this resource' });
+    }
+
+    try {
+      const { share, url } = await tripShareService.shareTrip({
+        userId: conversation.userId,
+        bookingId: conversation.bookingId,
+        conversationId,
+        driverId: conversation.driverId,
+        contactIds,
+        language: conversation.language,
+      });
+      return res.status(201).json({ share: shareView(share), url });
+    } catch (error) {
+      if (error instanceof TripShareError) {
+        return res.status(409).json({ error: error.message, reason: error.reason });
+      }
+      throw error;
+    }
+  })
+);
+
+// ─────────────────────────────────────────────────
+// DELETE /api/trip-share/shares/:shareId
+// Stop sharing: the link stops working at once
+// ─────────────────────────────────────────────────
+router.delete(
+  '/shares/:shareId',
+  asyncHandler(async (req: Request, res: Response) => {
+    const share = await tripShareService.revoke(req.auth!.userId, req.params.shareId);
+    if (!share) {
+      return res.status(404).json({ error: 'Trip share not found' });
+    }
+    return res.status(200).json(shareView(share));
+  })
+);
+
+export default router;
@@ -0,0 +1,41 @@
+import config from '../config';
+import logger from '../utils/logger';
+import intentDetector from '../nlp/intentDetector';
+import { isLanguage } from '../nlp/language';
+import { evaluateIntents, formatReport, loadLabelledSet } from '../nlp/evaluation';
+import { LANGUAGES } from '../types';
+
+// Usage: npm run eval:nlp -- [labelled-set.json] [language]
+// Scores a language's intent classifier (default en) against a held-out
+// labelled set (default NLP_EVAL_FILE, data/nlp/eval.json) at NLP_CONFIDENCE_THRESHOLD.
+// Exits 1 below NLP_MIN_EVAL_ACCURACY, the score a retrained model needs to go live.
+const file = process.argv[2] || config.nlpEvalFile;
+const language = process.argv[3] || 'en';
+
+async function main(): Promise<void> {
+  if (!config.enableNlp) {
+    console.error('ENABLE_NLP is not "true"; every utterance would be unknown.');
+    process.exit(1);
+  }
+  if (!isLanguage(language)) {
+    console.error(`language must be one of: ${LANGUAGES.join(', ')}`);
+    process.exit(1);
+  }
+
+  // One "Intent detected" line per utterance would bury the report
+  logger.silent = true;
+  const report = await evaluateIntents(loadLabelledSet(file), (text) => intentDetector.detectIntent(text, language));
+  console.log(`Labelled set: ${file} (${language})`);
+  console.log(`Confidence threshold: ${config.nlpConfidenceThreshold}\n`);
+  console.log(formatReport(report));
+
+  if (report.accuracy < config.nlpMinEvalAccuracy) {
+    console.error(`\nAccuracy ${(report.accuracy * 100).toFixed(1)}% is below NLP_MIN_EVAL_ACCURACY (${config.nlpMinEvalAccuracy * 100}%)`);
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,77 @@
+import fs from 'fs';
+import path from 'path';
+import logger from '../utils/logger';
+import safetyDetectionService from '../services/safetyDetection';
+import { isLanguage } from '../nlp/language';
+import { Language } from '../types';
+
+// Usage: npm run eval:safety -- [regression-set.json]
+// Runs safety detection over benign and real safety messages
+// (default data/safety/regression.json) and lists every message that was
+// flagged as a concern (medium or above) when it should not have been, was
+// not when it should, or came out at a different severity. Exits 1 if any did.
+const file = process.argv[2] || path.resolve(__dirname, '../../data/safety/regression.json');
+
+interface SafetyExample {
+  text: string;
+  language?: Language;
+  concern: boolean;
+  severity?: 'low' | 'medium' | 'high' | 'critical';
+}
+
+function loadExamples(filePath: string): SafetyExample[] {
+  const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  const examples = Array.isArray(parsed) ? parsed : parsed.examples;
+
+  if (
+    !Array.isArray(examples) ||
+    examples.some((e) =>
+      typeof e?.text !== 'string' ||
+      typeof e?.concern !== 'boolean' ||
+      (e.language !== undefined && !isLanguage(e.language)))
+  ) {
+    throw new Error(`${filePath}: expected "examples" as [{ "text", "concern", "language"?, "severity"? }]`);
+  }
+  return examples;
+}
+
+function main(): void {
+  // One "Safety event detected" line per message would bury the report
+  logger.silent = true;
+  const examples = loadExamples(file);
+
+  const falsePositives: string[] = [];
+  const missed: string[] = [];
+  const wrongSeverity: string[] = [];
+  for (const example of examples) {
+    const assessment = safetyDetectionService.assess(example.text, example.language);
+    const severity = assessment?.severity || 'none';
+    const flagged = !!assessment && severity !== 'low';
+    const line = `"${example.text}": ${severity} [${assessment?.keywords.join(', ') || ''}]`;
+
+    if (flagged && !example.concern) falsePositives.push(line);
+    else if (!flagged && example.concern) missed.push(line);
+    else if (example.severity && example.severity !== severity) wrongSeverity.push(`${line}, expected ${example.severity}`);
+  }
+
+  const benign = examples.filter((example) => !example.concern).length;
+  console.log(`Regression set: ${file}`);
+  console.log(`Messages: ${examples.length} (${benign} benign, ${examples.length - benign} safety)`);
+  console.log(`False positives: ${falsePositives.length}   Missed: ${missed.length}   Wrong severity: ${wrongSeverity.length}`);
+  for (const [title, lines] of [
+    ['False positives (flagged, should not be)', falsePositives],
+    ['Missed (should be flagged)', missed],
+    ['Wrong severity', wrongSeverity],
+  ] as const) {
+    if (lines.length) console.log(`\n${title}\n${lines.map((line) => `  ${line}`).join('\n')}`);
+  }
+
+  if (falsePositives.length || missed.length || wrongSeverity.length) process.exit(1);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
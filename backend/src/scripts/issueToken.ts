@@ -0,0 +1,13 @@
+import { signToken } from '../middleware/auth';
+import { UserRole } from '../types';
+
+// Usage: npm run token -- <userId> [rider|agent|admin|driver] [expiresIn]
+// Prints a token signed with JWT_SECRET for local testing.
+const [userId, role = 'rider', expiresIn = '1h'] = process.argv.slice(2);
+
+if (!userId) {
+  console.error('Usage: npm run token -- <userId> [rider|agent|admin|driver] [expiresIn]');
+  process.exit(1);
+}
+
+console.log(signToken(userId, role as UserRole, expiresIn));
@@ -0,0 +1,186 @@
+import { ChatMessage, Conversation, EscalationRequest, SupportTicket } from '../types';
+import logger from '../utils/logger';
+import catalog from '../i18n/catalog';
+import { conversationService, escalationService } from './conversationService';
+
+// What the queue shows unless asked otherwise
+const QUEUE_STATUSES: SupportTicket['status'][] = ['open', 'in_progress'];
+
+/**
+ * Raised when a ticket can't take the requested step: claiming a ticket
+ * another agent holds or one already resolved, replying to a ticket the
+ * agent hasn't claimed...
+ */
+export class AgentConsoleStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AgentConsoleStateError';
+  }
+}
+
+export interface AgentTicketView {
+  ticket: SupportTicket;
+  // With the transcript shared at escalation time (context.chatTranscript)
+  escalation: EscalationRequest | null;
+  conversation: Pick<
+    Conversation,
+    'id' | 'bookingId' | 'userId' | 'driverId' | 'status' | 'language' | 'supportAgentId' | 'escalationType'
+  > | null;
+  // The whole conversation as it stands, agent replies included
+  messages: ChatMessage[];
+}
+
+/**
+ * Support agents working escalations: the ticket queue, claiming a ticket
+ * (which takes the conversation over from the bot), replying to the rider
+ * as `support_agent`, and handing the conversation back to the bot or
+ * resolving it. ChatbotService stays silent while an agent holds the
+ * conversation (Conversation.supportAgentId).
+ */
+class AgentConsoleService {
+  // Most urgent first, then oldest
+  async listQueue(filter: {
+    statuses?: SupportTicket['status'][];
+    assignedAgent?: string;
+    limit?: number;
+  } = {}): Promise<SupportTicket[]> {
+    const tickets = await escalationService.findTickets({
+      statuses: filter.statuses || QUEUE_STATUSES,
+      assignedAgent: filter.assignedAgent,
+    });
+    return filter.limit && filter.limit > 0 ? tickets.slice(0, filter.limit) : tickets;
+  }
+
+  async getTicket(ticketId: string): Promise<AgentTicketView | null> {
+    const ticket = await escalationService.getSupportTicket(ticketId);
+    if (!ticket) return null;
+
+    const escalation = await escalationService.getEscalationRequest(ticket.escalationRequestId);
+    const conversation = await conversationService.getConversation(ticket.conversationId);
+
+    return {
+      ticket,
+      escalation,
+      conversation: conversation && {
+        id: conversation.id,
+        bookingId: conversation.bookingId,
+        userId: conversation.userId,
+        driverId: conversation.driverId,
+        status: conversation.status,
+        language: conversation.language,
+        supportAgentId: conversation.supportAgentId,
+        escalationType: conversation.escalationType,
+      },
+      messages: conversation ? conversation.messages : [],
+    };
+  }
+
+  // ────────────────────────────────────────────
+  // Handling. Each returns null if the ticket doesn't exist and throws
+  // AgentConsoleStateError when the ticket's state doesn't allow the step.
+  // ────────────────────────────────────────────
+
+  // Claiming a ticket the agent already holds is a no-op
+  async claim(ticketId: string, agentId: string): Promise<SupportTicket | null> {
+    const ticket = await escalationService.getSupportTicket(ticketId);
+    if (!ticket) return null;
+    this.assertOpen(ticket);
+    if (ticket.status === 'in_progress' && ticket.assignedAgent === agentId) return ticket;
+    if (ticket.status === 'in_progress' && ticket.assignedAgent) {
+      throw new AgentConsoleStateError(`Ticket ${ticketId} is already claimed by ${ticket.assignedAgent}`);
+    }
+
+    // The checks above read a moment ago; the claim itself only succeeds if no one else got in between
+    const claimed = await escalationService.claimTicket(ticketId, agentId);
+    if (!claimed) {
+      const current = await escalationService.getSupportTicket(ticketId);
+      throw new AgentConsoleStateError(
+        current?.assignedAgent
+          ? `Ticket ${ticketId} is already claimed by ${current.assignedAgent}`
+          : `Ticket ${ticketId} is already ${current?.status}`
+      );
+    }
+    const conversation = await conversationService.setSupportAgent(ticket.conversationId, agentId, 'escalated');
+    await conversationService.addMessage(
+      ticket.conversationId,
+      'bot',
+      catalog.t(conversation.language, 'chat.agentJoined'),
+      { type: 'agent_joined', agentId, ticketId }
+    );
+
+    logger.info('Ticket claimed', { ticketId, agentId, conversationId: ticket.conversationId });
+    return claimed;
+  }
+
+  async reply(ticketId: string, agentId: string, message: string): Promise<ChatMessage | null> {
+    const ticket = await escalationService.getSupportTicket(ticketId);
+    if (!ticket) return null;
+    this.assertHeldBy(ticket, agentId);
+
+    const chatMessage = await conversationService.addMessage(ticket.conversationId, 'support_agent', message, {
+      agentId,
+      ticketId,
+    });
+    logger.info('Agent replied', { ticketId, agentId, conversationId: ticket.conversationId });
+    return chatMessage;
+  }
+
+  // The bot takes the conversation back; the ticket is done
+  async handBack(ticketId: string, agentId: string, note?: string): Promise<SupportTicket | null> {
+    const ticket = await escalationService.getSupportTicket(ticketId);
+    if (!ticket) return null;
+    this.assertHeldBy(ticket, agentId);
+
+    return this.finish(ticket, agentId, note || 'Handed back to the bot', 'active', 'chat.agentHandedBack');
+  }
+
+  // An unclaimed ticket can be resolved too (e.g. a duplicate); the conversation ends resolved
+  async resolve(ticketId: string, agentId: string, resolution: string): Promise<SupportTicket | null> {
+    const ticket = await escalationService.getSupportTicket(ticketId);
+    if (!ticket) return null;
+    this.assertOpen(ticket);
+    if (ticket.status === 'in_progress' && ticket.assignedAgent && ticket.assignedAgent !== agentId) {
+      throw new AgentConsoleStateError(`Ticket ${ticketId} is claimed by ${ticket.assignedAgent}`);
+    }
+
+    return this.finish(ticket, agentId, resolution, 'resolved', 'chat.agentResolved');
+  }
+
+  private async finish(
+    ticket: SupportTicket,
+    agentId: string,
+    resolution: string,
+    conversationStatus: Conversation['status'],
+    messageKey: string
+  ): Promise<SupportTicket | null> {
+    const resolved = await escalationService.updateTicketStatus(ticket.id, 'resolved', resolution, agentId);
+    const conversation = await conversationService.setSupportAgent(
+      ticket.conversationId,
+      undefined,
+      conversationStatus
+    );
+    await conversationService.addMessage(ticket.conversationId, 'bot', catalog.t(conversation.language, messageKey), {
+      type: conversationStatus === 'active' ? 'agent_handed_back' : 'agent_resolved',
+      agentId,
+      ticketId: ticket.id,
+    });
+
+    logger.info('Ticket finished', { ticketId: ticket.id, agentId, conversationStatus });
+    return resolved;
+  }
+
+  private assertOpen(ticket: SupportTicket): void {
+    if (!QUEUE_STATUSES.includes(ticket.status)) {
+      throw new AgentConsoleStateError(`Ticket ${ticket.id} is already ${ticket.status}`);
+    }
+  }
+
+  private assertHeldBy(ticket: SupportTicket, agentId: string): void {
+    this.assertOpen(ticket);
+    if (ticket.status !== 'in_progress' || ticket.assignedAgent !== agentId) {
+      throw new AgentConsoleStateError(`Claim ticket ${ticket.id} before acting on its conversation`);
+    }
+  }
+}
+
+export default new AgentConsoleService();
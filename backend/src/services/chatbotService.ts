@@ -4,14 +4,49 @@
 // Handles: greeting, message processing, context, escalation
 // ============================================================
 
-import { ChatbotRequest, ChatbotResponse } from '../types';
+import {
+  ChatbotRequest,
+  ChatbotResponse,
+  CancellationPolicyDecision,
+  DelayPolicyDecision,
+  DialogState,
+  Driver,
+  FLOW_PRIORITIES,
+  IntentResult,
+  Language,
+  PendingConfirmation,
+  QUICK_ACTIONS,
+  QuickAction,
+  SafetyEvent,
+  SupportTicket,
+} from '../types';
+import config from '../config';
 import logger from '../utils/logger';
 import intentDetector from '../nlp/intentDetector';
+import { detectLanguage } from '../nlp/language';
+import catalog from '../i18n/catalog';
 import decisionTreeEngine from '../decisionTree/engine';
 import safetyDetectionService from './safetyDetection';
+import safetyIncidentService from './safetyIncidentService';
+import policyService from './policyService';
+import reviewQueueService from './reviewQueueService';
+import driverRelayService from './driverRelayService';
 import { conversationService, escalationService } from './conversationService';
 import apiClient from '../utils/apiClient';
 
+const CLOSING_INTENTS = ['gratitude', 'ok_thanks'];
+
+// Asked of the bot, not the driver, even while the rider is chatting with them
+const BOT_DIRECTED_INTENTS = ['talk_to_agent', 'cancel_booking', 'end_driver_chat'];
+
+// One intent's flow result and the message it produced
+interface FlowAnswer {
+  intent: string;
+  flowResult: any;
+  message: string;
+  context: Record<string, any>;
+}
+
 class ChatbotService {
 
   // ────────────────────────────────────────────
@@ -22,7 +57,8 @@ class ChatbotService {
   async getGreeting(
     _conversationId: string,
     bookingId: string,
-    userId: string
+    userId: string,
+    language: Language = 'en'
   ): Promise<{
     message: string;
     bookingContext: Record<string, any>;
@@ -32,21 +68,23 @@ class ChatbotService {
       const driver = booking.driverId ? await apiClient.getDriver(booking.driverId) : null;
       const user = await apiClient.getUserProfile(userId);
 
-      const userName = user?.name || 'there';
-      const driverName = driver?.name || 'your driver';
-      const eta = driver?.eta || 'a few';
-      const vehicle = driver?.vehicleInfo || 'their vehicle';
+      const userName = user?.name || catalog.t(language, 'greeting.defaultUserName');
+      const driverName = driver?.name || catalog.t(language, 'greeting.defaultDriverName');
+      const eta = driver?.eta || catalog.t(language, 'greeting.defaultEta');
+      const vehicle = driver?.vehicleInfo || catalog.t(language, 'greeting.defaultVehicle');
       const plate = driver?.licensePlate || '';
       const rideStatus = booking.status || 'confirmed';
 
       // BRD greeting format: "Hi {{UserName}} 👋 I'm here to help you with your current ride."
-      const greeting = `Hi ${userName} 👋 I'm here to help you with your current ride.\n\n` +
-        `🚗 **Ride Status:** ${this.formatStatus(rideStatus)}\n` +
-        `👤 **Driver:** ${driverName}\n` +
-        `🚙 **Vehicle:** ${vehicle}${plate ? ` (${plate})` : ''}\n` +
-        `⏱️ **ETA:** ${eta} minutes\n` +
-        `📍 ${booking.pickupLocation || '123 Main St'} → ${booking.dropoffLocation || '456 Oak Ave'}\n\n` +
-        `How can I assist you?`;
+      const greeting = catalog.t(language, 'greeting.message', {
+        userName,
+        status: this.formatStatus(rideStatus, language),
+        driverName,
+        vehicle: `${vehicle}${plate ? ` (${plate})` : ''}`,
+        eta,
+        pickup: booking.pickupLocation || '123 Main St',
+        dropoff: booking.dropoffLocation || '456 Oak Ave',
+      });
 
       const bookingContext = {
         bookingId,
@@ -69,7 +107,7 @@ class ChatbotService {
     } catch (error) {
       logger.error('Error generating greeting', { error });
       return {
-        message: `Hi there 👋 I'm here to help you with your current ride. How can I assist you?`,
+        message: catalog.t(language, 'greeting.fallback'),
         bookingContext: {
           bookingId,
           status: 'confirmed',
@@ -114,6 +152,7 @@ class ChatbotService {
           'contact_driver',
           'cannot_contact_driver',
           'safety_concern',
+          'share_trip',
           'payment_query',
           'talk_to_agent',
         ];
@@ -152,6 +191,18 @@ class ChatbotService {
     }
   }
 
+  // Unrecognized message: the classifier's closest guesses first, then the
+  // usual menu, always ending with a way to a human
+  private getClarifyingActions(intentResult: IntentResult): QuickAction[] {
+    const guesses = (intentResult.candidates || [])
+      .map((candidate) => candidate.intent)
+      .filter((intent): intent is QuickAction =>
+        (QUICK_ACTIONS as readonly string[]).includes(intent) && intent !== 'talk_to_agent');
+    const fallback: QuickAction[] = ['where_is_driver', 'contact_driver', 'payment_query'];
+
+    return [...new Set([...guesses, ...fallback])].slice(0, 3).concat('talk_to_agent');
+  }
+
   // ────────────────────────────────────────────
   // Core: Process user message (BRD §5.3, §5.4)
   // NLP detection → Decision tree → API data enrichment
@@ -165,108 +216,185 @@ class ChatbotService {
       // Cancel any pending session completion timer (user is active again)
       this.cancelSessionTimer(conversationId);
 
+      const conversation = await conversationService.getConversation(conversationId);
+      if (!conversation) {
+        throw new Error(`Conversation ${conversationId} not found`);
+      }
+
+      // The rider may switch language mid-chat; quick-action taps are sent
+      // in the conversation's language already
+      const language: Language = request.context?.action
+        ? conversation.language
+        : detectLanguage(userInput, conversation.language);
+      if (language !== conversation.language) {
+        await conversationService.updateLanguage(conversationId, language);
+      }
+
+      // Each lookup is independent so one failing dependency doesn't hide the others.
+      // Open circuits fail fast here; the flows then serve degraded answers.
+      const bookingDetails = await apiClient.getBooking(bookingId).catch((error) => {
+        logger.warn('Could not fetch booking context', { bookingId, error: error?.message });
+        return undefined;
+      });
+      // Only the booking says who drives; the client's driverId is never trusted
+      const driverId = bookingDetails?.driverId;
+
       // ── 1. Safety check first (BRD §Epic 6) ──
       const safetyEvent = safetyDetectionService.detectSafetyConcerns(
         userInput,
         conversationId,
         userId,
-        request.context?.driverId
+        driverId,
+        language
       );
+      if (safetyEvent) {
+        await safetyIncidentService.recordDetected(safetyEvent);
+      }
+
+      // A support agent has taken the conversation over: they answer, not the bot
+      if (conversation.supportAgentId) {
+        return await this.handleAgentOwned(request, safetyEvent, startTime, language);
+      }
 
       if (safetyEvent && safetyDetectionService.isEscalationRequired(safetyEvent)) {
         return await this.handleSafetyEscalation(
-          safetyEvent, conversationId, bookingId, userId, userInput, startTime
+          safetyEvent, conversationId, bookingId, userId, userInput, startTime, language
         );
       }
 
+      // The rider is chatting with their driver: what they type goes to the driver.
+      // Quick-action taps, answers to the bot's own yes/no question and requests
+      // for the bot (an agent, cancelling, ending the chat) still come here
+      let detected: IntentResult[] | undefined;
+      if (conversation.driverRelay?.status === 'open' && !request.context?.action) {
+        const pendingQuestion = this.getPendingConfirmation(conversation.dialogState || { slots: {} });
+        if (!pendingQuestion || !intentDetector.resolveConfirmation(userInput, language)) {
+          detected = this.byPriority(await intentDetector.detectIntents(userInput, language));
+          if (!detected.some((result) => BOT_DIRECTED_INTENTS.includes(result.intent))) {
+            const relayed = await this.handleRelayed(request, safetyEvent, startTime, language);
+            if (relayed) return relayed;
+          }
+        }
+      }
+
       // ── 2. Add user message to conversation ──
-      await conversationService.addMessage(conversationId, 'user', userInput);
+      // Quick-action taps are marked so the review queue doesn't mistake them for typed text;
+      // a safety concern too mild to escalate on its own is tagged for the agent who reads the transcript
+      const messageMetadata = {
+        ...(request.context?.action ? { quickAction: request.context.action } : {}),
+        ...(safetyEvent ? { safetySeverity: safetyEvent.severity, safetyKeywords: safetyEvent.keywords } : {}),
+      };
+      await conversationService.addMessage(
+        conversationId,
+        'user',
+        userInput,
+        Object.keys(messageMetadata).length ? messageMetadata : undefined
+      );
 
-      // ── 3. Detect intent (BRD §Epic 4: NLP, <2s response) ──
-      const intentResult = await intentDetector.detectIntent(userInput);
+      // ── 3. Answer to a pending question, else detect intent (BRD §Epic 4: NLP, <2s response) ──
+      // "yes" / "no, keep it" resume the flow that asked instead of going through NLP
+      const dialogState: DialogState = conversation.dialogState || { slots: {} };
+      const pending = this.getPendingConfirmation(dialogState);
+      const confirmation = pending ? intentDetector.resolveConfirmation(userInput, language) : null;
+
+      // A tap on a quick action with a flow but no intent in the classifier (share_trip) runs that flow as is
+      const action: string | undefined = request.context?.action;
+      const actionFlow = action && decisionTreeEngine.hasFlow(action) &&
+        !intentDetector.getIntents(language).includes(action) ? action : undefined;
+
+      // A compound message ("my driver is late and what's the fare") gets one flow per intent
+      const intentResults: IntentResult[] = pending && confirmation
+        ? [{ intent: pending.flow, confidence: 1, language }]
+        : actionFlow
+          ? [{ intent: actionFlow, confidence: 1, language }]
+          : detected || this.byPriority(await intentDetector.detectIntents(userInput, language));
+      const intentResult = intentResults[0];
 
       logger.info('Intent detected', {
         conversationId,
+        language,
         intent: intentResult.intent,
         confidence: intentResult.confidence,
+        confirmation,
+        ...(intentResults.length > 1 ? { intents: intentResults.map((result) => result.intent) } : {}),
       });
 
-      // ── 4. Fetch booking + driver context (BRD §5.2) ──
-      const conversation = await conversationService.getConversation(conversationId);
-      if (!conversation) {
-        throw new Error(`Conversation ${conversationId} not found`);
-      }
-
-      let bookingDetails: any;
-      let driverDetails: any;
-      let trafficInfo: any;
-
-      try {
-        bookingDetails = await apiClient.getBooking(bookingId);
-        if (bookingDetails.driverId) {
-          driverDetails = await apiClient.getDriver(bookingDetails.driverId);
-        }
-        trafficInfo = await apiClient.getTrafficInfo();
-      } catch (error) {
-        logger.warn('Could not fetch context data', { error });
-      }
+      // ── 4. Fetch driver context (BRD §5.2); the booking was fetched before the safety check ──
+      const driverDetails: Driver | undefined = driverId
+        ? await apiClient.getDriver(driverId).catch((error) => {
+          logger.warn('Could not fetch driver context', { driverId, error: error?.message });
+          return undefined;
+        })
+        : undefined;
+      const trafficInfo: any = await apiClient.getTrafficInfo().catch(() => undefined);
 
       // ── 5. Execute decision tree (BRD §11: Decision Tree Flows) ──
       const executionContext = {
+        ...dialogState.slots,
         ...request.context,
         bookingId,
         userId,
         conversationId,
         userInput,
-        intent: intentResult.intent,
+        language,
         bookingDetails,
-        driverId: driverDetails?.id || request.context?.driverId,
+        driverId,
         driverDetails,
         trafficInfo,
+        // "I'm not in danger": the safety flow asks rather than escalates
+        safetyNegated: !safetyEvent && safetyDetectionService.isNegatedConcern(userInput, language),
+        cancellation: conversation.cancellation,
       };
 
-      let flowResult: any;
-      if (intentResult.intent !== 'unknown') {
-        flowResult = await decisionTreeEngine.executeFlow(intentResult.intent, executionContext);
-      } else {
-        flowResult = {
-          success: true,
-          message: `I'm not sure I understood that. Here's what I can help you with:\n` +
-            `• 📍 Where is my driver\n` +
-            `• ⏰ Driver is late\n` +
-            `• 📞 Contact driver\n` +
-            `• 🚫 Cancel booking\n` +
-            `• 💳 Payment questions\n` +
-            `• ⚠️ Safety concerns\n\n` +
-            `Please try asking one of these, or tap a quick action below.`,
-          suggestedActions: ['where_is_driver', 'contact_driver', 'payment_query', 'talk_to_agent'],
+      const answers: FlowAnswer[] = [];
+      for (const result of intentResults) {
+        const context = {
+          ...executionContext,
+          intent: result.intent,
+          // Amounts, places, plates, times, items... from this message (src/nlp/entities.ts)
+          entities: result.entities || {},
         };
+
+        let flowResult: any;
+        if (pending && confirmation) {
+          flowResult = await decisionTreeEngine.resumeFlow(
+            pending.flow,
+            confirmation === 'confirm' ? pending.onConfirm : pending.onDeny,
+            context
+          );
+        } else if (result.intent !== 'unknown') {
+          flowResult = await decisionTreeEngine.executeFlow(result.intent, context);
+        } else {
+          // Below config.nlpConfidenceThreshold: offer the closest guesses instead of acting on one,
+          // and keep the message for review so the classifier can learn it
+          await reviewQueueService.captureUnknown(conversationId, userInput, result);
+          flowResult = {
+            success: true,
+            message: catalog.t(language, 'chat.unknown'),
+            suggestedActions: this.getClarifyingActions(result),
+          };
+        }
+
+        // ── 6. Enrich response with live API data (BRD §5.2, §11) ──
+        // A resumed flow already answers the question it asked
+        const message = confirmation
+          ? flowResult.message
+          : this.enrichResponse(result.intent, flowResult, driverDetails, bookingDetails, trafficInfo, language);
+
+        answers.push({ intent: result.intent, flowResult, message, context });
       }
 
-      // ── 6. Enrich response with live API data (BRD §5.2, §11) ──
-      let botMessage = this.enrichResponse(
-        intentResult.intent,
-        flowResult,
-        driverDetails,
-        bookingDetails,
-        trafficInfo,
-        bookingId
-      );
+      await conversationService.updateDialogState(conversationId, this.nextDialogState(dialogState, answers));
+
+      const primary = answers[0];
+      const botMessage = this.combineMessages(answers);
 
       // ── 7. Determine escalation ──
-      let requiresEscalation = flowResult.escalate === true;
-      let escalationType: 'driver' | 'support' | 'safety' | undefined = flowResult.escalationType;
-
-      // Only escalate for very low confidence (<0.3) — BRD says chatbot should resolve most
-      if (
-        !requiresEscalation &&
-        intentResult.confidence < 0.3 &&
-        intentResult.intent !== 'unknown'
-      ) {
-        requiresEscalation = true;
-        escalationType = 'support';
-        botMessage += '\n\n🤔 I\'m not fully confident I understood your request. Would you like me to connect you with a support agent?';
-      }
+      // Low confidence never escalates by itself: the rider gets the menu above
+      const escalating = answers.find((answer) => answer.flowResult.escalate === true);
+      const requiresEscalation = !!escalating;
+      const escalationType: 'driver' | 'support' | 'safety' | undefined = escalating?.flowResult.escalationType;
+      const intents = answers.length > 1 ? answers.map((answer) => answer.intent) : undefined;
 
       // ── 8. Add bot response to conversation ──
       await conversationService.addMessage(conversationId, 'bot', botMessage, {
@@ -275,13 +403,16 @@ class ChatbotService {
         flowType: intentResult.intent,
         escalated: requiresEscalation,
         responseTimeMs: Date.now() - startTime,
+        language,
+        ...(confirmation ? { confirmation } : {}),
+        ...(intents ? { intents } : {}),
       });
 
       // ── 9. Handle escalation with transcript (BRD §5.5, Epic 5) ──
-      if (requiresEscalation && escalationType) {
+      if (escalating && escalationType) {
         await this.handleEscalation(
           conversationId, bookingId, userId, escalationType,
-          intentResult.intent, executionContext, driverDetails
+          escalating.intent, escalating.context, driverDetails
         );
       }
 
@@ -289,8 +420,13 @@ class ChatbotService {
       const responseTimeMs = Date.now() - startTime;
 
       // BRD §5.3: Quick actions based on booking status
-      const statusBasedActions = flowResult.suggestedActions ||
-        await this.getQuickActions(bookingDetails?.status);
+      // (a cancellation made in this chat wins over a stale booking lookup)
+      const bookingStatus = answers.find((answer) => answer.flowResult.bookingStatus)?.flowResult.bookingStatus ||
+        (conversation.cancellation?.bookingId === bookingId ? 'cancelled' : bookingDetails?.status);
+      const flowActions = answers.filter((answer) => answer.flowResult.suggestedActions);
+      const statusBasedActions = flowActions.length
+        ? [...new Set(flowActions.flatMap((answer) => answer.flowResult.suggestedActions as QuickAction[]))]
+        : await this.getQuickActions(bookingStatus) as QuickAction[];
 
       const response: ChatbotResponse = {
         conversationId,
@@ -299,22 +435,26 @@ class ChatbotService {
         requiresEscalation,
         escalationType,
         metadata: {
-          intent: flowResult.intent === 'conversation_close' ? 'conversation_close' : intentResult.intent,
+          intent: primary.flowResult.intent === 'conversation_close' ? 'conversation_close' : intentResult.intent,
           confidence: intentResult.confidence,
           flowType: intentResult.intent,
+          ...(intents ? { intents } : {}),
           responseTimeMs,
+          language,
         },
-        bookingContext: this.buildBookingContext(bookingDetails, driverDetails),
+        bookingContext: this.buildBookingContext(bookingDetails, driverDetails, bookingStatus),
       };
 
       // Session behavior: if gratitude detected, schedule session completion
-      if (intentResult.intent === 'gratitude' || flowResult.sessionAction === 'mark_closing') {
-        this.scheduleSessionCompletion(conversationId, 3 * 60 * 1000); // 3 minutes
+      if (intentResult.intent === 'gratitude' || primary.flowResult.sessionAction === 'mark_closing') {
+        this.scheduleSessionCompletion(conversationId, 3 * 60 * 1000, language); // 3 minutes
       }
 
       logger.info('Message processed', {
         conversationId,
+        language,
         intent: intentResult.intent,
+        intents,
         confidence: intentResult.confidence,
         escalated: requiresEscalation,
         responseTimeMs,
@@ -333,25 +473,33 @@ class ChatbotService {
   private enrichResponse(
     intent: string,
     flowResult: any,
-    driverDetails: any,
+    driverDetails: Driver | undefined,
     bookingDetails: any,
     trafficInfo: any,
-    bookingId: string
+    language: Language
   ): string {
-    // If the flow already escalated, don't override the message
-    if (flowResult.escalate) return flowResult.message;
+    // If the flow already escalated or answered in degraded mode, don't override the message
+    if (flowResult.escalate || flowResult.degraded) return flowResult.message;
+
+    const t = (key: string, vars?: Record<string, any>) => catalog.t(language, `answers.${key}`, vars);
+    const vehicle = driverDetails &&
+      `${driverDetails.vehicleInfo}${driverDetails.licensePlate ? ` (${driverDetails.licensePlate})` : ''}`;
 
     switch (intent) {
       // ── Flow A: Where is my driver? (BRD §11) ──
       case 'where_is_driver': {
         if (!driverDetails) return flowResult.message;
-        let msg = `📍 Your driver **${driverDetails.name}** is currently **${driverDetails.eta} minutes** away.\n` +
-          `🚙 Vehicle: ${driverDetails.vehicleInfo}${driverDetails.licensePlate ? ` (${driverDetails.licensePlate})` : ''}\n` +
-          `📌 Current location: (${driverDetails.currentLocation.lat.toFixed(4)}, ${driverDetails.currentLocation.lng.toFixed(4)})`;
+        let msg = t('where_is_driver', {
+          name: driverDetails.name,
+          eta: driverDetails.eta,
+          vehicle,
+          lat: driverDetails.currentLocation.lat.toFixed(4),
+          lng: driverDetails.currentLocation.lng.toFixed(4),
+        });
         if (trafficInfo) {
-          msg += `\n🚦 Traffic: ${trafficInfo.congestionLevel} — avg speed ${trafficInfo.averageSpeed}`;
+          msg += t('traffic', { congestion: trafficInfo.congestionLevel, speed: trafficInfo.averageSpeed });
           if (trafficInfo.delayMinutes > 0) {
-            msg += ` (+${trafficInfo.delayMinutes} min delay)`;
+            msg += t('trafficDelay', { minutes: trafficInfo.delayMinutes });
           }
         }
         return msg;
@@ -360,82 +508,73 @@ class ChatbotService {
       // ── Flow B: Driver is late (BRD §11) ──
       case 'driver_late': {
         if (!driverDetails) return flowResult.message;
-        const isSignificantDelay = driverDetails.eta > 15;
-        if (isSignificantDelay) {
-          return `⚠️ We apologize for the significant delay. Your driver **${driverDetails.name}** now has an updated ETA of **${driverDetails.eta} minutes**.\n\n` +
-            `Traffic conditions are currently **${trafficInfo?.congestionLevel || 'moderate'}** with a ${trafficInfo?.delayMinutes || 0} min delay.\n\n` +
-            `What would you like to do?\n` +
-            `• ⏳ Wait for the driver\n` +
-            `• 🚫 Cancel the ride\n` +
-            `• 📞 Talk/Call driver`;
-        } else {
-          return `😊 We apologize for the short delay. Your driver **${driverDetails.name}** is running a bit late due to traffic.\n\n` +
-            `Updated ETA: **${driverDetails.eta} minutes**\n` +
-            `Traffic: ${trafficInfo?.congestionLevel || 'moderate'} conditions\n\n` +
-            `They should arrive within the updated time.`;
-        }
+        const delayPolicy: DelayPolicyDecision = flowResult.policy ||
+          policyService.evaluateDelay(bookingDetails, driverDetails);
+        return t(delayPolicy.isLate ? 'driver_late_exceeded' : 'driver_late_within', {
+          name: driverDetails.name,
+          eta: driverDetails.eta,
+          congestion: trafficInfo?.congestionLevel || t('defaultCongestion'),
+          delay: trafficInfo?.delayMinutes || 0,
+        });
       }
 
       // ── Flow D: Cancel booking (BRD §11) ──
       case 'cancel_booking': {
-        if (!bookingDetails) return flowResult.message;
-        const timeSinceCreation = bookingDetails.createdAt
-          ? Date.now() - new Date(bookingDetails.createdAt).getTime()
-          : 0;
-        const isFreeCancel = timeSinceCreation < 2 * 60 * 1000;
-
-        if (isFreeCancel) {
-          return `📋 **Cancellation Policy**\n\n` +
-            `✅ Free cancellation is available since your booking was made less than 2 minutes ago.\n\n` +
-            `Booking: #${bookingDetails.id}\n` +
-            `Estimated fare: ${bookingDetails.estimatedFare}\n\n` +
-            `Would you like to proceed with cancellation?`;
+        // Already cancelled: the flow's receipt is the answer
+        if (!bookingDetails || flowResult.bookingStatus === 'cancelled') return flowResult.message;
+        const policy: CancellationPolicyDecision = flowResult.policy ||
+          policyService.evaluateCancellation(bookingDetails);
+
+        if (!policy.allowed) {
+          return flowResult.message;
+        }
+        if (policy.isFree) {
+          return t('cancel_free', {
+            reason: policy.freeWindowMinutes !== null
+              ? t('cancel_freeWindow', { minutes: policy.freeWindowMinutes })
+              : t('cancel_freeAnyTime'),
+            bookingId: bookingDetails.id,
+            fare: bookingDetails.estimatedFare,
+          });
         } else {
-          return `📋 **Cancellation Policy**\n\n` +
-            `⚠️ Cancelling at this point may incur a small cancellation fee.\n\n` +
-            `Booking: #${bookingDetails.id}\n` +
-            `Estimated fare: ${bookingDetails.estimatedFare}\n` +
-            `Cancellation fee: ~$3.50\n\n` +
-            `Would you like to confirm the cancellation, or keep your booking?`;
+          return t('cancel_fee', {
+            bookingId: bookingDetails.id,
+            fare: bookingDetails.estimatedFare,
+            fee: policy.formatted.fee,
+            refund: policy.formatted.refund ? t('cancel_refund', { refund: policy.formatted.refund }) : '',
+          });
         }
       }
 
       // ── Contact driver (BRD §5.5.1) ──
       case 'contact_driver': {
         if (!driverDetails) return flowResult.message;
-        return `📞 **Contact Your Driver**\n\n` +
-          `Driver: ${driverDetails.name}\n` +
-          `Phone: ${driverDetails.phone}\n` +
-          `Vehicle: ${driverDetails.vehicleInfo}${driverDetails.licensePlate ? ` (${driverDetails.licensePlate})` : ''}\n` +
-          `Rating: ⭐ ${driverDetails.rating}\n\n` +
-          `How would you like to reach them?`;
+        return t('contact_driver', {
+          name: driverDetails.name,
+          phone: driverDetails.phone,
+          vehicle,
+          rating: driverDetails.rating,
+        });
       }
 
       // ── Payment query ──
       case 'payment_query': {
         if (!bookingDetails) return flowResult.message;
-        // Get payment details inline
-        const fare = bookingDetails.estimatedFare || '$24.50';
-        const dist = bookingDetails.distance || '8.3 km';
-        return `💳 **Fare Details**\n\n` +
-          `Booking: #${bookingDetails.id}\n` +
-          `Estimated fare: **${fare}**\n` +
-          `Distance: ${dist}\n` +
-          `Ride type: ${bookingDetails.rideType || 'comfort'}\n\n` +
-          `📊 **Breakdown:**\n` +
-          `• Base fare: $3.50\n` +
-          `• Distance charge: $12.00\n` +
-          `• Time charge: $6.00\n` +
-          `• Service fee: $3.00\n\n` +
-          `Final fare may vary based on actual distance and time.`;
+        // Set by the flow when the rider quoted an amount ("I was charged $45")
+        const disputed = flowResult.disputedAmount;
+        return t('payment_query', {
+          disputed: disputed ? t('payment_disputed', { amount: disputed.text }) : '',
+          bookingId: bookingDetails.id,
+          fare: bookingDetails.estimatedFare || '$24.50',
+          distance: bookingDetails.distance || '8.3 km',
+          rideType: bookingDetails.rideType || 'comfort',
+          disputedNote: disputed ? t('payment_disputedNote') : '',
+        });
       }
 
       // ── Talk to agent (BRD §5.5.2) ──
       case 'talk_to_agent': {
-        return `👨‍💼 **Connecting to Support**\n\n` +
-          `I'm connecting you with a human support agent. Your chat history and booking context will be shared with them automatically.\n\n` +
-          `⏳ Estimated wait: 1-2 minutes\n` +
-          `📋 Ticket created for your issue.`;
+        return t('talk_to_agent');
       }
 
       // ── Gratitude / Conversation Close ──
@@ -460,7 +599,7 @@ class ChatbotService {
     escalationType: 'driver' | 'support' | 'safety',
     intent: string,
     executionContext: any,
-    driverDetails: any
+    driverDetails: Driver | undefined
   ): Promise<void> {
     // Get full chat transcript for the agent
     const messages = await conversationService.getMessages(conversationId);
@@ -487,7 +626,7 @@ class ChatbotService {
       conversationId,
       escalationType,
       escalationType === 'driver' ? driverDetails?.id : undefined,
-      escalationType === 'support' ? ticket.id : undefined
+      ticket.id
     );
   }
 
@@ -496,30 +635,82 @@ class ChatbotService {
   // Priority handling + emergency contact option
   // ────────────────────────────────────────────
   private async handleSafetyEscalation(
-    safetyEvent: any,
+    safetyEvent: SafetyEvent,
     conversationId: string,
     bookingId: string,
     userId: string,
     userInput: string,
-    startTime: number
+    startTime: number,
+    language: Language
   ): Promise<ChatbotResponse> {
-    logger.warn('Safety escalation triggered', { safetyEvent });
+    logger.warn('Safety escalation triggered', { safetyEvent, language });
 
     await conversationService.addMessage(conversationId, 'user', userInput, {
       intent: 'safety_concern',
       safetyKeywords: safetyEvent.keywords,
     });
 
+    const ticket = await this.openSafetyTicket(safetyEvent, conversationId, bookingId, userId, userInput);
+
+    // BRD Epic 6: Emergency contact + priority handling
+    const safetyResponse = catalog.t(language, 'safety.escalation', {
+      ticket: ticket.id.substring(0, 8).toUpperCase(),
+    });
+
+    await conversationService.addMessage(conversationId, 'bot', safetyResponse, {
+      intent: 'safety_concern',
+      escalated: true,
+      ticketId: ticket.id,
+      priority: 'critical',
+      language,
+    });
+
+    return {
+      conversationId,
+      message: safetyResponse,
+      suggestedActions: ['emergency_contact', 'share_trip', 'talk_to_agent'],
+      requiresEscalation: true,
+      escalationType: 'safety',
+      metadata: {
+        intent: 'safety_concern',
+        confidence: 1.0,
+        flowType: 'safety_escalation',
+        responseTimeMs: Date.now() - startTime,
+        language,
+      },
+    };
+  }
+
+  // The safety escalation request and ticket, with the incident marked escalated.
+  // A ticket already open for the conversation (an agent's, say) takes the event
+  // and goes up to critical instead of a new one being opened.
+  private async openSafetyTicket(
+    safetyEvent: SafetyEvent,
+    conversationId: string,
+    bookingId: string,
+    userId: string,
+    userInput: string
+  ): Promise<SupportTicket> {
     // Get chat transcript
     const messages = await conversationService.getMessages(conversationId);
 
+    // A medium event only gets here as part of a run in this ride
+    const mediumRun = safetyEvent.severity === 'medium' ? safetyDetectionService.getMediumRun(safetyEvent) : 0;
     const escalationRequest = await escalationService.createEscalationRequest(
       conversationId,
       bookingId,
       userId,
       'safety',
-      `URGENT Safety concern detected: ${safetyEvent.keywords.join(', ')}`,
-      { safetyEvent, userInput, severity: safetyEvent.severity, chatTranscript: messages }
+      `URGENT Safety concern detected: ${safetyEvent.keywords.join(', ')}` +
+        (mediumRun ? ` (${mediumRun} medium-severity concerns in this ride)` : ''),
+      {
+        safetyEvent,
+        userInput,
+        severity: safetyEvent.severity,
+        driverId: safetyEvent.driverId,
+        chatTranscript: messages,
+        ...(mediumRun ? { mediumRun } : {}),
+      }
     );
 
     const ticket = await escalationService.createSupportTicket(
@@ -534,36 +725,86 @@ class ChatbotService {
       undefined,
       ticket.id
     );
+    await safetyIncidentService.markEscalated(safetyEvent, ticket.id);
 
-    // BRD Epic 6: Emergency contact + priority handling
-    const safetyResponse =
-      `🚨 **Your safety is our top priority.**\n\n` +
-      `I'm connecting you with emergency support immediately.\n\n` +
-      `📞 **Emergency Contacts:**\n` +
-      `• RideSharePro Safety: 1-800-SAFE-RIDE\n` +
-      `• Local Emergency: 911\n\n` +
-      `🎫 Support Ticket: #${ticket.id.substring(0, 8).toUpperCase()}\n` +
-      `Priority: **CRITICAL**\n\n` +
-      `Please stay in a public, well-lit area if possible. Help is on the way.`;
+    return ticket;
+  }
 
-    await conversationService.addMessage(conversationId, 'bot', safetyResponse, {
-      intent: 'safety_concern',
-      escalated: true,
-      ticketId: ticket.id,
-      priority: 'critical',
-    });
+  // ────────────────────────────────────────────
+  // Conversation owned by a support agent
+  // The rider's message goes into the transcript for the agent (tagged
+  // like any other) and the bot replies with nothing. A safety concern
+  // serious enough still escalates, silently: the agent's ticket goes up
+  // to critical and the incident is marked escalated
+  // ────────────────────────────────────────────
+  private async handleAgentOwned(
+    request: ChatbotRequest,
+    safetyEvent: SafetyEvent | null,
+    startTime: number,
+    language: Language
+  ): Promise<ChatbotResponse> {
+    const { conversationId, userInput } = request;
+    const messageMetadata = {
+      ...(request.context?.action ? { quickAction: request.context.action } : {}),
+      ...(safetyEvent ? { safetySeverity: safetyEvent.severity, safetyKeywords: safetyEvent.keywords } : {}),
+    };
+    await conversationService.addMessage(
+      conversationId,
+      'user',
+      userInput,
+      Object.keys(messageMetadata).length ? messageMetadata : undefined
+    );
+
+    if (safetyEvent && safetyDetectionService.isEscalationRequired(safetyEvent)) {
+      logger.warn('Safety escalation triggered while an agent holds the conversation', { safetyEvent, language });
+      await this.openSafetyTicket(safetyEvent, conversationId, request.bookingId, request.userId, userInput);
+    }
+
+    logger.info('Message left for support agent', { conversationId, language });
 
     return {
       conversationId,
-      message: safetyResponse,
-      suggestedActions: ['emergency_contact', 'talk_to_agent'],
-      requiresEscalation: true,
-      escalationType: 'safety',
+      message: '',
+      requiresEscalation: false,
       metadata: {
-        intent: 'safety_concern',
+        intent: 'human_agent',
         confidence: 1.0,
-        flowType: 'safety_escalation',
+        flowType: 'human_agent',
         responseTimeMs: Date.now() - startTime,
+        language,
+      },
+    };
+  }
+
+  // ────────────────────────────────────────────
+  // Relayed to the driver (DriverRelayService)
+  // Like a conversation an agent holds, the bot replies with nothing. Null
+  // when the relay closed as the message came in; the bot answers it then.
+  // ────────────────────────────────────────────
+  private async handleRelayed(
+    request: ChatbotRequest,
+    safetyEvent: SafetyEvent | null,
+    startTime: number,
+    language: Language
+  ): Promise<ChatbotResponse | null> {
+    const { conversationId, userInput } = request;
+    const relayed = await driverRelayService.relayFromRider(
+      conversationId,
+      userInput,
+      safetyEvent ? { safetySeverity: safetyEvent.severity, safetyKeywords: safetyEvent.keywords } : {}
+    );
+    if (!relayed) return null;
+
+    return {
+      conversationId,
+      message: '',
+      requiresEscalation: false,
+      metadata: {
+        intent: 'driver_relay',
+        confidence: 1.0,
+        flowType: 'driver_relay',
+        responseTimeMs: Date.now() - startTime,
+        language,
       },
     };
   }
@@ -579,7 +820,10 @@ class ChatbotService {
     const responseTimeMs = Date.now() - startTime;
     logger.error('Error processing message', { error, request, responseTimeMs });
 
-    const errorMessage = '⚠️ I encountered an error processing your request. Let me connect you with a support agent who can help right away.';
+    // Best effort: the error may be that the conversation can't be read
+    const conversation = await conversationService.getConversation(request.conversationId).catch(() => null);
+    const language = conversation?.language || 'en';
+    const errorMessage = catalog.t(language, 'chat.error');
 
     await conversationService.addMessage(request.conversationId, 'bot', errorMessage);
 
@@ -619,17 +863,80 @@ class ChatbotService {
         confidence: 0,
         flowType: 'error_escalation',
         responseTimeMs,
+        language,
       },
     };
   }
 
+  // ────────────────────────────────────────────
+  // Multi-turn dialog state
+  // A flow can leave a yes/no question pending and remember slot values
+  // (e.g. contactAttempts) for later turns. Any reply clears the question:
+  // it is either answered or the rider has moved on.
+  // ────────────────────────────────────────────
+  private getPendingConfirmation(dialogState: DialogState): PendingConfirmation | null {
+    const pending = dialogState.pendingConfirmation;
+    if (!pending) return null;
+
+    const ageMs = Date.now() - new Date(pending.askedAt).getTime();
+    return ageMs <= config.confirmationTimeoutMs ? pending : null;
+  }
+
+  // Slots from every flow that answered; at most one of them waits on a yes/no reply
+  private nextDialogState(dialogState: DialogState, answers: FlowAnswer[]): DialogState {
+    const asking = answers.find((answer) => answer.flowResult.dialog?.awaitConfirmation);
+    const awaitConfirmation = asking?.flowResult.dialog.awaitConfirmation;
+
+    return {
+      activeFlow: asking?.intent,
+      pendingConfirmation: asking
+        ? {
+          flow: asking.intent,
+          onConfirm: awaitConfirmation.onConfirm,
+          onDeny: awaitConfirmation.onDeny,
+          askedAt: new Date(),
+        }
+        : undefined,
+      slots: Object.assign({}, dialogState.slots, ...answers.map((answer) => answer.flowResult.dialog?.slots)),
+    };
+  }
+
+  // ────────────────────────────────────────────
+  // Compound messages: one answer per intent
+  // ────────────────────────────────────────────
+  // Safety first, then actions, then information. "Thanks, where is my
+  // driver?" is a question, not a goodbye: closing intents are dropped when
+  // the message asks for something else.
+  private byPriority(intentResults: IntentResult[]): IntentResult[] {
+    const rank = (result: IntentResult) => FLOW_PRIORITIES.indexOf(decisionTreeEngine.getPriority(result.intent));
+    const requests = intentResults.filter((result) => !CLOSING_INTENTS.includes(result.intent));
+
+    // Stable: intents of the same priority stay in the order the rider wrote them
+    return [...(requests.length ? requests : intentResults)].sort((a, b) => rank(a) - rank(b));
+  }
+
+  // Answers in priority order, except that a yes/no question goes last so
+  // the rider's next reply is read as the answer to it
+  private combineMessages(answers: FlowAnswer[]): string {
+    if (answers.length === 1) return answers[0].message;
+
+    const asking = answers.filter((answer) => answer.flowResult.dialog?.awaitConfirmation);
+    return [...answers.filter((answer) => !asking.includes(answer)), ...asking]
+      .map((answer) => answer.message)
+      .join('\n\n');
+  }
+
   // ────────────────────────────────────────────
   // Helpers
   // ────────────────────────────────────────────
-  private buildBookingContext(bookingDetails: any, driverDetails: any): Record<string, any> {
+  private buildBookingContext(
+    bookingDetails: any,
+    driverDetails: Driver | undefined,
+    status?: string
+  ): Record<string, any> {
     return {
       bookingId: bookingDetails?.id || '',
-      status: bookingDetails?.status || 'confirmed',
+      status: status || bookingDetails?.status || 'confirmed',
       driverName: driverDetails?.name || '',
       driverVehicle: driverDetails?.vehicleInfo || '',
       driverPhone: driverDetails?.phone || '',
@@ -642,15 +949,9 @@ class ChatbotService {
     };
   }
 
-  private formatStatus(status: string): string {
-    const statusMap: Record<string, string> = {
-      confirmed: '✅ Confirmed',
-      in_progress: '🚗 In Progress',
-      arrived: '📍 Driver Arrived',
-      completed: '🏁 Completed',
-      cancelled: '❌ Cancelled',
-    };
-    return statusMap[status] || status;
+  private formatStatus(status: string, language: Language): string {
+    const key = `rideStatus.${status}`;
+    return catalog.has(key) ? catalog.t(language, key) : status;
   }
 
   // ────────────────────────────────────────────
@@ -659,7 +960,7 @@ class ChatbotService {
   // ────────────────────────────────────────────
   private sessionTimers: Map<string, NodeJS.Timeout> = new Map();
 
-  private scheduleSessionCompletion(conversationId: string, delayMs: number): void {
+  private scheduleSessionCompletion(conversationId: string, delayMs: number, language: Language): void {
     // Clear any existing timer for this conversation
     const existingTimer = this.sessionTimers.get(conversationId);
     if (existingTimer) {
@@ -673,7 +974,7 @@ class ChatbotService {
         // Only auto-complete if still active (user hasn't sent new messages)
         if (conversation && conversation.status === 'active') {
           await conversationService.addMessage(conversationId, 'bot',
-            '👋 This conversation has been marked as completed. Thank you for using Door2Door Flights! Open the chat anytime if you need more help.',
+            catalog.t(language, 'chat.sessionClosed'),
             { intent: 'session_auto_close', automated: true }
           );
           logger.info('Session auto-completed after inactivity', { conversationId });
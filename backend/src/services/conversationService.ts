@@ -1,20 +1,41 @@
 import { v4 as uuidv4 } from 'uuid';
-import { Conversation, ChatMessage, EscalationRequest, SupportTicket } from '../types';
+import {
+  Conversation,
+  ChatMessage,
+  DialogState,
+  DriverRelay,
+  CancellationRecord,
+  DriverSafetyFlag,
+  ESCALATION_PRIORITIES,
+  EscalationRequest,
+  Language,
+  SafetyPattern,
+  SupportTicket,
+  SupportTicketEvent,
+} from '../types';
+import config from '../config';
 import logger from '../utils/logger';
+import safetyDetectionService from './safetyDetection';
+import {
+  ConversationChanges,
+  ConversationRepository,
+  EscalationRepository,
+  TicketFilter,
+  createRepositories,
+} from '../repositories';
 
 class ConversationService {
-  private conversations: Map<string, Conversation>;
-  private messageArchive: Map<string, ChatMessage[]>;
+  private repository: ConversationRepository;
 
-  constructor() {
-    this.conversations = new Map();
-    this.messageArchive = new Map();
+  constructor(repository: ConversationRepository) {
+    this.repository = repository;
   }
 
   async createConversation(
     bookingId: string,
     userId: string,
-    driverId?: string
+    driverId?: string,
+    language: Language = config.defaultLanguage as Language
   ): Promise<Conversation> {
     const conversationId = uuidv4();
     const conversation: Conversation = {
@@ -22,16 +43,16 @@ class ConversationService {
       bookingId,
       userId,
       driverId,
+      language,
       messages: [],
       status: 'active',
       createdAt: new Date(),
       updatedAt: new Date(),
     };
 
-    this.conversations.set(conversationId, conversation);
-    this.messageArchive.set(conversationId, []);
+    await this.repository.insertConversation(conversation);
 
-    logger.info('Conversation created', { conversationId, bookingId, userId });
+    logger.info('Conversation created', { conversationId, bookingId, userId, language });
 
     return conversation;
   }
@@ -42,7 +63,7 @@ class ConversationService {
     message: string,
     metadata?: Record<string, any>
   ): Promise<ChatMessage> {
-    const conversation = this.conversations.get(conversationId);
+    const conversation = await this.repository.findConversation(conversationId);
     if (!conversation) {
       throw new Error(`Conversation ${conversationId} not found`);
     }
@@ -56,13 +77,8 @@ class ConversationService {
       metadata,
     };
 
-    conversation.messages.push(chatMessage);
-    if (!this.messageArchive.has(conversationId)) {
-      this.messageArchive.set(conversationId, []);
-    }
-    this.messageArchive.get(conversationId)!.push(chatMessage);
-
-    conversation.updatedAt = new Date();
+    await this.repository.appendMessage(chatMessage);
+    await this.repository.updateConversation(conversationId, { updatedAt: new Date() });
 
     logger.debug('Message added', {
       conversationId,
@@ -73,89 +89,181 @@ class ConversationService {
     return chatMessage;
   }
 
+  // Metadata only: relay receipts
+  async updateMessage(message: ChatMessage): Promise<void> {
+    await this.repository.updateMessage(message);
+  }
+
   async getConversation(conversationId: string): Promise<Conversation | null> {
-    return this.conversations.get(conversationId) || null;
+    return this.repository.findConversation(conversationId);
   }
 
   async getMessages(conversationId: string, limit?: number): Promise<ChatMessage[]> {
-    const messages = this.messageArchive.get(conversationId) || [];
-
-    if (limit && limit > 0) {
-      return messages.slice(-limit);
-    }
-
-    return messages;
+    return this.repository.findMessages(conversationId, limit);
   }
 
   async updateConversationStatus(
     conversationId: string,
     status: 'active' | 'resolved' | 'escalated' | 'closed'
   ): Promise<void> {
-    const conversation = this.conversations.get(conversationId);
+    const conversation = await this.repository.findConversation(conversationId);
     if (!conversation) {
       throw new Error(`Conversation ${conversationId} not found`);
     }
 
-    conversation.status = status;
-    conversation.updatedAt = new Date();
+    await this.repository.updateConversation(conversationId, { status, updatedAt: new Date() });
 
     logger.info('Conversation status updated', { conversationId, status });
   }
 
+  async updateDialogState(conversationId: string, dialogState: DialogState): Promise<void> {
+    const conversation = await this.repository.findConversation(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+
+    await this.repository.updateConversation(conversationId, { dialogState, updatedAt: new Date() });
+
+    logger.debug('Dialog state updated', {
+      conversationId,
+      activeFlow: dialogState.activeFlow,
+      pendingConfirmation: !!dialogState.pendingConfirmation,
+    });
+  }
+
+  async updateLanguage(conversationId: string, language: Language): Promise<void> {
+    const conversation = await this.repository.findConversation(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+
+    await this.repository.updateConversation(conversationId, { language, updatedAt: new Date() });
+
+    logger.info('Conversation language changed', { conversationId, from: conversation.language, to: language });
+  }
+
+  async recordCancellation(
+    conversationId: string,
+    cancellation: Omit<CancellationRecord, 'cancelledAt'> & { cancelledAt?: Date | string }
+  ): Promise<CancellationRecord> {
+    const conversation = await this.repository.findConversation(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+
+    const record: CancellationRecord = {
+      ...cancellation,
+      cancelledAt: cancellation.cancelledAt ? new Date(cancellation.cancelledAt) : new Date(),
+    };
+    await this.repository.updateConversation(conversationId, { cancellation: record, updatedAt: new Date() });
+
+    logger.info('Cancellation recorded', {
+      conversationId,
+      bookingId: record.bookingId,
+      fee: record.fee,
+      refundAmount: record.refundAmount,
+    });
+
+    return record;
+  }
+
   async escalateConversation(
     conversationId: string,
     escalationType: 'driver' | 'support' | 'safety',
     driverId?: string,
-    supportAgentId?: string
+    supportTicketId?: string
   ): Promise<void> {
-    const conversation = this.conversations.get(conversationId);
+    const conversation = await this.repository.findConversation(conversationId);
     if (!conversation) {
       throw new Error(`Conversation ${conversationId} not found`);
     }
 
-    conversation.escalationType = escalationType;
-    conversation.status = 'escalated';
+    await this.repository.updateConversation(conversationId, {
+      escalationType,
+      status: 'escalated',
+      ...(driverId ? { driverId } : {}),
+      ...(supportTicketId ? { supportTicketId } : {}),
+      updatedAt: new Date(),
+    });
+
+    logger.info('Conversation escalated', {
+      conversationId,
+      escalationType,
+      driverId,
+      supportTicketId,
+    });
+  }
 
-    if (driverId) {
-      conversation.driverId = driverId;
+  /**
+   * Hand the conversation to a support agent, or back to the bot
+   * (`supportAgentId` undefined), leaving it in `status`.
+   */
+  async setSupportAgent(
+    conversationId: string,
+    supportAgentId: string | undefined,
+    status: Conversation['status']
+  ): Promise<Conversation> {
+    const conversation = await this.repository.findConversation(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
     }
-    if (supportAgentId) {
-      conversation.supportAgentId = supportAgentId;
+
+    const changes: ConversationChanges = { supportAgentId, status, updatedAt: new Date() };
+    await this.repository.updateConversation(conversationId, changes);
+
+    logger.info('Conversation support agent changed', { conversationId, supportAgentId, status });
+    return { ...conversation, ...changes };
+  }
+
+  async setDriverRelay(conversationId: string, driverRelay: DriverRelay): Promise<Conversation> {
+    const conversation = await this.repository.findConversation(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
     }
 
-    conversation.updatedAt = new Date();
+    const changes: ConversationChanges = { driverRelay, updatedAt: new Date() };
+    await this.repository.updateConversation(conversationId, changes);
 
-    logger.info('Conversation escalated', {
+    logger.info('Driver relay changed', {
       conversationId,
-      escalationType,
-      driverId,
-      supportAgentId,
+      driverId: driverRelay.driverId,
+      status: driverRelay.status,
+      closeReason: driverRelay.closeReason,
     });
+    return { ...conversation, ...changes };
   }
 
   async closeConversation(conversationId: string, reason?: string): Promise<void> {
-    const conversation = this.conversations.get(conversationId);
+    const conversation = await this.repository.findConversation(conversationId);
     if (!conversation) {
       throw new Error(`Conversation ${conversationId} not found`);
     }
 
-    conversation.status = 'closed';
-    conversation.updatedAt = new Date();
+    const changes: ConversationChanges = { status: 'closed', updatedAt: new Date() };
+    // Nothing more goes to the driver from a closed conversation
+    if (conversation.driverRelay?.status === 'open') {
+      changes.driverRelay = {
+        ...conversation.driverRelay,
+        status: 'closed',
+        closedAt: new Date(),
+        closeReason: 'conversation_closed',
+      };
+    }
+    await this.repository.updateConversation(conversationId, changes);
 
     logger.info('Conversation closed', { conversationId, reason });
   }
 
   async getConversationHistory(userId: string, limit: number = 10): Promise<Conversation[]> {
-    const userConversations = Array.from(this.conversations.values())
-      .filter((conv) => conv.userId === userId)
-      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
-      .slice(0, limit);
+    return this.repository.findConversationsByUser(userId, limit);
+  }
 
-    return userConversations;
+  async getOpenDriverRelays(): Promise<string[]> {
+    return this.repository.findOpenDriverRelays();
   }
 
-  getConversationSummary(conversationId: string): any {
-    const conversation = this.conversations.get(conversationId);
+  async getConversationSummary(conversationId: string): Promise<any> {
+    const conversation = await this.repository.findConversation(conversationId);
     if (!conversation) return null;
 
     return {
@@ -173,14 +281,23 @@ class ConversationService {
   }
 }
 
+type Priority = EscalationRequest['priority'];
+
+// A rider with a high-risk safety pattern, or a driver flagged across
+// riders, is looked at sooner whatever the reason for the escalation
+function raisePriority(priority: Priority, safetyPattern: SafetyPattern, driverFlag?: DriverSafetyFlag): Priority {
+  const floor: Priority = safetyPattern.riskLevel === 'high' || driverFlag
+    ? 'high'
+    : safetyPattern.riskLevel === 'medium' ? 'medium' : 'low';
+  return ESCALATION_PRIORITIES.indexOf(floor) > ESCALATION_PRIORITIES.indexOf(priority) ? floor : priority;
+}
+
 class EscalationService {
-  private escalationRequests: Map<string, EscalationRequest>;
-  private supportTickets: Map<string, SupportTicket>;
+  private repository: EscalationRepository;
   private escalationCallbacks: Map<string, Function[]>;
 
-  constructor() {
-    this.escalationRequests = new Map();
-    this.supportTickets = new Map();
+  constructor(repository: EscalationRepository) {
+    this.repository = repository;
     this.escalationCallbacks = new Map();
   }
 
@@ -193,8 +310,13 @@ class EscalationService {
     context: Record<string, any>
   ): Promise<EscalationRequest> {
     const requestId = uuidv4();
-    const priority =
-      escalationType === 'safety' ? 'critical' : context.priority || 'medium';
+    // The rider's recent safety history and the driver's, for whoever picks this up
+    const safetyPattern = safetyDetectionService.analyzePatterns(userId);
+    const driverId = context.driverId || context.safetyEvent?.driverId;
+    const driverSafetyFlag = driverId ? safetyDetectionService.getDriverFlag(driverId) : undefined;
+    const priority: Priority = escalationType === 'safety'
+      ? 'critical'
+      : raisePriority(context.priority || 'medium', safetyPattern, driverSafetyFlag);
 
     const escalationRequest: EscalationRequest = {
       id: requestId,
@@ -203,18 +325,24 @@ class EscalationService {
       userId,
       escalationType,
       reason,
-      priority: priority as 'low' | 'medium' | 'high' | 'critical',
+      priority,
       timestamp: new Date(),
-      context,
+      context: {
+        ...context,
+        safetyPattern,
+        ...(driverSafetyFlag ? { driverSafetyFlag } : {}),
+      },
     };
 
-    this.escalationRequests.set(requestId, escalationRequest);
+    await this.repository.insertEscalationRequest(escalationRequest);
 
     logger.info('Escalation request created', {
       requestId,
       escalationType,
       priority,
       conversationId,
+      safetyRisk: safetyPattern.riskLevel,
+      driverFlagged: !!driverSafetyFlag,
     });
 
     // Trigger callbacks
@@ -223,27 +351,51 @@ class EscalationService {
     return escalationRequest;
   }
 
+  /**
+   * The ticket for an escalation. While the conversation has a ticket open
+   * or in progress, the escalation is linked to that one instead (see
+   * linkToTicket) and no second ticket is opened.
+   */
   async createSupportTicket(
     escalationRequestId: string,
     conversationId: string,
     userId: string
   ): Promise<SupportTicket> {
+    const escalationRequest = await this.repository.findEscalationRequest(escalationRequestId);
+    const event = escalationRequest && this.toTicketEvent(escalationRequest);
+
+    // Most urgent first, should there be more than one from before tickets were shared
+    const [openTicket] = await this.repository.findTickets({
+      conversationId,
+      statuses: ['open', 'in_progress'],
+    });
+    if (openTicket) {
+      return this.linkToTicket(openTicket, event);
+    }
+
     const ticketId = uuidv4();
+    const priority: Priority = escalationRequest?.priority || 'medium';
+    const createdAt = new Date();
     const ticket: SupportTicket = {
       id: ticketId,
       escalationRequestId,
       conversationId,
       userId,
       status: 'open',
-      createdAt: new Date(),
+      priority,
+      createdAt,
+      slaDueAt: new Date(createdAt.getTime() + config.escalationSlaMs[priority]),
+      slaBreaches: 0,
+      events: event ? [event] : [],
     };
 
-    this.supportTickets.set(ticketId, ticket);
+    await this.repository.insertSupportTicket(ticket);
 
     logger.info('Support ticket created', {
       ticketId,
       escalationRequestId,
       conversationId,
+      priority: ticket.priority,
     });
 
     await this.triggerCallbacks('ticket_created', ticket);
@@ -251,13 +403,69 @@ class EscalationService {
     return ticket;
   }
 
+  /**
+   * A further escalation on a conversation with an open ticket: added to
+   * the ticket's events, and the ticket raised to the escalation's priority
+   * if that's higher (an unclaimed ticket's SLA tightening to match).
+   */
+  private async linkToTicket(ticket: SupportTicket, event: SupportTicketEvent | null): Promise<SupportTicket> {
+    if (!event) return ticket;
+
+    ticket.events = [...ticket.events, event];
+    const previousPriority = ticket.priority;
+    if (ESCALATION_PRIORITIES.indexOf(event.priority) > ESCALATION_PRIORITIES.indexOf(ticket.priority)) {
+      ticket.priority = event.priority;
+      if (ticket.status === 'open') {
+        const dueAt = event.at.getTime() + config.escalationSlaMs[event.priority];
+        ticket.slaDueAt = new Date(ticket.slaDueAt ? Math.min(ticket.slaDueAt.getTime(), dueAt) : dueAt);
+      }
+    }
+    await this.repository.updateSupportTicket(ticket);
+
+    logger.info('Escalation linked to open ticket', {
+      ticketId: ticket.id,
+      escalationRequestId: event.escalationRequestId,
+      conversationId: ticket.conversationId,
+      events: ticket.events.length,
+      previousPriority,
+      priority: ticket.priority,
+    });
+    await this.triggerCallbacks('ticket_updated', ticket);
+
+    return ticket;
+  }
+
+  private toTicketEvent(request: EscalationRequest): SupportTicketEvent {
+    return {
+      escalationRequestId: request.id,
+      escalationType: request.escalationType,
+      priority: request.priority,
+      reason: request.reason,
+      at: request.timestamp,
+    };
+  }
+
+  /**
+   * An agent takes the ticket, unless another agent took it first (or it
+   * was resolved meanwhile): null then.
+   */
+  async claimTicket(ticketId: string, agentId: string): Promise<SupportTicket | null> {
+    const ticket = await this.repository.claimSupportTicket(ticketId, agentId);
+    if (!ticket) return null;
+
+    logger.info('Support ticket updated', { ticketId, status: ticket.status, assignedAgent: agentId });
+    await this.triggerCallbacks('ticket_updated', ticket);
+
+    return ticket;
+  }
+
   async updateTicketStatus(
     ticketId: string,
     status: 'open' | 'in_progress' | 'resolved' | 'closed',
     resolution?: string,
     assignedAgent?: string
   ): Promise<SupportTicket | null> {
-    const ticket = this.supportTickets.get(ticketId);
+    const ticket = await this.repository.findSupportTicket(ticketId);
     if (!ticket) return null;
 
     ticket.status = status;
@@ -268,6 +476,7 @@ class EscalationService {
     if (assignedAgent) {
       ticket.assignedAgent = assignedAgent;
     }
+    await this.repository.updateSupportTicket(ticket);
 
     logger.info('Support ticket updated', { ticketId, status });
     await this.triggerCallbacks('ticket_updated', ticket);
@@ -275,24 +484,48 @@ class EscalationService {
     return ticket;
   }
 
+  /**
+   * A ticket nobody claimed within its SLA moves up a priority (critical
+   * stays critical) and gets a fresh SLA at that priority. Triggers
+   * 'sla_breached' with the ticket and the priority it had. Null if the
+   * ticket was claimed or closed in the meantime.
+   */
+  async breachSla(ticketId: string): Promise<{ ticket: SupportTicket; previousPriority: Priority } | null> {
+    const ticket = await this.repository.findSupportTicket(ticketId);
+    if (!ticket || ticket.status !== 'open') return null;
+
+    const previousPriority = ticket.priority;
+    const rank = ESCALATION_PRIORITIES.indexOf(previousPriority);
+    ticket.priority = ESCALATION_PRIORITIES[Math.min(rank + 1, ESCALATION_PRIORITIES.length - 1)];
+    ticket.slaBreaches = (ticket.slaBreaches || 0) + 1;
+    ticket.slaDueAt = new Date(Date.now() + config.escalationSlaMs[ticket.priority]);
+    await this.repository.updateSupportTicket(ticket);
+
+    logger.warn('Support ticket SLA breached', {
+      ticketId,
+      previousPriority,
+      priority: ticket.priority,
+      breaches: ticket.slaBreaches,
+    });
+    await this.triggerCallbacks('sla_breached', { ticket, previousPriority });
+
+    return { ticket, previousPriority };
+  }
+
   async getEscalationRequest(requestId: string): Promise<EscalationRequest | null> {
-    return this.escalationRequests.get(requestId) || null;
+    return this.repository.findEscalationRequest(requestId);
   }
 
   async getSupportTicket(ticketId: string): Promise<SupportTicket | null> {
-    return this.supportTickets.get(ticketId) || null;
+    return this.repository.findSupportTicket(ticketId);
   }
 
   async getOpenTickets(userId?: string): Promise<SupportTicket[]> {
-    const tickets = Array.from(this.supportTickets.values()).filter(
-      (ticket) => ticket.status !== 'closed'
-    );
-
-    if (userId) {
-      return tickets.filter((t) => t.userId === userId);
-    }
+    return this.repository.findTickets({ userId, excludeStatuses: ['closed'] });
+  }
 
-    return tickets;
+  async findTickets(filter: TicketFilter): Promise<SupportTicket[]> {
+    return this.repository.findTickets(filter);
   }
 
   registerCallback(eventType: string, callback: Function): void {
@@ -315,5 +548,7 @@ class EscalationService {
 }
 
 export { ConversationService, EscalationService };
-export const conversationService = new ConversationService();
-export const escalationService = new EscalationService();
+const repositories = createRepositories();
+
+export const conversationService = new ConversationService(repositories.conversations);
+export const escalationService = new EscalationService(repositories.escalations);
@@ -0,0 +1,51 @@
+import { DriverLocation } from '../types';
+import logger from '../utils/logger';
+import apiClient from '../utils/apiClient';
+
+/**
+ * Latest position of each driver someone is following, from the
+ * driver-location stream. A driver's stream is opened by the first
+ * holder (e.g. a trip share) that watches them and closed when the last
+ * one lets go; the last position is kept until then.
+ */
+class DriverLocationService {
+  private latest: Map<string, DriverLocation>;
+  private watches: Map<string, { stop: () => void; holders: Set<string> }>;
+
+  constructor() {
+    this.latest = new Map();
+    this.watches = new Map();
+  }
+
+  watch(driverId: string, holder: string): void {
+    const existing = this.watches.get(driverId);
+    if (existing) {
+      existing.holders.add(holder);
+      return;
+    }
+
+    const stop = apiClient.watchDriverLocation(driverId, (location) => this.latest.set(driverId, location));
+    this.watches.set(driverId, { stop, holders: new Set([holder]) });
+    logger.info('Watching driver location', { driverId, holder });
+  }
+
+  unwatch(driverId: string, holder: string): void {
+    const watch = this.watches.get(driverId);
+    if (!watch) return;
+
+    watch.holders.delete(holder);
+    if (watch.holders.size) return;
+
+    watch.stop();
+    this.watches.delete(driverId);
+    this.latest.delete(driverId);
+    logger.info('Stopped watching driver location', { driverId });
+  }
+
+  // undefined until the stream has reported the driver
+  getLatest(driverId: string): DriverLocation | undefined {
+    return this.latest.get(driverId);
+  }
+}
+
+export default new DriverLocationService();
@@ -0,0 +1,352 @@
+import { ChatMessage, Conversation, DriverRelay, DriverRelayCloseReason, Language, RelayReceipt } from '../types';
+import config from '../config';
+import logger from '../utils/logger';
+import apiClient from '../utils/apiClient';
+import catalog from '../i18n/catalog';
+import { conversationService } from './conversationService';
+
+// The driver's one-tap replies; the text is driverRelay.templates.<id>, in the rider's language
+export const DRIVER_RELAY_TEMPLATES = [
+  'on_my_way',
+  'two_min_away',
+  'at_entrance',
+  'arrived',
+  'running_late',
+  'cant_find_you',
+] as const;
+export type DriverRelayTemplate = typeof DRIVER_RELAY_TEMPLATES[number];
+
+// A relay for a booking in one of these closes
+const FINISHED_BOOKING_STATUSES = ['completed', 'cancelled'];
+
+type DriverRelayErrorReason = 'no_driver' | 'ride_over' | 'not_open' | 'not_your_ride';
+
+const REASON_MESSAGES: Record<DriverRelayErrorReason, string> = {
+  no_driver: 'The booking has no driver to chat with',
+  ride_over: 'The ride is already over',
+  not_open: 'There is no open chat with the driver in this conversation',
+  not_your_ride: 'This conversation is with another driver',
+};
+
+/**
+ * Raised when the relay can't take the step: no driver on the booking, the
+ * ride is over, the chat isn't open, or a driver acting on a conversation
+ * that isn't theirs.
+ */
+export class DriverRelayError extends Error {
+  reason: DriverRelayErrorReason;
+
+  constructor(reason: DriverRelayErrorReason) {
+    super(REASON_MESSAGES[reason]);
+    this.name = 'DriverRelayError';
+    this.reason = reason;
+  }
+}
+
+// Who is reading: the rider, or the relay's driver
+export type RelayReader = { role: 'rider' } | { role: 'driver'; driverId: string };
+
+/**
+ * Chat between the rider and their driver inside the conversation. The
+ * message_driver flow opens the relay; from then on what the rider types
+ * goes to the driver (ChatbotService hands it over) and the driver's
+ * replies, typed or one of DRIVER_RELAY_TEMPLATES, come back as `driver`
+ * messages. Both directions are pushed as notifications and carry a
+ * receipt in metadata.relay (sent → delivered → read).
+ *
+ * The rider can end the chat (the end_driver_chat flow); otherwise the
+ * relay closes once the booking completes or is cancelled: checked on
+ * every relayed message and, for every open relay (those stored before a
+ * restart too), every DRIVER_RELAY_CHECK_INTERVAL_MS.
+ */
+class DriverRelayService {
+  // Open relays the sweep looks at
+  private watched: Set<string>;
+  private checking: boolean;
+
+  constructor() {
+    this.watched = new Set();
+    this.checking = false;
+
+    // Relays left open before a restart
+    conversationService
+      .getOpenDriverRelays()
+      .then((conversationIds) => conversationIds.forEach((conversationId) => this.watched.add(conversationId)))
+      .catch((error) => logger.error('Open driver relays not loaded', { error }));
+
+    setInterval(
+      () => this.checkOpenRelays().catch((error) => logger.error('Driver relay check failed', { error })),
+      config.driverRelayCheckIntervalMs
+    ).unref();
+  }
+
+  templates(language: Language): Array<{ id: DriverRelayTemplate; text: string }> {
+    return DRIVER_RELAY_TEMPLATES.map((id) => ({ id, text: catalog.t(language, `driverRelay.templates.${id}`) }));
+  }
+
+  /**
+   * Open the relay with the booking's driver; an open one is kept as is.
+   * Throws DriverRelayError when there's no driver or the ride is over.
+   */
+  async open(conversationId: string): Promise<{ relay: DriverRelay; driverName?: string }> {
+    const conversation = await this.conversation(conversationId);
+
+    const booking = await apiClient.getBooking(conversation.bookingId).catch((error) => {
+      logger.warn('Booking unavailable for driver relay', { conversationId, bookingId: conversation.bookingId, error });
+      return undefined;
+    });
+    if (booking && FINISHED_BOOKING_STATUSES.includes(booking.status)) {
+      throw new DriverRelayError('ride_over');
+    }
+
+    const driverId = conversation.driverRelay?.status === 'open'
+      ? conversation.driverRelay.driverId
+      : booking?.driverId || conversation.driverId;
+    if (!driverId) {
+      throw new DriverRelayError('no_driver');
+    }
+    const driver = await apiClient.getDriver(driverId).catch(() => undefined);
+
+    if (conversation.driverRelay?.status === 'open') {
+      this.watched.add(conversationId);
+      return { relay: conversation.driverRelay, driverName: driver?.name };
+    }
+
+    const relay: DriverRelay = { status: 'open', driverId, openedAt: new Date() };
+    await conversationService.setDriverRelay(conversationId, relay);
+    this.watched.add(conversationId);
+
+    await apiClient
+      .sendNotification(driverId, `Your rider on booking ${conversation.bookingId} started a chat. Reply in the app.`, {
+        type: 'driver_relay_opened',
+        conversationId,
+        bookingId: conversation.bookingId,
+      })
+      .catch((error) => logger.warn('Driver relay notification failed', { conversationId, driverId, error }));
+
+    logger.info('Driver relay opened', { conversationId, driverId });
+    return { relay, driverName: driver?.name };
+  }
+
+  /**
+   * What the rider typed, to the driver: stored in the conversation (with
+   * `metadata`) and pushed. Null when the relay isn't open, or has just
+   * closed because the ride is over; the bot answers the message instead.
+   */
+  async relayFromRider(
+    conversationId: string,
+    text: string,
+    metadata: Record<string, any> = {}
+  ): Promise<ChatMessage | null> {
+    const conversation = await this.conversation(conversationId);
+    const relay = conversation.driverRelay;
+    if (relay?.status !== 'open' || (await this.closeIfRideOver(conversation))) return null;
+
+    const receipt: RelayReceipt = { status: 'sent' };
+    const message = await conversationService.addMessage(conversationId, 'user', text, { ...metadata, relay: receipt });
+    await this.push(message, relay.driverId, `Rider: ${text}`, {
+      type: 'driver_relay_message',
+      conversationId,
+      bookingId: conversation.bookingId,
+      messageId: message.id,
+    });
+
+    logger.info('Rider message relayed', { conversationId, driverId: relay.driverId, messageId: message.id });
+    return message;
+  }
+
+  /**
+   * The rider ends the chat. Throws DriverRelayError when there's no open
+   * chat to end.
+   */
+  async end(conversationId: string): Promise<DriverRelay> {
+    const conversation = await this.conversation(conversationId);
+    if (conversation.driverRelay?.status !== 'open') {
+      throw new DriverRelayError('not_open');
+    }
+    return this.close(conversation, 'rider_ended');
+  }
+
+  /**
+   * The driver's reply, typed or a template, as a `driver` message pushed
+   * to the rider.
+   */
+  async replyFromDriver(
+    conversationId: string,
+    driverId: string,
+    reply: { message?: string; template?: DriverRelayTemplate }
+  ): Promise<ChatMessage> {
+    const conversation = await this.conversation(conversationId);
+    const relay = this.assertDriver(conversation, driverId);
+    if (relay.status !== 'open') {
+      throw new DriverRelayError('not_open');
+    }
+    if (await this.closeIfRideOver(conversation)) {
+      throw new DriverRelayError('ride_over');
+    }
+
+    const text = reply.template
+      ? catalog.t(conversation.language, `driverRelay.templates.${reply.template}`)
+      : reply.message!;
+    const receipt: RelayReceipt = { status: 'sent', ...(reply.template ? { template: reply.template } : {}) };
+    const message = await conversationService.addMessage(conversationId, 'driver', text, { driverId, relay: receipt });
+    const notification = catalog.t(conversation.language, 'driverRelay.notification', { message: text });
+    await this.push(message, conversation.userId, notification, {
+      type: 'driver_relay_message',
+      conversationId,
+      bookingId: conversation.bookingId,
+      messageId: message.id,
+    });
+
+    logger.info('Driver replied', { conversationId, driverId, messageId: message.id, template: reply.template });
+    return message;
+  }
+
+  /**
+   * The relayed messages only (the driver doesn't see the rider's chat with
+   * the bot), oldest first. The rider's messages count as delivered once
+   * the driver has fetched them.
+   */
+  async getThread(conversationId: string, driverId: string): Promise<{ relay: DriverRelay; messages: ChatMessage[] }> {
+    const conversation = await this.conversation(conversationId);
+    const relay = this.assertDriver(conversation, driverId);
+
+    const messages = conversation.messages.filter((message) => message.metadata?.relay);
+    for (const message of messages.filter((candidate) => candidate.sender === 'user')) {
+      await this.advance(message, 'delivered');
+    }
+    return { relay, messages };
+  }
+
+  // The other side's messages are read; returns those that changed
+  async markRead(conversationId: string, reader: RelayReader): Promise<ChatMessage[]> {
+    const conversation = await this.conversation(conversationId);
+    if (reader.role === 'driver') {
+      this.assertDriver(conversation, reader.driverId);
+    } else if (!conversation.driverRelay) {
+      throw new DriverRelayError('not_open');
+    }
+
+    const from = reader.role === 'driver' ? 'user' : 'driver';
+    const unread = conversation.messages.filter(
+      (message) => message.sender === from && message.metadata?.relay && message.metadata.relay.status !== 'read'
+    );
+    for (const message of unread) {
+      await this.advance(message, 'read');
+    }
+    return unread;
+  }
+
+  // ────────────────────────────────────────────
+  // Closing
+  // ────────────────────────────────────────────
+
+  private async checkOpenRelays(): Promise<void> {
+    if (this.checking) return;
+    this.checking = true;
+
+    try {
+      for (const conversationId of [...this.watched]) {
+        const conversation = await conversationService.getConversation(conversationId);
+        if (conversation?.driverRelay?.status !== 'open') {
+          this.watched.delete(conversationId);
+          continue;
+        }
+        await this.closeIfRideOver(conversation);
+      }
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  // A booking lookup that fails leaves the relay open
+  private async closeIfRideOver(conversation: Conversation): Promise<boolean> {
+    const booking = await apiClient.getBooking(conversation.bookingId).catch((error) => {
+      logger.warn('Booking unavailable for driver relay', { conversationId: conversation.id, error });
+      return undefined;
+    });
+    if (!booking || !FINISHED_BOOKING_STATUSES.includes(booking.status)) return false;
+
+    await this.close(conversation, booking.status === 'completed' ? 'ride_completed' : 'ride_cancelled');
+    return true;
+  }
+
+  // The rider who ended the chat gets their answer from the end_driver_chat flow
+  private async close(conversation: Conversation, reason: DriverRelayCloseReason): Promise<DriverRelay> {
+    const relay = conversation.driverRelay!;
+    const closed: DriverRelay = { ...relay, status: 'closed', closedAt: new Date(), closeReason: reason };
+    await conversationService.setDriverRelay(conversation.id, closed);
+    this.watched.delete(conversation.id);
+
+    if (reason !== 'rider_ended') {
+      await conversationService.addMessage(
+        conversation.id,
+        'bot',
+        catalog.t(conversation.language, `driverRelay.closed.${reason}`),
+        { type: 'driver_relay_closed', reason, automated: true }
+      );
+    }
+    await apiClient
+      .sendNotification(relay.driverId, `The rider's chat for booking ${conversation.bookingId} has closed.`, {
+        type: 'driver_relay_closed',
+        conversationId: conversation.id,
+        reason,
+      })
+      .catch((error) => logger.warn('Driver relay notification failed', { conversationId: conversation.id, error }));
+
+    logger.info('Driver relay closed', { conversationId: conversation.id, driverId: relay.driverId, reason });
+    return closed;
+  }
+
+  // ────────────────────────────────────────────
+  // Receipts
+  // ────────────────────────────────────────────
+
+  // The push going out is the delivery; if it doesn't, fetching the thread is
+  private async push(message: ChatMessage, recipientId: string, notification: string, data: Record<string, any>): Promise<void> {
+    try {
+      await apiClient.sendNotification(recipientId, notification, data);
+      await this.advance(message, 'delivered');
+    } catch (error) {
+      logger.warn('Relayed message not pushed', { conversationId: message.conversationId, messageId: message.id, error });
+    }
+  }
+
+  // Receipts only move forward: read implies delivered
+  private async advance(message: ChatMessage, status: 'delivered' | 'read'): Promise<void> {
+    const receipt: RelayReceipt = message.metadata!.relay;
+    if (receipt.status === status || receipt.status === 'read') return;
+
+    const now = new Date();
+    message.metadata = {
+      ...message.metadata,
+      relay: {
+        ...receipt,
+        status,
+        deliveredAt: receipt.deliveredAt || now,
+        ...(status === 'read' ? { readAt: now } : {}),
+      },
+    };
+    await conversationService.updateMessage(message);
+  }
+
+  private assertDriver(conversation: Conversation, driverId: string): DriverRelay {
+    if (!conversation.driverRelay) {
+      throw new DriverRelayError('not_open');
+    }
+    if (conversation.driverRelay.driverId !== driverId) {
+      throw new DriverRelayError('not_your_ride');
+    }
+    return conversation.driverRelay;
+  }
+
+  private async conversation(conversationId: string): Promise<Conversation> {
+    const conversation = await conversationService.getConversation(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+    return conversation;
+  }
+}
+
+export default new DriverRelayService();
@@ -0,0 +1,169 @@
+import { EscalationRequest, SupportTicket } from '../types';
+import config from '../config';
+import logger from '../utils/logger';
+import apiClient from '../utils/apiClient';
+import catalog from '../i18n/catalog';
+import { conversationService, escalationService } from './conversationService';
+
+type Priority = EscalationRequest['priority'];
+
+const byPriority = (): Record<Priority, number> => ({ low: 0, medium: 0, high: 0, critical: 0 });
+
+export interface EscalationSlaMetrics {
+  // ESCALATION_SLA_*_MS
+  slaMs: Record<Priority, number>;
+  // Since the server started; by the priority the ticket had when it breached
+  breaches: { total: number; byPriority: Record<Priority, number> };
+  // Since the server started: tickets agents claimed, and how many in time
+  claims: { total: number; withinSla: number };
+  // Waiting for an agent right now
+  open: { total: number; overdue: number; oldestWaitMs: number };
+}
+
+/**
+ * Holds support tickets to their SLA. A ticket an agent hasn't claimed
+ * within its priority's ESCALATION_SLA_*_MS moves up a priority with a
+ * fresh SLA (EscalationService.breachSla), the supervisor is notified
+ * (an 'sla_breached' callback registered here) and the rider is told
+ * they've been moved up the queue. A critical ticket keeps breaching
+ * while it waits; the supervisor hears about that once, not every SLA.
+ *
+ * Open tickets are checked every ESCALATION_SLA_CHECK_INTERVAL_MS, so a
+ * breach is noticed up to that late. Metrics are in memory.
+ */
+class EscalationSlaService {
+  private checking: boolean;
+  private breaches: EscalationSlaMetrics['breaches'];
+  private claims: EscalationSlaMetrics['claims'];
+  // Tickets counted in `claims`: a claimed ticket is updated again as escalations are linked to it
+  private claimed: Set<string>;
+  // Critical tickets the supervisor has been told are still waiting
+  private pagedCritical: Set<string>;
+
+  constructor() {
+    this.checking = false;
+    this.breaches = { total: 0, byPriority: byPriority() };
+    this.claims = { total: 0, withinSla: 0 };
+    this.claimed = new Set();
+    this.pagedCritical = new Set();
+
+    if (config.enableEscalationSla) {
+      escalationService.registerCallback('sla_breached', (breach: { ticket: SupportTicket; previousPriority: Priority }) =>
+        this.notifySupervisor(breach.ticket, breach.previousPriority)
+      );
+      escalationService.registerCallback('ticket_updated', (ticket: SupportTicket) => {
+        // Picked up or closed: if it ends up waiting again, that's news
+        if (ticket.status !== 'open') this.pagedCritical.delete(ticket.id);
+        this.recordClaim(ticket);
+      });
+      setInterval(
+        () => this.checkTickets().catch((error) => logger.error('Escalation SLA check failed', { error })),
+        config.escalationSlaCheckIntervalMs
+      ).unref();
+    }
+  }
+
+  async getMetrics(): Promise<EscalationSlaMetrics> {
+    const now = Date.now();
+    const open = await escalationService.findTickets({ statuses: ['open'] });
+
+    return {
+      slaMs: { ...config.escalationSlaMs },
+      breaches: { total: this.breaches.total, byPriority: { ...this.breaches.byPriority } },
+      claims: { ...this.claims },
+      open: {
+        total: open.length,
+        overdue: open.filter((ticket) => this.dueAt(ticket) <= now).length,
+        oldestWaitMs: open.reduce((oldest, ticket) => Math.max(oldest, now - ticket.createdAt.getTime()), 0),
+      },
+    };
+  }
+
+  private async checkTickets(): Promise<void> {
+    // A slow check mustn't overlap the next one and breach a ticket twice
+    if (this.checking) return;
+    this.checking = true;
+
+    try {
+      const now = Date.now();
+      const open = await escalationService.findTickets({ statuses: ['open'] });
+      for (const ticket of open) {
+        if (this.dueAt(ticket) > now) continue;
+
+        // Null if an agent claimed it since
+        const breach = await escalationService.breachSla(ticket.id);
+        if (!breach) continue;
+
+        this.breaches.total++;
+        this.breaches.byPriority[breach.previousPriority]++;
+        // Once critical there's nothing new to tell the rider
+        if (breach.ticket.priority !== breach.previousPriority) {
+          await this.updateRider(breach.ticket);
+        }
+      }
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  // Tickets from before SLAs were tracked have no due date
+  private dueAt(ticket: SupportTicket): number {
+    return ticket.slaDueAt
+      ? ticket.slaDueAt.getTime()
+      : ticket.createdAt.getTime() + config.escalationSlaMs[ticket.priority];
+  }
+
+  private async updateRider(ticket: SupportTicket): Promise<void> {
+    const conversation = await conversationService.getConversation(ticket.conversationId);
+    // Nothing to say in a finished conversation, and nothing while an agent has it
+    if (!conversation || ['resolved', 'closed'].includes(conversation.status) || conversation.supportAgentId) return;
+
+    await conversationService.addMessage(
+      ticket.conversationId,
+      'bot',
+      catalog.t(conversation.language, 'chat.agentDelayed', { ticket: this.shortTicket(ticket.id) }),
+      { intent: 'escalation_sla', ticketId: ticket.id, priority: ticket.priority, automated: true }
+    );
+  }
+
+  private async notifySupervisor(ticket: SupportTicket, previousPriority: Priority): Promise<void> {
+    // Already critical: paged the first time it breached as critical only
+    if (previousPriority === ticket.priority) {
+      if (this.pagedCritical.has(ticket.id)) return;
+      this.pagedCritical.add(ticket.id);
+    }
+
+    const message =
+      `Ticket #${this.shortTicket(ticket.id)} has waited past its ${previousPriority} SLA ` +
+      `(breach ${ticket.slaBreaches}); now ${ticket.priority}.`;
+
+    await apiClient
+      .sendNotification(config.escalationSupervisorId, message, {
+        type: 'escalation_sla_breached',
+        ticketId: ticket.id,
+        conversationId: ticket.conversationId,
+        previousPriority,
+        priority: ticket.priority,
+        breaches: ticket.slaBreaches,
+      })
+      .catch((error) => logger.warn('SLA breach notification failed', { ticketId: ticket.id, error }));
+  }
+
+  // An agent claimed it (status open → in_progress); the SLA clock stops
+  private recordClaim(ticket: SupportTicket): void {
+    if (ticket.status !== 'in_progress' || !ticket.assignedAgent || this.claimed.has(ticket.id)) return;
+
+    this.claimed.add(ticket.id);
+    this.claims.total++;
+    if (!ticket.slaBreaches && Date.now() <= this.dueAt(ticket)) {
+      this.claims.withinSla++;
+    }
+  }
+
+  // As the rider sees it (see ChatbotService.handleSafetyEscalation)
+  private shortTicket(ticketId: string): string {
+    return ticketId.substring(0, 8).toUpperCase();
+  }
+}
+
+export default new EscalationSlaService();
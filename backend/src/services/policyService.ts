@@ -0,0 +1,188 @@
+import fs from 'fs';
+import {
+  BookingDetails,
+  CancellationPolicyDecision,
+  CancellationPolicyRule,
+  DelayPolicyDecision,
+  DelayPolicyRule,
+  Driver,
+  PolicyRuleMatch,
+  PolicyRules,
+} from '../types';
+import logger from '../utils/logger';
+import config from '../config';
+
+const BOOKING_STATUSES = ['confirmed', 'in_progress', 'arrived', 'completed', 'cancelled'];
+
+/**
+ * Raised when the policy file is missing or invalid; lists every problem found.
+ */
+export class PolicyValidationError extends Error {
+  problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid policy rules:\n  - ${problems.join('\n  - ')}`);
+    this.name = 'PolicyValidationError';
+    this.problems = problems;
+  }
+}
+
+// "$24.50", "24.5", 24.5 → 24.5; anything else → null
+function parseAmount(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const parsed = parseFloat(value.replace(/[^0-9.]/g, ''));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function validateMatch(where: string, rule: PolicyRuleMatch, problems: string[]): void {
+  if (rule.rideType !== undefined && !Array.isArray(rule.rideType)) {
+    problems.push(`${where}: rideType must be an array`);
+  }
+  if (rule.status !== undefined) {
+    if (!Array.isArray(rule.status)) {
+      problems.push(`${where}: status must be an array`);
+    } else {
+      rule.status
+        .filter((status) => !BOOKING_STATUSES.includes(status))
+        .forEach((status) => problems.push(`${where}: unknown booking status "${status}"`));
+    }
+  }
+  for (const bound of ['minMinutesSinceAssignment', 'maxMinutesSinceAssignment'] as const) {
+    if (rule[bound] !== undefined && typeof rule[bound] !== 'number') {
+      problems.push(`${where}: ${bound} must be a number`);
+    }
+  }
+}
+
+function validateRules(rules: any): PolicyRules {
+  const problems: string[] = [];
+
+  if (!rules || typeof rules !== 'object') {
+    throw new PolicyValidationError(['expected an object with "cancellation" and "delay" rules']);
+  }
+  if (typeof rules.currency !== 'string') {
+    problems.push('missing "currency"');
+  }
+
+  for (const section of ['cancellation', 'delay']) {
+    const list = rules[section];
+    if (!Array.isArray(list) || list.length === 0) {
+      problems.push(`"${section}" needs at least one rule`);
+      continue;
+    }
+
+    list.forEach((rule: any, index: number) => {
+      const where = `${section}[${index}]${rule?.id ? ` (${rule.id})` : ''}`;
+      if (typeof rule?.id !== 'string') problems.push(`${where}: missing "id"`);
+      validateMatch(where, rule || {}, problems);
+
+      if (section === 'cancellation' && rule?.allowed !== false && typeof rule?.fee !== 'number') {
+        problems.push(`${where}: cancellable rules need a numeric "fee"`);
+      }
+      if (section === 'delay' && typeof rule?.lateThresholdMinutes !== 'number') {
+        problems.push(`${where}: "lateThresholdMinutes" must be a number`);
+      }
+    });
+
+    // Without a catch-all some bookings would have no policy at all
+    const last = list[list.length - 1] || {};
+    if (last.rideType || last.status || last.minMinutesSinceAssignment !== undefined ||
+      last.maxMinutesSinceAssignment !== undefined) {
+      problems.push(`"${section}": the last rule must match every booking`);
+    }
+  }
+
+  if (problems.length) {
+    throw new PolicyValidationError(problems);
+  }
+  return rules as PolicyRules;
+}
+
+/**
+ * Cancellation fee / refund and driver-late thresholds, from rules keyed by
+ * ride type, booking status and minutes since the driver was assigned.
+ * The flows and ChatbotService.enrichResponse both go through here so the
+ * bot quotes one policy.
+ */
+class PolicyService {
+  private rules: PolicyRules;
+
+  constructor() {
+    this.rules = this.loadRules(config.policiesFile);
+  }
+
+  private loadRules(filePath: string): PolicyRules {
+    if (!fs.existsSync(filePath)) {
+      throw new PolicyValidationError([`policy file not found: ${filePath}`]);
+    }
+
+    const rules = validateRules(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+    logger.info('Policy rules loaded', {
+      policiesFile: filePath,
+      cancellationRules: rules.cancellation.length,
+      delayRules: rules.delay.length,
+    });
+    return rules;
+  }
+
+  evaluateCancellation(booking?: Partial<BookingDetails>): CancellationPolicyDecision {
+    const minutesSinceAssignment = this.minutesSinceAssignment(booking);
+    const rule = this.firstMatch(this.rules.cancellation, booking, minutesSinceAssignment);
+    const allowed = rule.allowed !== false;
+    const fee = allowed ? rule.fee || 0 : 0;
+    const fare = parseAmount(booking?.estimatedFare);
+    const refund = allowed && fare !== null ? Math.max(fare - fee, 0) : null;
+
+    return {
+      ruleId: rule.id,
+      allowed,
+      isFree: allowed && fee === 0,
+      fee,
+      refund,
+      freeWindowMinutes: allowed && fee === 0 ? rule.maxMinutesSinceAssignment ?? null : null,
+      minutesSinceAssignment,
+      formatted: {
+        fee: this.formatAmount(fee),
+        refund: refund !== null ? this.formatAmount(refund) : undefined,
+      },
+    };
+  }
+
+  evaluateDelay(booking?: Partial<BookingDetails>, driver?: Partial<Driver>): DelayPolicyDecision {
+    const rule = this.firstMatch(this.rules.delay, booking, this.minutesSinceAssignment(booking));
+    return {
+      ruleId: rule.id,
+      lateThresholdMinutes: rule.lateThresholdMinutes,
+      isLate: (driver?.eta ?? 0) > rule.lateThresholdMinutes,
+    };
+  }
+
+  formatAmount(amount: number): string {
+    return `${this.rules.currency}${amount.toFixed(2)}`;
+  }
+
+  // Falls back to the booking time when the source doesn't report assignment
+  private minutesSinceAssignment(booking?: Partial<BookingDetails>): number {
+    const since = booking?.driverAssignedAt || booking?.createdAt;
+    if (!since) return 0;
+    return Math.max(0, (Date.now() - new Date(since).getTime()) / 60000);
+  }
+
+  private firstMatch<T extends PolicyRuleMatch>(
+    rules: T[],
+    booking: Partial<BookingDetails> | undefined,
+    minutes: number
+  ): T {
+    const match = rules.find((rule) =>
+      (!rule.rideType || rule.rideType.includes(booking?.rideType || '')) &&
+      (!rule.status || (!!booking?.status && rule.status.includes(booking.status))) &&
+      (rule.minMinutesSinceAssignment === undefined || minutes >= rule.minMinutesSinceAssignment) &&
+      (rule.maxMinutesSinceAssignment === undefined || minutes < rule.maxMinutesSinceAssignment)
+    );
+    // validateRules guarantees a catch-all last rule
+    return match || rules[rules.length - 1];
+  }
+}
+
+export default new PolicyService();
@@ -0,0 +1,262 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ChatMessage,
+  EscalationRequest,
+  IntentResult,
+  IntentTrainingJob,
+  Language,
+  ReviewCluster,
+  ReviewItem,
+  ReviewSource,
+  ReviewStatus,
+} from '../types';
+import logger from '../utils/logger';
+import intentDetector from '../nlp/intentDetector';
+import { normalizePhrase } from '../nlp/corpus';
+import { createRepositories, ReviewFilter, ReviewQueueRepository } from '../repositories';
+import { escalationService } from './conversationService';
+
+// Rider messages before an escalation that are worth a look; older ones
+// were usually answered fine
+const ESCALATION_LOOKBACK = 3;
+const DEFAULT_CLUSTER_SIMILARITY = 0.5;
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (!a.size && !b.size) return 1;
+  let shared = 0;
+  a.forEach((token) => b.has(token) && shared++);
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Collects rider utterances the bot did not resolve — answered 'unknown'
+ * or followed by an escalation — so staff can label them and promote them
+ * into the intent training corpus (see NLPService.addUtterances).
+ */
+class ReviewQueueService {
+  private repository: ReviewQueueRepository;
+
+  constructor(repository: ReviewQueueRepository) {
+    this.repository = repository;
+    escalationService.registerCallback('escalation_created', (request: EscalationRequest) =>
+      this.captureEscalation(request)
+    );
+  }
+
+  // ────────────────────────────────────────────
+  // Capture
+  // ────────────────────────────────────────────
+  async captureUnknown(conversationId: string, text: string, intentResult: IntentResult): Promise<void> {
+    await this.capture({
+      text,
+      source: 'unknown',
+      conversationId,
+      language: intentResult.language || 'en',
+      confidence: intentResult.confidence,
+      candidates: intentResult.candidates,
+    });
+  }
+
+  // The last few typed rider messages before the escalation, with the intent
+  // the bot answered each one with. Quick-action taps, yes/no answers and
+  // messages already queued as 'unknown' are skipped.
+  private async captureEscalation(request: EscalationRequest): Promise<void> {
+    const transcript: ChatMessage[] = request.context?.chatTranscript || [];
+
+    const candidates = transcript
+      .map((message, index) => ({ message, reply: transcript.slice(index + 1).find((m) => m.sender === 'bot') }))
+      .filter(({ message, reply }) =>
+        message.sender === 'user' &&
+        !message.metadata?.quickAction &&
+        !reply?.metadata?.confirmation &&
+        reply?.metadata?.intent !== 'unknown'
+      )
+      .slice(-ESCALATION_LOOKBACK);
+
+    for (const { message, reply } of candidates) {
+      await this.capture({
+        text: message.message,
+        source: 'escalated',
+        conversationId: request.conversationId,
+        language: reply?.metadata?.language || 'en',
+        predictedIntent: reply?.metadata?.intent || message.metadata?.intent,
+        confidence: reply?.metadata?.confidence ?? 0,
+        escalationType: request.escalationType,
+      });
+    }
+  }
+
+  private async capture(fields: {
+    text: string;
+    source: ReviewSource;
+    conversationId: string;
+    language: Language;
+    predictedIntent?: string;
+    confidence: number;
+    candidates?: ReviewItem['candidates'];
+    escalationType?: ReviewItem['escalationType'];
+  }): Promise<void> {
+    const normalizedText = normalizePhrase(fields.text);
+    if (!normalizedText) return;
+
+    try {
+      const existing = await this.repository.findOpenByText(normalizedText);
+      if (existing) {
+        existing.occurrences++;
+        existing.updatedAt = new Date();
+        await this.repository.updateItem(existing);
+        return;
+      }
+
+      const now = new Date();
+      await this.repository.insertItem({
+        id: uuidv4(),
+        ...fields,
+        normalizedText,
+        status: 'pending',
+        occurrences: 1,
+        createdAt: now,
+        updatedAt: now,
+      });
+      logger.info('Utterance queued for review', {
+        source: fields.source,
+        conversationId: fields.conversationId,
+      });
+    } catch (error) {
+      // The rider's reply never depends on the review queue
+      logger.error('Could not queue utterance for review', { error, source: fields.source });
+    }
+  }
+
+  // ────────────────────────────────────────────
+  // Review
+  // ────────────────────────────────────────────
+  async listItems(filter: ReviewFilter = {}): Promise<ReviewItem[]> {
+    return this.repository.findItems(filter);
+  }
+
+  async getItem(itemId: string): Promise<ReviewItem | null> {
+    return this.repository.findItem(itemId);
+  }
+
+  /**
+   * Group open (pending) items whose stemmed words overlap by at least
+   * `similarity` (Jaccard) with the cluster's first, most frequent item.
+   */
+  async getClusters(similarity: number = DEFAULT_CLUSTER_SIMILARITY): Promise<ReviewCluster[]> {
+    const items = (await this.repository.findItems({ statuses: ['pending'] }))
+      .sort((a, b) => b.occurrences - a.occurrences);
+
+    const clusters: Array<{ tokens: Set<string>; items: ReviewItem[] }> = [];
+    for (const item of items) {
+      const tokens = new Set(intentDetector.tokenize(item.text, item.language));
+      const cluster = clusters.find((candidate) => jaccard(candidate.tokens, tokens) >= similarity);
+      if (cluster) {
+        cluster.items.push(item);
+      } else {
+        clusters.push({ tokens, items: [item] });
+      }
+    }
+
+    return clusters
+      .map(({ items: members }) => ({
+        id: members[0].id,
+        text: members[0].text,
+        size: members.reduce((sum, item) => sum + item.occurrences, 0),
+        suggestedIntent: this.suggestIntent(members),
+        items: members,
+      }))
+      .sort((a, b) => b.size - a.size);
+  }
+
+  private suggestIntent(items: ReviewItem[]): string | undefined {
+    const votes = new Map<string, number>();
+    for (const item of items) {
+      const guess = item.candidates?.[0]?.intent || item.predictedIntent;
+      if (guess && guess !== 'unknown') {
+        votes.set(guess, (votes.get(guess) || 0) + item.occurrences);
+      }
+    }
+    return [...votes].sort((a, b) => b[1] - a[1])[0]?.[0];
+  }
+
+  /**
+   * Label (or, with intent null, dismiss) open items. Returns the items
+   * changed; ids that don't exist or are already promoted are skipped.
+   */
+  async labelItems(itemIds: string[], intent: string | null, labelledBy: string): Promise<ReviewItem[]> {
+    const updated: ReviewItem[] = [];
+
+    for (const itemId of itemIds) {
+      const item = await this.repository.findItem(itemId);
+      if (!item || !(['pending', 'labelled', 'dismissed'] as ReviewStatus[]).includes(item.status)) continue;
+
+      item.status = intent ? 'labelled' : 'dismissed';
+      item.label = intent || undefined;
+      item.labelledBy = labelledBy;
+      item.updatedAt = new Date();
+      await this.repository.updateItem(item);
+      updated.push(item);
+    }
+
+    logger.info('Review items labelled', { count: updated.length, intent, labelledBy });
+    return updated;
+  }
+
+  /**
+   * Add labelled items in `language` to its training corpus and retrain. Items stay
+   * 'promoting' until the training job finishes: 'promoted' if the new model
+   * went live, back to 'labelled' if it was rejected. Throws
+   * TrainingInProgressError while another job is running.
+   */
+  async promote(
+    itemIds: string[] | undefined,
+    requestedBy: string,
+    language: Language = 'en'
+  ): Promise<{ job: IntentTrainingJob | null; items: ReviewItem[] }> {
+    const labelled = await this.repository.findItems({ statuses: ['labelled'], language });
+    const items = itemIds ? labelled.filter((item) => itemIds.includes(item.id)) : labelled;
+    if (!items.length) return { job: null, items };
+
+    const job = intentDetector.addUtterances(
+      language,
+      items.map((item) => ({ text: item.text, intent: item.label! })),
+      requestedBy,
+      `Promoted ${items.length} reviewed utterance(s)`
+    );
+
+    // Every phrase was already in the corpus: nothing to train
+    if (!job) {
+      await this.finishPromotion(items, 'promoted', intentDetector.getModelInfo(language).corpusVersion);
+      return { job, items };
+    }
+
+    await this.finishPromotion(items, 'promoting', job.corpusVersion, job.id);
+    intentDetector.whenFinished(job.id)?.then((finished) =>
+      this.finishPromotion(
+        items,
+        finished.status === 'active' ? 'promoted' : 'labelled',
+        finished.status === 'active' ? finished.corpusVersion : undefined,
+        finished.id
+      ).catch((error) => logger.error('Could not update promoted review items', { error, jobId: job.id }))
+    );
+    return { job, items };
+  }
+
+  private async finishPromotion(
+    items: ReviewItem[],
+    status: ReviewStatus,
+    corpusVersion?: number,
+    trainingJobId?: string
+  ): Promise<void> {
+    for (const item of items) {
+      item.status = status;
+      item.corpusVersion = corpusVersion;
+      item.trainingJobId = trainingJobId;
+      item.updatedAt = new Date();
+      await this.repository.updateItem(item);
+    }
+  }
+}
+
+export default new ReviewQueueService(createRepositories().reviewQueue);
@@ -0,0 +1,354 @@
+import { BookingDetails, Conversation, Language, RideAnomaly } from '../types';
+import config from '../config';
+import logger from '../utils/logger';
+import apiClient from '../utils/apiClient';
+import catalog from '../i18n/catalog';
+import driverLocationService from './driverLocationService';
+import safetyDetectionService from './safetyDetection';
+import safetyIncidentService from './safetyIncidentService';
+import { conversationService, escalationService } from './conversationService';
+
+const MINUTE_MS = 60 * 1000;
+const EARTH_RADIUS_METERS = 6371000;
+// Stopping this close to the pickup or dropoff is expected
+const ENDPOINT_RADIUS_METERS = 300;
+// The driver counts as stopped while they stay within this distance
+const STOP_RADIUS_METERS = 50;
+// Off the route on this many checks in a row, so one bad GPS fix doesn't count
+const DEVIATION_CHECKS = 2;
+// The rider's yes/no answer resumes this flow (data/flows/ride_check_in.yaml)
+const CHECK_IN_FLOW = 'ride_check_in';
+const FINISHED_BOOKING_STATUSES = ['completed', 'cancelled'];
+// A ride whose booking can't be looked up for this long is dropped, finished or not
+const BOOKING_UNAVAILABLE_MS = 30 * MINUTE_MS;
+
+type Point = { lat: number; lng: number };
+
+interface MonitoredRide {
+  conversationId: string;
+  bookingId: string;
+  userId: string;
+  driverId?: string;
+  // Last time the booking lookup answered
+  bookingSeenAt: number;
+  // Consecutive checks with the driver beyond RIDE_DEVIATION_METERS
+  offRouteChecks: number;
+  // Where the driver has been standing since when
+  stop?: Point & { since: number };
+  // One check-in per anomaly per ride
+  checkedIn: Set<RideAnomaly>;
+  checkIn?: { anomaly: RideAnomaly; askedAt: Date; timer: NodeJS.Timeout };
+  // Ticket of the safety escalation; the ride is no longer checked after one
+  escalatedTo?: string;
+}
+
+// Metres east (x) and north (y) of `origin`; accurate enough over a city-sized trip
+const project = (point: Point, origin: Point) => ({
+  x: ((point.lng - origin.lng) * Math.PI / 180) * Math.cos((origin.lat * Math.PI) / 180) * EARTH_RADIUS_METERS,
+  y: ((point.lat - origin.lat) * Math.PI / 180) * EARTH_RADIUS_METERS,
+});
+
+const distanceMeters = (a: Point, b: Point) => {
+  const { x, y } = project(b, a);
+  return Math.hypot(x, y);
+};
+
+// Distance from `point` to the straight line between `start` and `end`
+const distanceToSegmentMeters = (point: Point, start: Point, end: Point) => {
+  const p = project(point, start);
+  const e = project(end, start);
+  const lengthSq = e.x * e.x + e.y * e.y;
+  const t = lengthSq ? Math.max(0, Math.min(1, (p.x * e.x + p.y * e.y) / lengthSq)) : 0;
+  return Math.hypot(p.x - t * e.x, p.y - t * e.y);
+};
+
+/**
+ * Watches in-progress rides through the driver-location stream. When the
+ * driver strays more than RIDE_DEVIATION_METERS from the pickup → dropoff
+ * line, or stands still for RIDE_LONG_STOP_MINUTES away from both ends,
+ * the bot asks the rider whether everything is okay (in the conversation
+ * and by notification). "No", or no reply at all within
+ * RIDE_CHECK_IN_TIMEOUT_MS, escalates to safety.
+ *
+ * Rides are tracked from the conversation's start until the booking
+ * finishes, or its lookup has failed for BOOKING_UNAVAILABLE_MS; the
+ * state is in memory, so a restart stops monitoring the rides already
+ * under way.
+ */
+class RideMonitorService {
+  private rides: Map<string, MonitoredRide>;
+
+  constructor() {
+    this.rides = new Map();
+    if (config.enableRideMonitor) {
+      setInterval(
+        () => this.checkRides().catch((error) => logger.error('Ride monitor check failed', { error })),
+        config.rideMonitorIntervalMs
+      ).unref();
+    }
+  }
+
+  track(conversation: Conversation): void {
+    if (!config.enableRideMonitor || this.rides.has(conversation.id)) return;
+
+    this.rides.set(conversation.id, {
+      conversationId: conversation.id,
+      bookingId: conversation.bookingId,
+      userId: conversation.userId,
+      driverId: conversation.driverId,
+      bookingSeenAt: Date.now(),
+      offRouteChecks: 0,
+      checkedIn: new Set(),
+    });
+    logger.info('Ride monitoring started', { conversationId: conversation.id, bookingId: conversation.bookingId });
+  }
+
+  /**
+   * The rider's answer to the check-in (from the ride_check_in flow).
+   * "Okay" stops the timeout; "not okay" escalates unless that already
+   * happened. `ticket` is the escalation's short ticket reference.
+   */
+  async answerCheckIn(conversationId: string, okay: boolean): Promise<{ escalated: boolean; ticket?: string }> {
+    const ride = this.rides.get(conversationId);
+    if (ride?.checkIn) {
+      clearTimeout(ride.checkIn.timer);
+    }
+
+    let ticketId = ride?.escalatedTo;
+    if (!okay && !ticketId) {
+      ticketId = await this.escalate(conversationId, ride?.checkIn?.anomaly, 'rider_not_okay');
+    }
+    if (ride) {
+      ride.checkIn = undefined;
+    }
+
+    logger.info('Ride check-in answered', { conversationId, okay, escalated: !!ticketId });
+    return { escalated: !!ticketId, ticket: ticketId && this.shortTicket(ticketId) };
+  }
+
+  // ────────────────────────────────────────────
+  // Checks
+  // ────────────────────────────────────────────
+  private async checkRides(): Promise<void> {
+    for (const ride of [...this.rides.values()]) {
+      await this.checkRide(ride).catch((error) =>
+        logger.error('Ride check failed', { conversationId: ride.conversationId, error })
+      );
+    }
+  }
+
+  private async checkRide(ride: MonitoredRide): Promise<void> {
+    const booking = await apiClient.getBooking(ride.bookingId).catch((error) => {
+      logger.warn('Booking unavailable for ride monitor', { bookingId: ride.bookingId, error });
+      return undefined;
+    });
+    if (!booking) {
+      if (Date.now() - ride.bookingSeenAt >= BOOKING_UNAVAILABLE_MS) {
+        logger.warn('Booking unavailable too long, ride no longer monitored', {
+          conversationId: ride.conversationId,
+          bookingId: ride.bookingId,
+        });
+        this.stop(ride);
+      }
+      return;
+    }
+    ride.bookingSeenAt = Date.now();
+    if (FINISHED_BOOKING_STATUSES.includes(booking.status)) {
+      this.stop(ride);
+      return;
+    }
+    if (booking.status !== 'in_progress' || ride.checkIn || ride.escalatedTo) return;
+
+    const driverId = booking.driverId || ride.driverId;
+    if (!driverId) return;
+    if (ride.driverId !== driverId) {
+      if (ride.driverId) driverLocationService.unwatch(ride.driverId, ride.conversationId);
+      ride.driverId = driverId;
+    }
+    // No-op once watching
+    driverLocationService.watch(driverId, ride.conversationId);
+
+    const location = driverLocationService.getLatest(driverId);
+    if (!location) return;
+
+    const found = this.detect(ride, booking, location);
+    if (found && !ride.checkedIn.has(found.anomaly)) {
+      await this.checkIn(ride, found.anomaly, found.details);
+    }
+  }
+
+  private detect(
+    ride: MonitoredRide,
+    booking: BookingDetails,
+    location: Point
+  ): { anomaly: RideAnomaly; details: Record<string, number> } | null {
+    const { pickupCoordinates: pickup, dropoffCoordinates: dropoff } = booking;
+
+    if (pickup && dropoff) {
+      const offRouteMeters = distanceToSegmentMeters(location, pickup, dropoff);
+      ride.offRouteChecks = offRouteMeters > config.rideDeviationMeters ? ride.offRouteChecks + 1 : 0;
+      if (ride.offRouteChecks >= DEVIATION_CHECKS) {
+        return { anomaly: 'route_deviation', details: { offRouteMeters: Math.round(offRouteMeters) } };
+      }
+    }
+
+    if (!ride.stop || distanceMeters(ride.stop, location) > STOP_RADIUS_METERS) {
+      ride.stop = { lat: location.lat, lng: location.lng, since: Date.now() };
+      return null;
+    }
+    const nearEndpoint = [pickup, dropoff].some(
+      (endpoint) => endpoint && distanceMeters(endpoint, location) <= ENDPOINT_RADIUS_METERS
+    );
+    const stoppedMinutes = (Date.now() - ride.stop.since) / MINUTE_MS;
+    if (!nearEndpoint && stoppedMinutes >= config.rideLongStopMinutes) {
+      return { anomaly: 'long_stop', details: { stoppedMinutes: Math.round(stoppedMinutes) } };
+    }
+    return null;
+  }
+
+  // ────────────────────────────────────────────
+  // Check-in and escalation
+  // ────────────────────────────────────────────
+  private async checkIn(ride: MonitoredRide, anomaly: RideAnomaly, details: Record<string, number>): Promise<void> {
+    const conversation = await conversationService.getConversation(ride.conversationId);
+    if (!conversation || conversation.status === 'closed') {
+      this.stop(ride);
+      return;
+    }
+    // The bot stays silent while a support agent has the conversation; asked once they hand it back
+    if (conversation.supportAgentId) return;
+
+    const language: Language = conversation.language;
+    const message = catalog.t(language, `rideMonitor.checkIn.${anomaly}`);
+    const askedAt = new Date();
+
+    await conversationService.addMessage(ride.conversationId, 'bot', message, {
+      intent: CHECK_IN_FLOW,
+      anomaly,
+      ...details,
+      automated: true,
+      language,
+    });
+    // "yes" / "no" resume the ride_check_in flow like any pending question
+    const dialogState = conversation.dialogState || { slots: {} };
+    await conversationService.updateDialogState(ride.conversationId, {
+      ...dialogState,
+      activeFlow: CHECK_IN_FLOW,
+      pendingConfirmation: { flow: CHECK_IN_FLOW, onConfirm: 'okay', onDeny: 'not_okay', askedAt },
+    });
+    // The rider may not have the chat open
+    await apiClient
+      .sendNotification(ride.userId, message, { type: 'ride_check_in', conversationId: ride.conversationId })
+      .catch((error) => logger.warn('Ride check-in notification failed', { conversationId: ride.conversationId, error }));
+
+    ride.checkedIn.add(anomaly);
+    ride.checkIn = {
+      anomaly,
+      askedAt,
+      timer: setTimeout(
+        () => this.checkInExpired(ride).catch((error) =>
+          logger.error('Ride check-in timeout failed', { conversationId: ride.conversationId, error })
+        ),
+        config.rideCheckInTimeoutMs
+      ),
+    };
+
+    logger.warn('Ride check-in sent', { conversationId: ride.conversationId, anomaly, ...details });
+  }
+
+  // Any message from the rider since the check-in counts as a reply
+  private async checkInExpired(ride: MonitoredRide): Promise<void> {
+    const checkIn = ride.checkIn;
+    if (!checkIn) return;
+
+    const messages = await conversationService.getMessages(ride.conversationId);
+    const replied = messages.some(
+      (message) => message.sender === 'user' && new Date(message.timestamp) > checkIn.askedAt
+    );
+    ride.checkIn = undefined;
+    if (replied) return;
+
+    const ticketId = await this.escalate(ride.conversationId, checkIn.anomaly, 'no_response');
+    const conversation = await conversationService.getConversation(ride.conversationId);
+    const language: Language = conversation?.language || 'en';
+    await conversationService.addMessage(
+      ride.conversationId,
+      'bot',
+      catalog.t(language, 'rideMonitor.noResponse', { ticket: this.shortTicket(ticketId) }),
+      { intent: CHECK_IN_FLOW, escalated: true, ticketId, automated: true, language }
+    );
+  }
+
+  /**
+   * Open a safety ticket for the ride, like a safety concern the rider
+   * typed, with the anomaly and the reason recorded on the safety event.
+   * Returns the ticket id.
+   */
+  private async escalate(
+    conversationId: string,
+    anomaly: RideAnomaly | undefined,
+    reason: 'no_response' | 'rider_not_okay'
+  ): Promise<string> {
+    const conversation = await conversationService.getConversation(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+    const ride = this.rides.get(conversationId);
+    const driverId = ride?.driverId || conversation.driverId;
+
+    // The rider saying they're not okay is worse than not hearing back
+    const safetyEvent = safetyDetectionService.recordRideAnomaly(
+      anomaly,
+      reason,
+      reason === 'rider_not_okay' ? 'critical' : 'high',
+      conversationId,
+      conversation.userId,
+      driverId
+    );
+    await safetyIncidentService.recordDetected(safetyEvent);
+
+    const escalationRequest = await escalationService.createEscalationRequest(
+      conversationId,
+      conversation.bookingId,
+      conversation.userId,
+      'safety',
+      `URGENT Ride check-in: ${anomaly || 'check-in'} (${reason})`,
+      {
+        safetyEvent,
+        anomaly,
+        reason,
+        driverId,
+        chatTranscript: await conversationService.getMessages(conversationId),
+      }
+    );
+    const ticket = await escalationService.createSupportTicket(
+      escalationRequest.id,
+      conversationId,
+      conversation.userId
+    );
+    await conversationService.escalateConversation(conversationId, 'safety', undefined, ticket.id);
+    await safetyIncidentService.markEscalated(safetyEvent, ticket.id);
+
+    if (ride) {
+      ride.escalatedTo = ticket.id;
+      if (ride.driverId) driverLocationService.unwatch(ride.driverId, conversationId);
+    }
+
+    logger.warn('Ride check-in escalated to safety', { conversationId, anomaly, reason, ticketId: ticket.id });
+    return ticket.id;
+  }
+
+  private stop(ride: MonitoredRide): void {
+    if (ride.checkIn) clearTimeout(ride.checkIn.timer);
+    if (ride.driverId) driverLocationService.unwatch(ride.driverId, ride.conversationId);
+    this.rides.delete(ride.conversationId);
+    logger.info('Ride monitoring stopped', { conversationId: ride.conversationId });
+  }
+
+  // As the rider sees it (see ChatbotService.handleSafetyEscalation)
+  private shortTicket(ticketId: string): string {
+    return ticketId.substring(0, 8).toUpperCase();
+  }
+}
+
+export default new RideMonitorService();
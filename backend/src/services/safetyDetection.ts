@@ -1,125 +1,449 @@
-import { SafetyEvent } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import { DriverSafetyFlag, Language, RideAnomaly, SafetyEvent, SafetyPattern } from '../types';
+import config from '../config';
 import logger from '../utils/logger';
+import catalog from '../i18n/catalog';
+import { stripAccents } from '../nlp/language';
+
+type Severity = 'low' | 'medium' | 'high' | 'critical';
+
+// ────────────────────────────────────────────
+// Signals are whole words or phrases, never substrings ("check" does not
+// match "checkout"); a trailing * matches any ending ("harass*" finds
+// "harassing"). Text is compared lowercase, without accents or apostrophes.
+// A signal is ignored when a negation comes shortly before it in the same
+// clause ("I'm not in danger"), or when the message matches its `unless`
+// context ("thanks for the help"). Phrases that contain a negation
+// themselves ("not safe", pleas like "don't hurt me") are never negated.
+// ────────────────────────────────────────────
+interface SafetySignal {
+  phrase: string;
+  severity: Severity;
+  // Severity when the message is urgent (shouted, "!", "now"): a bare "help"
+  // is usually a request for the menu, "HELP!" is not
+  urgentSeverity?: Severity;
+  unless?: string[];
+}
+
+interface CompiledSignal extends SafetySignal {
+  pattern: RegExp;
+  unlessPatterns: RegExp[];
+  hasNegation: boolean;
+}
+
+// Each distinct signal adds its points; the total of the medium-and-above
+// ones decides the severity, so two high signals ("scared", "harassing me")
+// are critical together while low ones ("question", "check") never escalate
+const SEVERITY_POINTS: Record<Severity, number> = { low: 1, medium: 2, high: 4, critical: 8 };
+const SEVERITY_ORDER: Severity[] = ['low', 'medium', 'high', 'critical'];
+const HOUR_MS = 60 * 60 * 1000;
+// Negations further back than this many words belong to something else
+const NEGATION_WINDOW = 3;
+
+const NEGATIONS: Record<Language, string[]> = {
+  en: ['not', 'no', 'never', 'dont', 'didnt', 'doesnt', 'isnt', 'arent', 'wasnt', 'werent', 'aint', 'nothing', 'without', 'nobody', 'cannot'],
+  es: ['no', 'nunca', 'sin', 'ningun', 'ninguna', 'nada', 'nadie', 'tampoco'],
+  fr: ['pas', 'ne', 'n', 'jamais', 'sans', 'aucun', 'aucune', 'rien', 'personne'],
+};
+
+// Negation and phrases do not reach across these
+const CLAUSE_BOUNDARY = /[.,;:!?¿¡]+|\b(?:and|but|y|pero|et|mais)\b/;
+const URGENT_PATTERN = /!|\b[A-Z]{3,}\b|\b(?:[Nn]ow|asap|hurry|ahora mismo|rapido|vite|tout de suite)\b/;
+
+const SIGNALS: Record<Language, SafetySignal[]> = {
+  en: [
+    // Critical severity
+    { phrase: 'emergency', severity: 'critical' },
+    { phrase: 'help', severity: 'low', urgentSeverity: 'critical',
+      unless: ['for the help', 'for your help', 'for all * help', 'for all the help', 'help with', 'help me with', 'help me * my', 'help me find*', 'help me understand', 'help me cancel', 'help me check', 'can you help', 'could you help', 'need help with', 'help center'] },
+    { phrase: 'help me', severity: 'critical',
+      unless: ['help me with', 'help me * my', 'help me find*', 'help me understand', 'help me cancel', 'help me check', 'can you help', 'could you help'] },
+    { phrase: 'somebody help', severity: 'critical' },
+    { phrase: 'someone help', severity: 'critical' },
+    { phrase: 'please help', severity: 'critical', unless: ['please help me with', 'please help me * my'] },
+    { phrase: 'dont hurt* me', severity: 'critical' },
+    { phrase: 'do not hurt* me', severity: 'critical' },
+    { phrase: 'danger', severity: 'critical' },
+    { phrase: 'threat', severity: 'critical' },
+    { phrase: '911', severity: 'critical' },
+    { phrase: 'police', severity: 'critical' },
+    { phrase: 'kidnap*', severity: 'critical' },
+    { phrase: 'assault*', severity: 'critical' },
+    { phrase: 'attack*', severity: 'critical', unless: ['panic attack', 'heart attack'] },
+    { phrase: 'rape*', severity: 'critical' },
+
+    // High severity
+    { phrase: 'need help', severity: 'high', urgentSeverity: 'critical',
+      unless: ['need help with', 'need help to', 'need help finding', 'need help changing', 'need help understanding'] },
+    { phrase: 'dont touch* me', severity: 'high' },
+    { phrase: 'do not touch* me', severity: 'high' },
+    { phrase: 'touching me', severity: 'high' },
+    { phrase: 'never * so scared', severity: 'high' },
+    { phrase: 'never * this scared', severity: 'high' },
+    { phrase: 'never * more scared', severity: 'high' },
+    { phrase: 'never * so afraid', severity: 'high' },
+    { phrase: 'never * so frightened', severity: 'high' },
+    { phrase: 'unsafe', severity: 'high' },
+    { phrase: 'not safe', severity: 'high' },
+    { phrase: 'dont feel* safe', severity: 'high' },
+    { phrase: 'do not feel* safe', severity: 'high' },
+    { phrase: 'not feel* safe', severity: 'high' },
+    { phrase: 'uncomfortable', severity: 'high', unless: ['seat*', 'too hot', 'too cold', 'music'] },
+    { phrase: 'scared', severity: 'high' },
+    { phrase: 'afraid', severity: 'high', unless: ['afraid i', 'afraid im', 'afraid that'] },
+    { phrase: 'frightened', severity: 'high' },
+    { phrase: 'harass*', severity: 'high' },
+    { phrase: 'inappropriate*', severity: 'high' },
+    { phrase: 'threaten*', severity: 'high' },
+    { phrase: 'dangerous*', severity: 'high' },
+    { phrase: 'weapon*', severity: 'high' },
+    { phrase: 'gun', severity: 'high' },
+    { phrase: 'knife', severity: 'high' },
+    { phrase: 'injur*', severity: 'high' },
+    { phrase: 'hurt* me', severity: 'high' },
+    { phrase: 'touched me', severity: 'high' },
+    { phrase: 'drunk', severity: 'high' },
+
+    // Medium severity
+    { phrase: 'safety concern*', severity: 'medium' },
+    { phrase: 'safety issue*', severity: 'medium' },
+    { phrase: 'concern', severity: 'medium', unless: ['fare', 'price', 'payment', 'charge*', 'refund*', 'receipt', 'billing'] },
+    { phrase: 'worried', severity: 'medium', unless: ['fare', 'charge*', 'late for', 'miss* my flight'] },
+    { phrase: 'anxious', severity: 'medium' },
+    { phrase: 'suspicious', severity: 'medium' },
+    { phrase: 'wrong route', severity: 'medium' },
+    { phrase: 'wrong way', severity: 'medium' },
+    { phrase: 'detour', severity: 'medium' },
+    { phrase: 'speeding', severity: 'medium' },
+    { phrase: 'driving too fast', severity: 'medium' },
+    { phrase: 'following me', severity: 'medium' },
+
+    // Low severity
+    { phrase: 'question', severity: 'low' },
+    { phrase: 'concerned', severity: 'low' },
+    { phrase: 'wondering', severity: 'low' },
+    { phrase: 'check', severity: 'low' },
+  ],
+  es: [
+    { phrase: 'emergencia', severity: 'critical' },
+    { phrase: 'ayuda', severity: 'low', urgentSeverity: 'critical',
+      unless: ['gracias por * ayuda', 'ayuda con', 'ayuda para'] },
+    { phrase: 'ayudame', severity: 'critical', unless: ['ayudame con', 'ayudame a'] },
+    { phrase: 'ayudenme', severity: 'critical' },
+    { phrase: 'no me hagas dano', severity: 'critical' },
+    { phrase: 'no me haga dano', severity: 'critical' },
+    { phrase: 'socorro', severity: 'critical' },
+    { phrase: 'peligro', severity: 'critical' },
+    { phrase: 'amenaza', severity: 'critical' },
+    { phrase: 'policia', severity: 'critical' },
+    { phrase: 'secuestr*', severity: 'critical' },
+    { phrase: 'agresion', severity: 'critical' },
+    { phrase: 'agredi*', severity: 'critical' },
+    { phrase: 'ataque', severity: 'critical', unless: ['ataque de panico', 'ataque de ansiedad'] },
+    { phrase: 'me ataco', severity: 'critical' },
+
+    { phrase: 'necesito ayuda', severity: 'high', urgentSeverity: 'critical',
+      unless: ['necesito ayuda con', 'necesito ayuda para'] },
+    { phrase: 'no me toques', severity: 'high' },
+    { phrase: 'no me toque', severity: 'high' },
+    { phrase: 'nunca * tanto miedo', severity: 'high' },
+    { phrase: 'insegur*', severity: 'high' },
+    { phrase: 'no me siento segur*', severity: 'high' },
+    { phrase: 'incomod*', severity: 'high', unless: ['asiento* incomod*'] },
+    { phrase: 'miedo', severity: 'high' },
+    { phrase: 'asustad*', severity: 'high' },
+    { phrase: 'acos*', severity: 'high' },
+    { phrase: 'inapropiad*', severity: 'high' },
+    { phrase: 'amenazando', severity: 'high' },
+    { phrase: 'peligros*', severity: 'high' },
+    { phrase: 'arma', severity: 'high' },
+    { phrase: 'pistola', severity: 'high' },
+    { phrase: 'cuchillo', severity: 'high' },
+    { phrase: 'herid*', severity: 'high' },
+    { phrase: 'borracho', severity: 'high' },
+
+    { phrase: 'problema de seguridad', severity: 'medium' },
+    { phrase: 'preocupad*', severity: 'medium', unless: ['tarifa', 'pago', 'cobro', 'precio'] },
+    { phrase: 'nervios*', severity: 'medium' },
+    { phrase: 'ansios*', severity: 'medium' },
+    { phrase: 'sospechos*', severity: 'medium' },
+    { phrase: 'ruta equivocada', severity: 'medium' },
+    { phrase: 'desvio', severity: 'medium' },
+    { phrase: 'exceso de velocidad', severity: 'medium' },
+    { phrase: 'muy rapido', severity: 'medium' },
+    { phrase: 'me sigue', severity: 'medium' },
+
+    { phrase: 'pregunta', severity: 'low' },
+    { phrase: 'duda', severity: 'low' },
+  ],
+  fr: [
+    { phrase: 'urgence', severity: 'critical', unless: ['aide d urgence'] },
+    { phrase: 'aide', severity: 'low', urgentSeverity: 'critical',
+      unless: ['merci pour * aide', 'merci de * aide', 'aide pour', 'besoin d aide pour'] },
+    { phrase: 'aidez moi', severity: 'critical', unless: ['aidez moi a', 'aidez moi pour'] },
+    { phrase: 'aide moi', severity: 'critical', unless: ['aide moi a', 'aide moi pour'] },
+    { phrase: 'au secours', severity: 'critical' },
+    { phrase: 'besoin d aide d urgence', severity: 'critical' },
+    { phrase: 'ne me faites pas de mal', severity: 'critical' },
+    { phrase: 'ne me fais pas de mal', severity: 'critical' },
+    { phrase: 'danger', severity: 'critical' },
+    { phrase: 'menace', severity: 'critical' },
+    { phrase: 'police', severity: 'critical' },
+    { phrase: 'enlevement', severity: 'critical' },
+    { phrase: 'kidnapp*', severity: 'critical' },
+    { phrase: 'agression', severity: 'critical' },
+    { phrase: 'agresse*', severity: 'critical' },
+    { phrase: 'attaque*', severity: 'critical', unless: ['crise de panique'] },
+
+    { phrase: 'besoin d aide', severity: 'high', urgentSeverity: 'critical',
+      unless: ['besoin d aide pour', 'besoin d aide avec'] },
+    { phrase: 'ne me touchez pas', severity: 'high' },
+    { phrase: 'ne me touche pas', severity: 'high' },
+    { phrase: 'jamais eu aussi peur', severity: 'high' },
+    { phrase: 'pas en securite', severity: 'high' },
+    { phrase: 'mal a l aise', severity: 'high' },
+    { phrase: 'peur', severity: 'high' },
+    { phrase: 'harcel*', severity: 'high' },
+    { phrase: 'comportement deplace', severity: 'high' },
+    { phrase: 'inapproprie*', severity: 'high' },
+    { phrase: 'menacant*', severity: 'high' },
+    { phrase: 'dangereu*', severity: 'high' },
+    { phrase: 'arme', severity: 'high' },
+    { phrase: 'pistolet', severity: 'high' },
+    { phrase: 'couteau', severity: 'high' },
+    { phrase: 'blesse*', severity: 'high' },
+    { phrase: 'ivre', severity: 'high' },
+
+    { phrase: 'probleme de securite', severity: 'medium' },
+    { phrase: 'inquiet*', severity: 'medium', unless: ['tarif', 'paiement', 'prix', 'facture*'] },
+    { phrase: 'angoiss*', severity: 'medium' },
+    { phrase: 'suspect*', severity: 'medium' },
+    { phrase: 'mauvais chemin', severity: 'medium' },
+    { phrase: 'detour', severity: 'medium' },
+    { phrase: 'trop vite', severity: 'medium' },
+    { phrase: 'exces de vitesse', severity: 'medium' },
+    { phrase: 'me suit', severity: 'medium' },
+
+    { phrase: 'question', severity: 'low' },
+    { phrase: 'verifier', severity: 'low' },
+  ],
+};
+
+// "harass*" → /(?:^| )harass[\p{L}\p{N}]*(?= |$)/u; a lone * stands for any one word
+function phrasePattern(phrase: string): RegExp {
+  const words = phrase.split(' ').map((word) =>
+    word === '*' ? '[\\p{L}\\p{N}]+' : word.replace(/\*$/, '[\\p{L}\\p{N}]*')
+  );
+  return new RegExp(`(?:^| )${words.join(' ')}(?= |$)`, 'u');
+}
+
+// Lowercase words separated by single spaces: no accents, no punctuation;
+// apostrophes join English contractions ("don't" → "dont") and split French
+// elisions ("l'aise" → "l aise")
+function normalize(text: string): string {
+  return stripAccents(text.toLowerCase())
+    .replace(/\b(n|l|d|j|m|t|s|qu|c)['’]/g, '$1 ')
+    .replace(/['’]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
 
 class SafetyDetectionService {
-  private safetyKeywords: Map<string, 'low' | 'medium' | 'high' | 'critical'>;
+  private signals: Map<Language, CompiledSignal[]>;
+  private negations: Map<Language, Set<string>>;
   private events: Map<string, SafetyEvent[]>;
+  // The same events by driver, for flags across riders
+  private driverEvents: Map<string, SafetyEvent[]>;
+  private driverFlags: Map<string, DriverSafetyFlag>;
 
   constructor() {
-    this.safetyKeywords = this.initializeSafetyKeywords();
+    this.negations = new Map(
+      (Object.keys(NEGATIONS) as Language[]).map((language) => [language, new Set(NEGATIONS[language])])
+    );
+    this.signals = this.compileSignals();
     this.events = new Map();
+    this.driverEvents = new Map();
+    this.driverFlags = new Map();
   }
 
-  private initializeSafetyKeywords(): Map<string, 'low' | 'medium' | 'high' | 'critical'> {
-    const keywords: Array<[string, 'low' | 'medium' | 'high' | 'critical']> = [
-      // Critical severity
-      ['emergency', 'critical'],
-      ['help', 'critical'],
-      ['danger', 'critical'],
-      ['threat', 'critical'],
-      ['911', 'critical'],
-      ['police', 'critical'],
-      ['kidnap', 'critical'],
-      ['assault', 'critical'],
-      ['attack', 'critical'],
-
-      // High severity
-      ['unsafe', 'high'],
-      ['uncomfortable', 'high'],
-      ['scared', 'high'],
-      ['harassment', 'high'],
-      ['inappropriate', 'high'],
-      ['threatening', 'high'],
-      ['weapon', 'high'],
-      ['injured', 'high'],
-
-      // Medium severity
-      ['concern', 'medium'],
-      ['worried', 'medium'],
-      ['anxious', 'medium'],
-      ['suspicious', 'medium'],
-      ['wrong route', 'medium'],
-      ['detour', 'medium'],
-      ['speeding', 'medium'],
-
-      // Low severity
-      ['question', 'low'],
-      ['concerned', 'low'],
-      ['wondering', 'low'],
-      ['check', 'low'],
-    ];
-    return new Map(keywords);
-  }
-
-  detectSafetyConcerns(text: string, conversationId: string, userId: string, driverId?: string): SafetyEvent | null {
-    const lowerText = text.toLowerCase();
-    const detectedKeywords: string[] = [];
-    let maxSeverity: 'low' | 'medium' | 'high' | 'critical' = 'low';
-
-    // Search for safety keywords
-    for (const [keyword, severity] of this.safetyKeywords) {
-      if (lowerText.includes(keyword)) {
-        detectedKeywords.push(keyword);
-
-        // Update severity if this keyword is worse
-        const severityValues = { low: 1, medium: 2, high: 3, critical: 4 };
-        if (severityValues[severity] > severityValues[maxSeverity]) {
-          maxSeverity = severity;
-        }
-      }
-    }
+  private compileSignals(): Map<Language, CompiledSignal[]> {
+    return new Map(
+      (Object.keys(SIGNALS) as Language[]).map((language) => [
+        language,
+        SIGNALS[language]
+          .map((signal) => ({
+            ...signal,
+            pattern: phrasePattern(signal.phrase),
+            unlessPatterns: (signal.unless || []).map(phrasePattern),
+            hasNegation: signal.phrase.split(' ').some((word) => this.negations.get(language)!.has(word)),
+          }))
+          // Longest first, so "safety concern" is matched before "concern"
+          .sort((a, b) => b.phrase.split(' ').length - a.phrase.split(' ').length),
+      ])
+    );
+  }
 
-    if (detectedKeywords.length === 0) {
+  /**
+   * Score the message against the signals of the conversation's language
+   * and English (riders switch to English for "police" or "911"). Returns
+   * null when nothing matched, or every match was negated or benign.
+   */
+  detectSafetyConcerns(
+    text: string,
+    conversationId: string,
+    userId: string,
+    driverId?: string,
+    language: Language = 'en'
+  ): SafetyEvent | null {
+    const assessment = this.assess(text, language);
+    if (!assessment) {
       return null;
     }
 
-    const event: SafetyEvent = {
-      id: `safety_${conversationId}_${Date.now()}`,
+    return this.record({
+      id: uuidv4(),
       conversationId,
       userId,
       driverId,
-      severity: maxSeverity,
-      keywords: detectedKeywords,
+      severity: assessment.severity,
+      score: assessment.score,
+      keywords: assessment.keywords,
       timestamp: new Date(),
       status: 'detected',
-    };
+    });
+  }
 
-    // Store event
-    if (!this.events.has(userId)) {
-      this.events.set(userId, []);
+  /**
+   * A safety event the ride monitor raised from the driver's movements
+   * rather than from the rider's words (`reason`: why it escalates, e.g.
+   * no answer to the check-in). Counts toward patterns and driver flags.
+   */
+  recordRideAnomaly(
+    anomaly: RideAnomaly | undefined,
+    reason: string,
+    severity: Severity,
+    conversationId: string,
+    userId: string,
+    driverId?: string
+  ): SafetyEvent {
+    return this.record({
+      id: uuidv4(),
+      conversationId,
+      userId,
+      driverId,
+      severity,
+      keywords: anomaly ? [anomaly, reason] : [reason],
+      timestamp: new Date(),
+      status: 'detected',
+    });
+  }
+
+  private record(event: SafetyEvent): SafetyEvent {
+    if (!this.events.has(event.userId)) {
+      this.events.set(event.userId, []);
+    }
+    this.events.get(event.userId)!.push(event);
+    if (event.driverId) {
+      this.recordDriverEvent(event.driverId, event);
     }
-    this.events.get(userId)!.push(event);
 
     logger.warn('Safety event detected', {
       eventId: event.id,
-      severity: maxSeverity,
-      keywords: detectedKeywords,
-      userId,
-      conversationId,
+      severity: event.severity,
+      score: event.score,
+      keywords: event.keywords,
+      userId: event.userId,
+      conversationId: event.conversationId,
     });
 
     return event;
   }
 
+  /**
+   * The matched signals, their combined score and the severity it maps to,
+   * without recording an event (used by the regression script).
+   */
+  assess(
+    text: string,
+    language: Language = 'en'
+  ): { severity: Severity; score: number; keywords: string[] } | null {
+    const matched = this.matchSignals(text, language, true);
+    if (!matched.size) {
+      return null;
+    }
+
+    const points = (severities: Severity[]) =>
+      severities.reduce((sum, severity) => sum + SEVERITY_POINTS[severity], 0);
+    const escalating = points([...matched.values()].filter((severity) => severity !== 'low'));
+    const severity = [...SEVERITY_ORDER].reverse().find((level) => escalating >= SEVERITY_POINTS[level]) || 'low';
+    return { severity, score: points([...matched.values()]), keywords: [...matched.keys()] };
+  }
+
+  /**
+   * True when the message names a safety concern only to deny it ("I'm not
+   * in danger"): signals matched, but every one of them was negated. The
+   * intent classifier can't tell, so the safety flow asks instead of escalating.
+   */
+  isNegatedConcern(text: string, language: Language = 'en'): boolean {
+    return this.matchSignals(text, language, true).size === 0 && this.matchSignals(text, language, false).size > 0;
+  }
+
+  // The signals found in the message, by phrase, with the severity each one counts for
+  private matchSignals(text: string, language: Language, honourNegations: boolean): Map<string, Severity> {
+    const languages: Language[] = language === 'en' ? ['en'] : [language, 'en'];
+    const urgent = URGENT_PATTERN.test(text);
+    const whole = normalize(text);
+    const clauses = text.split(CLAUSE_BOUNDARY).map(normalize).filter(Boolean);
+
+    const matched = new Map<string, Severity>();
+    for (const lang of languages) {
+      for (const signal of this.signals.get(lang)!) {
+        // Already counted as part of a longer phrase ("help" in "help me")
+        if ([...matched.keys()].some((phrase) => signal.pattern.test(phrase.replace(/\*/g, '')))) continue;
+        if (signal.unlessPatterns.some((pattern) => pattern.test(whole))) continue;
+        const found = clauses.some((clause) => {
+          const match = signal.pattern.exec(clause);
+          return match && (!honourNegations || signal.hasNegation || !this.isNegated(clause, match.index, languages));
+        });
+        if (found) {
+          matched.set(signal.phrase, urgent && signal.urgentSeverity ? signal.urgentSeverity : signal.severity);
+        }
+      }
+    }
+    return matched;
+  }
+
+  // A negation among the few words before the match
+  private isNegated(clause: string, matchIndex: number, languages: Language[]): boolean {
+    const before = clause.slice(0, matchIndex).split(' ').filter(Boolean).slice(-NEGATION_WINDOW);
+    return before.some((word) => languages.some((language) => this.negations.get(language)!.has(word)));
+  }
+
+  /**
+   * High and critical events escalate at once. A medium one escalates only
+   * as part of a run: SAFETY_MEDIUM_ESCALATION_COUNT medium events in the
+   * same ride (conversation), this one included.
+   */
   isEscalationRequired(event: SafetyEvent): boolean {
-    // Only escalate for medium and above severity
-    return event.severity !== 'low';
+    if (event.severity === 'high' || event.severity === 'critical') return true;
+    if (event.severity === 'low') return false;
+    return this.getMediumRun(event) >= config.safetyMediumEscalationCount;
   }
 
-  getSafetyResponse(severity: 'low' | 'medium' | 'high' | 'critical'): string {
-    const responses = {
-      low: 'I understand your concern. Let me help you with that.',
-      medium: 'Your safety is important to us. I\'m escalating this to our support team.',
-      high: 'This is concerning. I\'m immediately connecting you with emergency support.',
-      critical: '🚨 EMERGENCY: I\'m connecting you with emergency services and our support team immediately. Stay in a public place if you can.',
-    };
+  // Medium events in the event's ride within the pattern window
+  getMediumRun(event: SafetyEvent): number {
+    return this.getRecentEvents(event.userId, config.safetyPatternWindowHours)
+      .filter((recent) => recent.conversationId === event.conversationId && recent.severity === 'medium')
+      .length;
+  }
 
-    return responses[severity];
+  getSafetyResponse(severity: Severity, language: Language = 'en'): string {
+    return catalog.t(language, `safety.severity.${severity}`);
   }
 
   getRecentEvents(userId: string, hours: number = 1): SafetyEvent[] {
     const events = this.events.get(userId) || [];
-    const cutoffTime = new Date(Date.now() - hours * 60 * 60 * 1000);
+    const cutoffTime = new Date(Date.now() - hours * HOUR_MS);
 
     return events.filter((event) => event.timestamp > cutoffTime);
   }
@@ -139,11 +463,11 @@ class SafetyDetectionService {
     return false;
   }
 
-  analyzePatterns(userId: string): { riskLevel: 'low' | 'medium' | 'high'; pattern: string } {
-    const events = this.getRecentEvents(userId, 24); // Last 24 hours
+  analyzePatterns(userId: string): SafetyPattern {
+    const events = this.getRecentEvents(userId, config.safetyPatternWindowHours);
 
     if (events.length === 0) {
-      return { riskLevel: 'low', pattern: 'No recent safety concerns' };
+      return { riskLevel: 'low', pattern: 'No recent safety concerns', eventCount: 0 };
     }
 
     const criticalCount = events.filter((e) => e.severity === 'critical').length;
@@ -164,7 +488,83 @@ class SafetyDetectionService {
       pattern = 'Recurring medium-severity concerns';
     }
 
-    return { riskLevel, pattern };
+    return { riskLevel, pattern, eventCount: events.length };
+  }
+
+  // ────────────────────────────────────────────
+  // Driver history: the same driver in several riders' safety events
+  // ────────────────────────────────────────────
+  private recordDriverEvent(driverId: string, event: SafetyEvent): void {
+    if (!this.driverEvents.has(driverId)) {
+      this.driverEvents.set(driverId, []);
+    }
+    this.driverEvents.get(driverId)!.push(event);
+    this.refreshDriverFlag(driverId);
+  }
+
+  // Recomputes the flag from the events still inside DRIVER_FLAG_WINDOW_DAYS,
+  // dropping older events, and the flag once they come from fewer riders
+  // than DRIVER_FLAG_RIDER_COUNT
+  private refreshDriverFlag(driverId: string): DriverSafetyFlag | undefined {
+    const events = this.getDriverEvents(driverId);
+    if (events.length) {
+      this.driverEvents.set(driverId, events);
+    } else {
+      this.driverEvents.delete(driverId);
+    }
+
+    const existing = this.driverFlags.get(driverId);
+    const riders = [...new Set(events.map((e) => e.userId))];
+    if (riders.length < config.driverFlagRiderCount) {
+      if (existing) {
+        this.driverFlags.delete(driverId);
+        logger.info('Driver flag expired', { driverId, riderCount: riders.length });
+      }
+      return undefined;
+    }
+
+    const flag: DriverSafetyFlag = {
+      driverId,
+      riderCount: riders.length,
+      eventCount: events.length,
+      highestSeverity: events.reduce<Severity>(
+        (highest, e) => (SEVERITY_ORDER.indexOf(e.severity) > SEVERITY_ORDER.indexOf(highest) ? e.severity : highest),
+        'low'
+      ),
+      riders,
+      firstEventAt: events[0].timestamp,
+      lastEventAt: events[events.length - 1].timestamp,
+      flaggedAt: existing?.flaggedAt || new Date(),
+    };
+    this.driverFlags.set(driverId, flag);
+
+    if (!existing) {
+      logger.warn('Driver flagged for trust & safety review', {
+        driverId,
+        riderCount: flag.riderCount,
+        eventCount: flag.eventCount,
+        highestSeverity: flag.highestSeverity,
+      });
+    }
+    return flag;
+  }
+
+  // The driver's safety events within DRIVER_FLAG_WINDOW_DAYS, oldest first
+  getDriverEvents(driverId: string): SafetyEvent[] {
+    const cutoffTime = new Date(Date.now() - config.driverFlagWindowDays * 24 * HOUR_MS);
+    return (this.driverEvents.get(driverId) || []).filter((event) => event.timestamp > cutoffTime);
+  }
+
+  getDriverFlag(driverId: string): DriverSafetyFlag | undefined {
+    return this.driverFlags.has(driverId) ? this.refreshDriverFlag(driverId) : undefined;
+  }
+
+  // Flagged drivers, most riders first; also prunes every driver's expired events
+  getFlaggedDrivers(): DriverSafetyFlag[] {
+    return [...this.driverEvents.keys()]
+      .map((driverId) => this.refreshDriverFlag(driverId))
+      .filter((flag): flag is DriverSafetyFlag => !!flag)
+      .sort((a, b) => b.riderCount - a.riderCount);
   }
 }
 
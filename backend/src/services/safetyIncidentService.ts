@@ -0,0 +1,193 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  SafetyAuditAction,
+  SafetyAuditEntry,
+  SafetyEvent,
+  SafetyIncident,
+  SafetyOutcome,
+} from '../types';
+import logger from '../utils/logger';
+import apiClient from '../utils/apiClient';
+import { createRepositories, SafetyEventFilter, SafetyIncidentRepository } from '../repositories';
+import { conversationService } from './conversationService';
+import safetyDetectionService from './safetyDetection';
+
+const SYSTEM_ACTOR = 'system';
+
+/**
+ * Raised when an event can't take the requested change, e.g. assigning
+ * an event that is already resolved.
+ */
+export class SafetyIncidentStateError extends Error {
+  constructor(event: SafetyEvent, action: SafetyAuditAction) {
+    super(`Safety event ${event.id} is ${event.status} and cannot be ${action}`);
+    this.name = 'SafetyIncidentStateError';
+  }
+}
+
+/**
+ * Every safety event the bot detects, stored with an audit timeline so
+ * trust & safety staff can acknowledge, assign, annotate and resolve it.
+ * SafetyDetectionService keeps its own recent events for escalation
+ * decisions and patterns; this is the durable record.
+ */
+class SafetyIncidentService {
+  private repository: SafetyIncidentRepository;
+
+  constructor(repository: SafetyIncidentRepository) {
+    this.repository = repository;
+  }
+
+  // ────────────────────────────────────────────
+  // Recording (from the chatbot)
+  // ────────────────────────────────────────────
+  async recordDetected(event: SafetyEvent): Promise<void> {
+    try {
+      await this.repository.insertEvent(event);
+      await this.audit(event.id, 'detected', SYSTEM_ACTOR, undefined, {
+        severity: event.severity,
+        score: event.score,
+        keywords: event.keywords,
+      });
+    } catch (error) {
+      // The rider's reply never depends on the incident record
+      logger.error('Could not record safety event', { error, eventId: event.id });
+    }
+  }
+
+  // The support ticket opened for the event
+  async markEscalated(event: SafetyEvent, ticketId: string): Promise<void> {
+    safetyDetectionService.markEventAsEscalated(event.id, event.userId, ticketId);
+    try {
+      const stored = await this.repository.findEvent(event.id);
+      if (!stored) return;
+
+      stored.status = 'escalated';
+      stored.escalatedTo = ticketId;
+      await this.repository.updateEvent(stored);
+      await this.audit(event.id, 'escalated', SYSTEM_ACTOR, undefined, { ticketId });
+    } catch (error) {
+      logger.error('Could not record safety escalation', { error, eventId: event.id, ticketId });
+    }
+  }
+
+  // ────────────────────────────────────────────
+  // Review
+  // ────────────────────────────────────────────
+  async listEvents(filter: SafetyEventFilter = {}): Promise<SafetyEvent[]> {
+    return this.repository.findEvents(filter);
+  }
+
+  /**
+   * The event with its timeline, the conversation transcript and the
+   * booking (null when the booking API can't be reached).
+   */
+  async getIncident(eventId: string): Promise<SafetyIncident | null> {
+    const event = await this.repository.findEvent(eventId);
+    if (!event) return null;
+
+    const conversation = await conversationService.getConversation(event.conversationId);
+    const booking = conversation
+      ? await apiClient.getBooking(conversation.bookingId).catch((error) => {
+          logger.warn('Booking unavailable for safety incident', { error, eventId, bookingId: conversation.bookingId });
+          return null;
+        })
+      : null;
+
+    return {
+      event,
+      timeline: await this.repository.findAudit(eventId),
+      conversation: conversation && {
+        id: conversation.id,
+        bookingId: conversation.bookingId,
+        status: conversation.status,
+        language: conversation.language,
+        transcript: conversation.messages,
+      },
+      booking,
+    };
+  }
+
+  // ────────────────────────────────────────────
+  // Handling. Each returns null if the event doesn't exist; changing
+  // a resolved event throws SafetyIncidentStateError.
+  // ────────────────────────────────────────────
+
+  // Taken on by `actor`, who is also assigned unless someone already is
+  async acknowledge(eventId: string, actor: string, note?: string): Promise<SafetyEvent | null> {
+    return this.change(eventId, 'acknowledged', actor, note, (event) => {
+      if (event.status === 'acknowledged') throw new SafetyIncidentStateError(event, 'acknowledged');
+      event.status = 'acknowledged';
+      event.acknowledgedBy = actor;
+      event.acknowledgedAt = new Date();
+      event.assignedTo = event.assignedTo || actor;
+      return { assignedTo: event.assignedTo };
+    });
+  }
+
+  async assign(eventId: string, assignee: string, actor: string, note?: string): Promise<SafetyEvent | null> {
+    return this.change(eventId, 'assigned', actor, note, (event) => {
+      const previous = event.assignedTo;
+      event.assignedTo = assignee;
+      return { from: previous || null, to: assignee };
+    });
+  }
+
+  // Returns the timeline entry; notes can be added after resolution too
+  async addNote(eventId: string, actor: string, note: string): Promise<SafetyAuditEntry | null> {
+    const event = await this.repository.findEvent(eventId);
+    if (!event) return null;
+
+    return this.audit(eventId, 'note', actor, note);
+  }
+
+  async resolve(
+    eventId: string,
+    outcome: SafetyOutcome,
+    actor: string,
+    note?: string
+  ): Promise<SafetyEvent | null> {
+    return this.change(eventId, 'resolved', actor, note, (event) => {
+      event.status = 'resolved';
+      event.outcome = outcome;
+      event.resolvedBy = actor;
+      event.resolvedAt = new Date();
+      return { outcome };
+    });
+  }
+
+  private async change(
+    eventId: string,
+    action: SafetyAuditAction,
+    actor: string,
+    note: string | undefined,
+    apply: (event: SafetyEvent) => Record<string, any>
+  ): Promise<SafetyEvent | null> {
+    const event = await this.repository.findEvent(eventId);
+    if (!event) return null;
+    if (event.status === 'resolved') {
+      throw new SafetyIncidentStateError(event, action);
+    }
+
+    const details = apply(event);
+    await this.repository.updateEvent(event);
+    await this.audit(eventId, action, actor, note, details);
+
+    logger.info('Safety event updated', { eventId, action, actor, status: event.status });
+    return event;
+  }
+
+  private async audit(
+    eventId: string,
+    action: SafetyAuditAction,
+    actor: string,
+    note?: string,
+    details?: Record<string, any>
+  ): Promise<SafetyAuditEntry> {
+    const entry: SafetyAuditEntry = { id: uuidv4(), eventId, action, actor, note, details, at: new Date() };
+    await this.repository.appendAudit(entry);
+    return entry;
+  }
+}
+
+export default new SafetyIncidentService(createRepositories().safetyIncidents);
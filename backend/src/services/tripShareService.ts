@@ -0,0 +1,276 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { BookingDetails, Language, SharedTripStatus, TripShare, TripShareStatus, TrustedContact } from '../types';
+import config from '../config';
+import logger from '../utils/logger';
+import apiClient from '../utils/apiClient';
+import catalog from '../i18n/catalog';
+import { createRepositories, TripShareRepository } from '../repositories';
+import driverLocationService from './driverLocationService';
+
+const MAX_TRUSTED_CONTACTS = 5;
+const MINUTE_MS = 60 * 1000;
+// A share for a booking in one of these is over
+const FINISHED_BOOKING_STATUSES = ['completed', 'cancelled'];
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Raised when a rider already has MAX_TRUSTED_CONTACTS trusted contacts.
+ */
+export class TrustedContactLimitError extends Error {
+  constructor() {
+    super(`A rider can keep at most ${MAX_TRUSTED_CONTACTS} trusted contacts`);
+    this.name = 'TrustedContactLimitError';
+  }
+}
+
+/**
+ * Raised when a trip can't be shared: the rider has no trusted contacts
+ * (among those named), or the booking is already over.
+ */
+export class TripShareError extends Error {
+  reason: 'no_contacts' | 'trip_over';
+
+  constructor(reason: 'no_contacts' | 'trip_over') {
+    super(reason === 'no_contacts' ? 'No trusted contacts to share the trip with' : 'The trip is already over');
+    this.name = 'TripShareError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Riders' trusted contacts and the time-limited links that show them a
+ * trip live: driver, vehicle, plate, position from the driver-location
+ * stream and ETA. A link stops working after TRIP_SHARE_TTL_MINUTES, as
+ * soon as the booking completes or is cancelled, or when the rider
+ * revokes it; active shares are checked every TRIP_SHARE_CHECK_INTERVAL_MS
+ * so their driver streams close too.
+ */
+class TripShareService {
+  private repository: TripShareRepository;
+
+  constructor(repository: TripShareRepository) {
+    this.repository = repository;
+    setInterval(
+      () => this.checkActiveShares().catch((error) => logger.error('Trip share check failed', { error })),
+      config.tripShareCheckIntervalMs
+    ).unref();
+  }
+
+  // ────────────────────────────────────────────
+  // Trusted contacts
+  // ────────────────────────────────────────────
+  async listContacts(userId: string): Promise<TrustedContact[]> {
+    return this.repository.findContacts(userId);
+  }
+
+  async addContact(userId: string, name: string, phone: string): Promise<TrustedContact> {
+    if ((await this.repository.findContacts(userId)).length >= MAX_TRUSTED_CONTACTS) {
+      throw new TrustedContactLimitError();
+    }
+
+    const contact: TrustedContact = { id: uuidv4(), userId, name, phone, createdAt: new Date() };
+    await this.repository.insertContact(contact);
+    logger.info('Trusted contact added', { userId, contactId: contact.id });
+    return contact;
+  }
+
+  // False if the rider has no such contact
+  async removeContact(userId: string, contactId: string): Promise<boolean> {
+    const contacts = await this.repository.findContacts(userId);
+    if (!contacts.some((contact) => contact.id === contactId)) return false;
+
+    await this.repository.deleteContact(contactId);
+    logger.info('Trusted contact removed', { userId, contactId });
+    return true;
+  }
+
+  // ────────────────────────────────────────────
+  // Sharing
+  // ────────────────────────────────────────────
+
+  /**
+   * Create a link to the booking's live status and send it to the rider's
+   * trusted contacts (all of them, or those in `contactIds`) through the
+   * notification service, in the rider's language. A contact the
+   * notification didn't reach is listed with notified: false. Throws TripShareError.
+   */
+  async shareTrip(params: {
+    userId: string;
+    bookingId: string;
+    conversationId: string;
+    driverId?: string;
+    contactIds?: string[];
+    language?: Language;
+  }): Promise<{ share: TripShare; url: string }> {
+    const { userId, bookingId, conversationId, contactIds, language = 'en' } = params;
+
+    const contacts = (await this.repository.findContacts(userId))
+      .filter((contact) => !contactIds || contactIds.includes(contact.id));
+    if (!contacts.length) {
+      throw new TripShareError('no_contacts');
+    }
+
+    const booking = await apiClient.getBooking(bookingId);
+    if (FINISHED_BOOKING_STATUSES.includes(booking.status)) {
+      throw new TripShareError('trip_over');
+    }
+
+    const token = crypto.randomBytes(24).toString('base64url');
+    const url = `${config.tripShareUrl}/${token}`;
+    const now = new Date();
+    const share: TripShare = {
+      id: uuidv4(),
+      tokenHash: hashToken(token),
+      userId,
+      bookingId,
+      conversationId,
+      driverId: booking.driverId || params.driverId,
+      status: 'active',
+      recipients: [],
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + config.tripShareTtlMinutes * MINUTE_MS),
+    };
+
+    const rider = await apiClient.getUserProfile(userId).catch(() => undefined);
+    const message = catalog.t(language, 'tripShare.notification', {
+      name: rider?.name || catalog.t(language, 'tripShare.someone'),
+      url,
+    });
+    for (const contact of contacts) {
+      // Addressed to the contact's phone; sent on the rider's behalf
+      const result = await apiClient
+        .sendNotification(userId, message, {
+          type: 'trip_share',
+          recipient: { name: contact.name, phone: contact.phone },
+          url,
+          expiresAt: share.expiresAt.toISOString(),
+        })
+        .catch((error) => {
+          logger.warn('Trip share notification failed', { shareId: share.id, contactId: contact.id, error });
+          return undefined;
+        });
+      share.recipients.push({
+        contactId: contact.id,
+        name: contact.name,
+        notified: !!result?.success,
+        notificationId: result?.notificationId || undefined,
+      });
+    }
+
+    await this.repository.insertShare(share);
+    if (share.driverId) {
+      driverLocationService.watch(share.driverId, share.id);
+    }
+
+    logger.info('Trip shared', {
+      shareId: share.id,
+      userId,
+      bookingId,
+      recipients: share.recipients.length,
+      notified: share.recipients.filter((recipient) => recipient.notified).length,
+    });
+    return { share, url };
+  }
+
+  // The rider's active shares, most recent first
+  async listShares(userId: string): Promise<TripShare[]> {
+    return this.repository.findShares('active', userId);
+  }
+
+  // Null if the rider has no such share
+  async revoke(userId: string, shareId: string): Promise<TripShare | null> {
+    const share = await this.repository.findShare(shareId);
+    if (!share || share.userId !== userId) return null;
+
+    if (share.status === 'active') {
+      await this.end(share, 'revoked');
+    }
+    return share;
+  }
+
+  /**
+   * What the link with this token shows. `status` is missing once the
+   * share is no longer active; null if no share has this token.
+   */
+  async getSharedStatus(token: string): Promise<{ share: TripShare; status?: SharedTripStatus } | null> {
+    const share = await this.repository.findShareByTokenHash(hashToken(token));
+    if (!share) return null;
+
+    const current = share.status === 'active' ? await this.refresh(share) : null;
+    if (!current) return { share };
+
+    const driverId = share.driverId;
+    const driver = driverId
+      ? await apiClient.getDriver(driverId).catch((error) => {
+          logger.warn('Driver unavailable for trip share', { shareId: share.id, driverId, error });
+          return undefined;
+        })
+      : undefined;
+    // The stream is fresher than the driver lookup, which is the fallback until it reports
+    const streamed = driverId ? driverLocationService.getLatest(driverId) : undefined;
+
+    return {
+      share,
+      status: {
+        bookingStatus: current.booking?.status ?? null,
+        driver: driver ? { name: driver.name, vehicle: driver.vehicleInfo, plate: driver.licensePlate } : null,
+        location: streamed
+          ? { lat: streamed.lat, lng: streamed.lng, heading: streamed.heading, updatedAt: streamed.timestamp }
+          : driver
+            ? { ...driver.currentLocation, updatedAt: new Date() }
+            : null,
+        etaMinutes: streamed?.eta ?? driver?.eta ?? null,
+        expiresAt: share.expiresAt,
+      },
+    };
+  }
+
+  // ────────────────────────────────────────────
+  // Expiry
+  // ────────────────────────────────────────────
+
+  /**
+   * End the share if it has expired or its booking is over (null). A
+   * booking lookup that fails leaves the share active, without the booking.
+   */
+  private async refresh(share: TripShare): Promise<{ booking?: BookingDetails } | null> {
+    if (share.expiresAt.getTime() <= Date.now()) {
+      await this.end(share, 'expired');
+      return null;
+    }
+
+    const booking = await apiClient.getBooking(share.bookingId).catch((error) => {
+      logger.warn('Booking unavailable for trip share', { shareId: share.id, bookingId: share.bookingId, error });
+      return undefined;
+    });
+    if (booking && FINISHED_BOOKING_STATUSES.includes(booking.status)) {
+      await this.end(share, 'ended');
+      return null;
+    }
+    return { booking };
+  }
+
+  private async checkActiveShares(): Promise<void> {
+    for (const share of await this.repository.findShares('active')) {
+      // Also resumes watching after a restart
+      if (share.driverId) {
+        driverLocationService.watch(share.driverId, share.id);
+      }
+      await this.refresh(share);
+    }
+  }
+
+  private async end(share: TripShare, status: Exclude<TripShareStatus, 'active'>): Promise<void> {
+    share.status = status;
+    share.endedAt = new Date();
+    await this.repository.updateShare(share);
+    if (share.driverId) {
+      driverLocationService.unwatch(share.driverId, share.id);
+    }
+    logger.info('Trip share ended', { shareId: share.id, status });
+  }
+}
+
+export default new TripShareService(createRepositories().tripShares);
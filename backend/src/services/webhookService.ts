@@ -0,0 +1,191 @@
+import axios from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import { WEBHOOK_EVENTS, WebhookAttempt, WebhookDelivery, WebhookEvent } from '../types';
+import config from '../config';
+import logger from '../utils/logger';
+import { signWebhook } from '../utils/webhookSignature';
+import { createRepositories, WebhookDeliveryFilter, WebhookDeliveryRepository } from '../repositories';
+import { escalationService } from './conversationService';
+
+// How often pending retries are looked for; WEBHOOK_RETRY_BASE_MS is the finer knob
+const RETRY_CHECK_INTERVAL_MS = 1000;
+
+// Redelivering anything but a dead letter
+export class WebhookDeliveryStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookDeliveryStateError';
+  }
+}
+
+/**
+ * Posts escalation and ticket events (EscalationService callbacks) to
+ * every WEBHOOK_URLS endpoint, so helpdesk tools hear about them. Each
+ * event/URL pair is a delivery, signed with WEBHOOK_SECRET (see
+ * utils/webhookSignature). A non-2xx answer or no answer is retried after
+ * WEBHOOK_RETRY_BASE_MS, doubling each time; after WEBHOOK_MAX_ATTEMPTS
+ * the delivery is a dead letter until someone redelivers it.
+ *
+ * Deliveries are stored, so pending retries pick up again after a restart
+ * (with PERSISTENCE_DRIVER=postgres).
+ */
+class WebhookService {
+  private repository: WebhookDeliveryRepository;
+  private events: WebhookEvent[];
+  // Being attempted right now, so the retry check doesn't send one twice
+  private inFlight: Set<string>;
+
+  constructor(repository: WebhookDeliveryRepository) {
+    this.repository = repository;
+    this.inFlight = new Set();
+
+    const unknown = config.webhookEvents.filter((event) => !(WEBHOOK_EVENTS as readonly string[]).includes(event));
+    if (unknown.length) {
+      logger.warn('Ignoring unknown WEBHOOK_EVENTS', { unknown, known: WEBHOOK_EVENTS });
+    }
+    this.events = config.webhookEvents.length
+      ? WEBHOOK_EVENTS.filter((event) => config.webhookEvents.includes(event))
+      : [...WEBHOOK_EVENTS];
+
+    if (config.webhookUrls.length) {
+      this.events.forEach((event) =>
+        escalationService.registerCallback(event, (data: unknown) => this.enqueue(event, data))
+      );
+      setInterval(
+        () => this.retryDue().catch((error) => logger.error('Webhook retry check failed', { error })),
+        RETRY_CHECK_INTERVAL_MS
+      ).unref();
+      logger.info('Webhooks enabled', { urls: config.webhookUrls.length, events: this.events });
+    }
+  }
+
+  /**
+   * One delivery per URL. The first attempt starts right away but isn't
+   * waited for: a slow receiver mustn't hold up the escalation.
+   */
+  async enqueue(event: WebhookEvent, data: unknown): Promise<WebhookDelivery[]> {
+    const deliveries: WebhookDelivery[] = [];
+
+    for (const url of config.webhookUrls) {
+      const id = uuidv4();
+      const createdAt = new Date();
+      const delivery: WebhookDelivery = {
+        id,
+        event,
+        url,
+        body: JSON.stringify({ id, event, createdAt, data }),
+        status: 'pending',
+        attempts: [],
+        nextAttemptAt: createdAt,
+        createdAt,
+      };
+      await this.repository.insertDelivery(delivery);
+      this.attemptInBackground(delivery);
+      deliveries.push(delivery);
+    }
+
+    return deliveries;
+  }
+
+  // Most recent first
+  async listDeliveries(filter: WebhookDeliveryFilter = {}): Promise<WebhookDelivery[]> {
+    return this.repository.findDeliveries(filter);
+  }
+
+  async getDelivery(deliveryId: string): Promise<WebhookDelivery | null> {
+    return this.repository.findDelivery(deliveryId);
+  }
+
+  /**
+   * One more attempt for a dead letter, now; it stays dead if that fails
+   * too. Null if there's no such delivery; throws WebhookDeliveryStateError
+   * for one that isn't dead.
+   */
+  async redeliver(deliveryId: string): Promise<WebhookDelivery | null> {
+    const delivery = await this.repository.findDelivery(deliveryId);
+    if (!delivery) return null;
+    if (delivery.status !== 'dead' || this.inFlight.has(deliveryId)) {
+      throw new WebhookDeliveryStateError(`Delivery ${deliveryId} is ${delivery.status}; only dead letters can be redelivered`);
+    }
+
+    logger.info('Webhook redelivery requested', { deliveryId, event: delivery.event });
+    return this.attempt(delivery, true);
+  }
+
+  private async retryDue(): Promise<void> {
+    const due = await this.repository.findDueDeliveries(new Date());
+    due.forEach((delivery) => this.attemptInBackground(delivery));
+  }
+
+  private attemptInBackground(delivery: WebhookDelivery): void {
+    if (this.inFlight.has(delivery.id)) return;
+    this.attempt(delivery).catch((error) =>
+      logger.error('Webhook delivery attempt failed', { deliveryId: delivery.id, error })
+    );
+  }
+
+  // `last`: no retry after this one, whatever the attempt count
+  private async attempt(delivery: WebhookDelivery, last = false): Promise<WebhookDelivery> {
+    this.inFlight.add(delivery.id);
+
+    try {
+      const timestamp = Math.floor(Date.now() / 1000);
+      const startedAt = Date.now();
+      const attempt: WebhookAttempt = { at: new Date(startedAt), durationMs: 0 };
+
+      try {
+        const response = await axios.post(delivery.url, delivery.body, {
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Webhook-Id': delivery.id,
+            'X-Webhook-Event': delivery.event,
+            'X-Webhook-Timestamp': String(timestamp),
+            'X-Webhook-Signature': signWebhook(config.webhookSecret, timestamp, delivery.body),
+          },
+          timeout: config.webhookTimeoutMs,
+          maxRedirects: 0,
+          // Any status is an answer; non-2xx is judged below
+          validateStatus: () => true,
+        });
+        attempt.statusCode = response.status;
+        if (response.status < 200 || response.status >= 300) {
+          attempt.error = `HTTP ${response.status}`;
+        }
+      } catch (error) {
+        attempt.error = error instanceof Error ? error.message : String(error);
+      }
+      attempt.durationMs = Date.now() - startedAt;
+      delivery.attempts.push(attempt);
+
+      const fields = {
+        deliveryId: delivery.id,
+        event: delivery.event,
+        url: delivery.url,
+        attempt: delivery.attempts.length,
+        statusCode: attempt.statusCode,
+        error: attempt.error,
+      };
+      if (!attempt.error) {
+        delivery.status = 'delivered';
+        delivery.deliveredAt = new Date();
+        delivery.nextAttemptAt = undefined;
+        logger.info('Webhook delivered', fields);
+      } else if (last || delivery.attempts.length >= config.webhookMaxAttempts) {
+        delivery.status = 'dead';
+        delivery.nextAttemptAt = undefined;
+        logger.error('Webhook dead-lettered', fields);
+      } else {
+        const backoffMs = config.webhookRetryBaseMs * 2 ** (delivery.attempts.length - 1);
+        delivery.nextAttemptAt = new Date(Date.now() + backoffMs);
+        logger.warn('Webhook delivery failed, will retry', { ...fields, retryInMs: backoffMs });
+      }
+
+      await this.repository.updateDelivery(delivery);
+      return delivery;
+    } finally {
+      this.inFlight.delete(delivery.id);
+    }
+  }
+}
+
+export default new WebhookService(createRepositories().webhookDeliveries);
@@ -12,12 +12,26 @@ export interface User {
   completedRides?: number;
 }
 
+// Roles carried in the auth token. Agents and admins can act across users;
+// a driver's user id is their driver id.
+export type UserRole = 'rider' | 'agent' | 'admin' | 'driver';
+
+export interface AuthContext {
+  userId: string;
+  role: UserRole;
+}
+
 export interface BookingDetails {
   id: string;
-  userId: string;
+  // Not every booking source returns the owning user
+  userId?: string;
+  driverId?: string;
   status: 'confirmed' | 'in_progress' | 'arrived' | 'completed' | 'cancelled';
   pickupLocation: string;
   dropoffLocation: string;
+  // Where the addresses are, when the booking source geocodes them (used by the ride monitor)
+  pickupCoordinates?: { lat: number; lng: number };
+  dropoffCoordinates?: { lat: number; lng: number };
   estimatedFare: number | string;
   actualFare?: number | string;
   distance?: string;
@@ -26,6 +40,8 @@ export interface BookingDetails {
   rideStartTime?: Date | string;
   rideEndTime?: Date | string;
   createdAt?: string;
+  // When the current driver accepted the ride (policy windows start here)
+  driverAssignedAt?: string;
 }
 
 export interface Driver {
@@ -44,6 +60,65 @@ export interface Driver {
   completedTrips?: number;
 }
 
+// One position from the driver-location stream
+export interface DriverLocation {
+  driverId: string;
+  lat: number;
+  lng: number;
+  heading?: number;
+  // km/h
+  speed?: number;
+  // Minutes to the next stop (pickup, then drop-off)
+  eta?: number;
+  timestamp: Date;
+}
+
+export interface PaymentDetails {
+  bookingId: string;
+  estimatedFare: string;
+  amount: string;
+  method: string;
+  status: 'pending' | 'completed' | 'failed' | 'refunded';
+  transactionId: string;
+  currency?: string;
+  breakdown: {
+    baseFare: string;
+    distance: string;
+    time: string;
+    serviceFee: string;
+  };
+}
+
+export interface TrafficInfo {
+  congestionLevel: string;
+  delayMinutes: number;
+  roadCondition: string;
+  averageSpeed: string;
+}
+
+export interface NotificationResult {
+  success: boolean;
+  notificationId: string;
+  userId: string;
+  message: string;
+  sentAt: string;
+  delivered: boolean;
+}
+
+export interface CancellationResult {
+  status: string;
+  message: string;
+  bookingId: string;
+  cancelledAt: string;
+  refundAmount?: string;
+  refundStatus?: string;
+}
+
+// Languages with a training corpus (data/nlp/corpus/<language>/) and a
+// message catalog (data/i18n/<language>.json)
+export const LANGUAGES = ['en', 'es', 'fr'] as const;
+export type Language = typeof LANGUAGES[number];
+
 export interface ChatMessage {
   id: string;
   conversationId: string;
@@ -58,12 +133,51 @@ export interface Conversation {
   bookingId: string;
   userId: string;
   driverId?: string;
+  // The agent who has taken the conversation over; the bot stays silent while one has
   supportAgentId?: string;
+  // Support ticket opened when the conversation was escalated
+  supportTicketId?: string;
   messages: ChatMessage[];
   status: 'active' | 'resolved' | 'escalated' | 'closed';
   createdAt: Date;
   updatedAt: Date;
   escalationType?: 'driver' | 'support' | 'safety';
+  dialogState?: DialogState;
+  cancellation?: CancellationRecord;
+  // The rider's language: set at /initiate, switched when a message is clearly in another one
+  language: Language;
+  // Chat with the driver, opened by the message_driver flow
+  driverRelay?: DriverRelay;
+}
+
+// Booking cancelled from the chat; fee and refund as shown on the rider's receipt
+export interface CancellationRecord {
+  bookingId: string;
+  idempotencyKey: string;
+  reason: string;
+  fee: string;
+  refundAmount?: string;
+  refundStatus?: string;
+  cancelledAt: Date;
+}
+
+// ============================================================
+// Multi-turn dialog state (persisted with the conversation)
+// ============================================================
+
+// A yes/no question a flow is waiting on; the answer resumes the flow
+export interface PendingConfirmation {
+  flow: string;       // intent of the flow that asked
+  onConfirm: string;  // node to resume at on "yes"
+  onDeny: string;     // node to resume at on "no"
+  askedAt: Date;
+}
+
+export interface DialogState {
+  activeFlow?: string;
+  pendingConfirmation?: PendingConfirmation;
+  // Values remembered across turns (e.g. contactAttempts), merged into the flow context
+  slots: Record<string, any>;
 }
 
 export interface ChatbotRequest {
@@ -85,6 +199,9 @@ export interface ChatbotResponse {
     intent: string;
     confidence: number;
     flowType: string;
+    // Every intent answered, highest priority first, when the message had several
+    intents?: string[];
+    language?: Language;
     responseTimeMs?: number;
   };
   // BRD: booking context attached to every response
@@ -92,38 +209,307 @@ export interface ChatbotResponse {
 }
 
 // BRD §5.2 + §10.2: Quick actions that appear based on booking status
-export type QuickAction =
-  | 'where_is_driver'
-  | 'driver_late'
-  | 'contact_driver'
-  | 'cannot_contact_driver'
-  | 'cancel_booking'
-  | 'payment_query'
-  | 'safety_concern'
-  | 'call_driver'
-  | 'message_driver'
-  | 'talk_to_agent'
-  | 'wait'
-  | 'retry'
-  | 'ok_thanks'
-  | 'emergency_contact';
+// (runtime list so data-driven flows can be validated against it)
+export const QUICK_ACTIONS = [
+  'where_is_driver',
+  'driver_late',
+  'contact_driver',
+  'cannot_contact_driver',
+  'cancel_booking',
+  'payment_query',
+  'safety_concern',
+  'call_driver',
+  'message_driver',
+  'end_driver_chat',
+  'talk_to_agent',
+  'wait',
+  'retry',
+  'ok_thanks',
+  'emergency_contact',
+  'share_trip',
+  'confirm_cancel',
+  'keep_booking',
+] as const;
+
+export type QuickAction = typeof QUICK_ACTIONS[number];
+
+// Calibrated probability that `intent` is what the rider meant
+export interface IntentCandidate {
+  intent: string;
+  confidence: number;
+}
+
+export interface MoneyEntity {
+  value: number;
+  currency: string;
+  // As written, e.g. "$12.50"
+  text: string;
+}
+
+export interface RelativeTimeEntity {
+  text: string;
+  minutes: number;
+  // "20 minutes ago" / "in 5 minutes" / "waiting 20 minutes"
+  direction: 'past' | 'future' | 'duration';
+}
+
+// What extractEntities (src/nlp/entities.ts) found in a message; only matched keys are set
+export interface ExtractedEntities {
+  bookingId?: string;
+  licensePlate?: string;
+  amounts?: MoneyEntity[];
+  location?: { text: string; type: 'address' | 'landmark' };
+  relativeTime?: RelativeTimeEntity;
+  items?: string[];
+  urgent?: boolean;
+}
 
 export interface IntentResult {
   intent: string;
   confidence: number;
-  entities?: Record<string, any>;
+  entities?: ExtractedEntities;
   actionType?: QuickAction;
+  // Best guesses, highest first; also set when intent is 'unknown'
+  candidates?: IntentCandidate[];
+  // The part of a compound message this intent was read from (NLPService.detectIntents)
+  segment?: string;
+  // Language of the model that classified the message
+  language?: Language;
+}
+
+// ============================================================
+// Intent training corpus (backend/data/nlp/corpus/<language>/v<N>.json)
+// ============================================================
+export interface LabelledUtterance {
+  text: string;
+  intent: string;
+}
+
+export interface IntentCorpus {
+  version: number;
+  createdAt: string;
+  note?: string;
+  // intent → training phrases
+  intents: Record<string, string[]>;
 }
 
-export interface DecisionTreeNode {
+// Headline numbers from the held-out set (data/nlp/eval.json, eval.<language>.json)
+export interface IntentEvaluationSummary {
+  total: number;
+  accuracy: number;
+  coverage: number;
+}
+
+export interface IntentModelInfo {
+  language: Language;
+  corpusVersion: number;
+  trainedAt: Date;
+  temperature: number;
+  intents: number;
+  phrases: number;
+  evaluation?: IntentEvaluationSummary;
+}
+
+// 'active': passed evaluation and replaced the previous model
+// 'rejected': scored below config.nlpMinEvalAccuracy; the previous model stays
+export type IntentTrainingStatus = 'training' | 'active' | 'rejected' | 'failed';
+
+export interface IntentTrainingJob {
   id: string;
-  type: 'action' | 'decision' | 'escalation' | 'message';
+  language: Language;
+  corpusVersion: number;
+  status: IntentTrainingStatus;
+  // 'utterances': new labelled phrases; 'reload': latest corpus file re-read from disk
+  source: 'utterances' | 'reload';
+  added: number;
+  requestedBy: string;
+  startedAt: Date;
+  finishedAt?: Date;
+  evaluation?: IntentEvaluationSummary;
+  error?: string;
+}
+
+// ============================================================
+// Utterance review queue
+// Rider messages the bot did not resolve (answered 'unknown', or
+// the conversation escalated), waiting to be labelled and promoted
+// into the training corpus.
+// ============================================================
+export type ReviewSource = 'unknown' | 'escalated';
+
+// pending → labelled → promoting → promoted; or pending → dismissed.
+// A rejected training job puts 'promoting' items back to 'labelled'.
+export type ReviewStatus = 'pending' | 'labelled' | 'promoting' | 'promoted' | 'dismissed';
+
+export interface ReviewItem {
+  id: string;
+  text: string;
+  // Lower-cased, whitespace-collapsed; a repeat of an open item bumps `occurrences`
+  normalizedText: string;
+  source: ReviewSource;
+  status: ReviewStatus;
+  occurrences: number;
+  conversationId: string;
+  // Promoted into this language's corpus
+  language: Language;
+  // What the bot answered with, and how sure it was
+  predictedIntent?: string;
+  confidence: number;
+  candidates?: IntentCandidate[];
+  escalationType?: 'driver' | 'support' | 'safety';
+  label?: string;
+  labelledBy?: string;
+  trainingJobId?: string;
+  corpusVersion?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Open items grouped by word overlap, largest first
+export interface ReviewCluster {
+  id: string;
+  text: string;
+  size: number;
+  // Most common top candidate among the items, if any
+  suggestedIntent?: string;
+  items: ReviewItem[];
+}
+
+// ============================================================
+// Data-driven decision tree flows (backend/data/flows/*.json|yaml)
+// Values in args/values/fields/messages may use {{path | filter}} templates
+// resolved against the execution context.
+// ============================================================
+
+export type FlowCondition =
+  | { all: FlowCondition[] }
+  | { any: FlowCondition[] }
+  | { not: FlowCondition }
+  | {
+      var: string;
+      op: 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'exists' | 'truthy';
+      value?: any;
+    };
+
+// Literal/template, or a computed value such as { fn: 'add', args: ['{{count}}', 1] }
+export type FlowValue = any | { fn: string; args?: any[] };
+
+export interface FlowLog {
+  level: 'info' | 'warn' | 'error';
+  message: string;
+  fields?: Record<string, any>;
+}
+
+interface FlowNodeBase {
+  log?: FlowLog;
+}
+
+// Call a registered operation (ApiClient method etc.) and store its result
+export interface ApiCallFlowNode extends FlowNodeBase {
+  type: 'api_call';
+  call: string;
+  args?: any[];
+  saveAs?: string;
+  next: string;
+  // Node to continue with when the call throws; without it the flow fails
+  onError?: string;
+}
+
+export interface SetFlowNode extends FlowNodeBase {
+  type: 'set';
+  values: Record<string, FlowValue>;
+  next: string;
+}
+
+export interface ConditionFlowNode extends FlowNodeBase {
+  type: 'condition';
+  branches: Array<{ when: FlowCondition; next: string }>;
+  default: string;
+}
+
+// Terminal node: produces the flow result
+export interface ResponseFlowNode extends FlowNodeBase {
+  type: 'response';
+  success?: boolean;
   message?: string;
+  // One is picked at random, for variety
+  messages?: string[];
   suggestedActions?: QuickAction[];
-  children?: Record<string, DecisionTreeNode>;
+  escalate?: boolean;
   escalationType?: 'driver' | 'support' | 'safety';
-  condition?: (context: Record<string, any>) => Promise<boolean> | boolean;
-  handler?: (context: Record<string, any>) => Promise<any>;
+  // Extra result fields (e.g. data, contactAttempts, sessionAction)
+  fields?: Record<string, any>;
+  // Remembered for later turns (DialogState.slots)
+  slots?: Record<string, any>;
+  // Wait for a yes/no reply, then resume this flow at one of these nodes
+  awaitConfirmation?: { onConfirm: string; onDeny: string };
+}
+
+export type FlowNode = ApiCallFlowNode | SetFlowNode | ConditionFlowNode | ResponseFlowNode;
+
+// Order in which flows answer a message with several intents
+export const FLOW_PRIORITIES = ['safety', 'action', 'info'] as const;
+export type FlowPriority = typeof FLOW_PRIORITIES[number];
+
+export interface FlowDefinition {
+  id: string;
+  intent: string;
+  description?: string;
+  // Default 'info'
+  priority?: FlowPriority;
+  start: string;
+  // Fallback when the reached response node sets none
+  suggestedActions?: QuickAction[];
+  nodes: Record<string, FlowNode>;
+}
+
+// ============================================================
+// Cancellation & delay policy (backend/data/policies.json)
+// Rules are evaluated top to bottom; the first match wins.
+// ============================================================
+
+export interface PolicyRuleMatch {
+  rideType?: string[];
+  status?: BookingDetails['status'][];
+  minMinutesSinceAssignment?: number;
+  maxMinutesSinceAssignment?: number;
+}
+
+export interface CancellationPolicyRule extends PolicyRuleMatch {
+  id: string;
+  // false: the booking can no longer be cancelled from the chat
+  allowed?: boolean;
+  fee?: number;
+}
+
+export interface DelayPolicyRule extends PolicyRuleMatch {
+  id: string;
+  lateThresholdMinutes: number;
+}
+
+export interface PolicyRules {
+  currency: string;
+  cancellation: CancellationPolicyRule[];
+  delay: DelayPolicyRule[];
+}
+
+export interface CancellationPolicyDecision {
+  ruleId: string;
+  allowed: boolean;
+  isFree: boolean;
+  fee: number;
+  // Estimated fare minus fee; null when the fare is unknown
+  refund: number | null;
+  // End of the free window this booking fell into, if any
+  freeWindowMinutes: number | null;
+  minutesSinceAssignment: number;
+  formatted: { fee: string; refund?: string };
+}
+
+export interface DelayPolicyDecision {
+  ruleId: string;
+  lateThresholdMinutes: number;
+  isLate: boolean;
 }
 
 export interface SafetyEvent {
@@ -132,12 +518,137 @@ export interface SafetyEvent {
   userId: string;
   driverId?: string;
   severity: 'low' | 'medium' | 'high' | 'critical';
+  // Combined points of the matched signals (see SafetyDetectionService)
+  score?: number;
   keywords: string[];
   timestamp: Date;
-  status: 'detected' | 'escalated' | 'resolved';
+  status: SafetyEventStatus;
+  // Support ticket opened for the event
   escalatedTo?: string;
+  // Trust & safety handling (see SafetyIncidentService)
+  assignedTo?: string;
+  acknowledgedBy?: string;
+  acknowledgedAt?: Date;
+  resolvedBy?: string;
+  resolvedAt?: Date;
+  outcome?: SafetyOutcome;
+}
+
+// detected → escalated (a ticket was opened) → acknowledged → resolved.
+// Staff may acknowledge or resolve an event that never escalated.
+export type SafetyEventStatus = 'detected' | 'escalated' | 'acknowledged' | 'resolved';
+
+// Least to most severe
+export const SAFETY_SEVERITIES: SafetyEvent['severity'][] = ['low', 'medium', 'high', 'critical'];
+
+export const SAFETY_OUTCOMES = [
+  'confirmed',
+  'unfounded',
+  'duplicate',
+  'driver_suspended',
+  'referred_to_authorities',
+] as const;
+export type SafetyOutcome = typeof SAFETY_OUTCOMES[number];
+
+export type SafetyAuditAction = 'detected' | 'escalated' | 'acknowledged' | 'assigned' | 'note' | 'resolved';
+
+// One entry in a safety event's timeline; `actor` is 'system' for detection and escalation
+export interface SafetyAuditEntry {
+  id: string;
+  eventId: string;
+  action: SafetyAuditAction;
+  actor: string;
+  note?: string;
+  details?: Record<string, any>;
+  at: Date;
 }
 
+// A safety event with everything trust & safety need to handle it
+export interface SafetyIncident {
+  event: SafetyEvent;
+  timeline: SafetyAuditEntry[];
+  conversation: {
+    id: string;
+    bookingId: string;
+    status: Conversation['status'];
+    language: Language;
+    transcript: ChatMessage[];
+  } | null;
+  // null when the booking API is unavailable
+  booking: BookingDetails | null;
+}
+
+// A rider's safety events over SAFETY_PATTERN_WINDOW_HOURS
+export interface SafetyPattern {
+  riskLevel: 'low' | 'medium' | 'high';
+  pattern: string;
+  eventCount: number;
+}
+
+// Raised when one driver appears in the safety events of several riders,
+// for trust & safety to review
+export interface DriverSafetyFlag {
+  driverId: string;
+  riderCount: number;
+  eventCount: number;
+  highestSeverity: SafetyEvent['severity'];
+  riders: string[];
+  firstEventAt: Date;
+  lastEventAt: Date;
+  flaggedAt: Date;
+}
+
+// ============================================================
+// Trip sharing
+// ============================================================
+
+// Someone a rider sends live trip links to
+export interface TrustedContact {
+  id: string;
+  userId: string;
+  name: string;
+  phone: string;
+  createdAt: Date;
+}
+
+// active → expired (TRIP_SHARE_TTL_MINUTES passed), ended (the booking
+// completed or was cancelled) or revoked (the rider stopped sharing)
+export type TripShareStatus = 'active' | 'expired' | 'ended' | 'revoked';
+
+export interface TripShare {
+  id: string;
+  // SHA-256 of the link token; the token itself is only ever in the link
+  tokenHash: string;
+  userId: string;
+  bookingId: string;
+  conversationId: string;
+  driverId?: string;
+  status: TripShareStatus;
+  // Who was sent the link, and whether the notification went out
+  recipients: Array<{ contactId: string; name: string; notified: boolean; notificationId?: string }>;
+  createdAt: Date;
+  expiresAt: Date;
+  endedAt?: Date;
+}
+
+// What a trip link shows: the ride, never the rider
+export interface SharedTripStatus {
+  // null while the booking service is unavailable
+  bookingStatus: BookingDetails['status'] | null;
+  driver: { name: string; vehicle: string; plate?: string } | null;
+  location: { lat: number; lng: number; heading?: number; updatedAt: Date } | null;
+  etaMinutes: number | null;
+  expiresAt: Date;
+}
+
+// ============================================================
+// Ride monitoring
+// ============================================================
+
+// What the ride monitor checks in with the rider about: the driver far off
+// the pickup → dropoff line, or standing still away from both ends
+export type RideAnomaly = 'route_deviation' | 'long_stop';
+
 export interface EscalationRequest {
   id: string;
   conversationId: string;
@@ -152,18 +663,41 @@ export interface EscalationRequest {
   chatTranscript?: ChatMessage[];
 }
 
+// Least to most urgent
+export const ESCALATION_PRIORITIES: EscalationRequest['priority'][] = ['low', 'medium', 'high', 'critical'];
+
+// An escalation filed on a ticket's conversation while the ticket was open
+export interface SupportTicketEvent {
+  escalationRequestId: string;
+  escalationType: EscalationRequest['escalationType'];
+  priority: EscalationRequest['priority'];
+  reason: string;
+  at: Date;
+}
+
 export interface SupportTicket {
   id: string;
+  // The escalation that opened it
   escalationRequestId: string;
   conversationId: string;
   userId: string;
+  // open → in_progress (an agent claimed it) → resolved (handed back to the bot or resolved)
   status: 'open' | 'in_progress' | 'resolved' | 'closed';
+  // The escalation request's, so the agent queue can sort without it
+  priority: EscalationRequest['priority'];
   assignedAgent?: string;
   createdAt: Date;
+  // An agent should have claimed it by then (the priority's ESCALATION_SLA_*_MS)
+  slaDueAt?: Date;
+  // Times it went unclaimed past slaDueAt; each moved it up a priority
+  slaBreaches?: number;
   resolvedAt?: Date;
   resolution?: string;
   // BRD: booking context visible to agent
   bookingContext?: Record<string, any>;
+  // Every escalation linked to it, the opening one first; later ones are
+  // added here instead of opening another ticket
+  events: SupportTicketEvent[];
 }
 
 // BRD §5.2: Initiation response with full context
@@ -188,3 +722,70 @@ export interface ChatbotInitResponse {
     rideType: string;
   };
 }
+
+// ============================================================
+// Webhooks
+// ============================================================
+
+// Escalation events posted to WEBHOOK_URLS (EscalationService callbacks)
+export const WEBHOOK_EVENTS = ['escalation_created', 'ticket_created', 'ticket_updated', 'sla_breached'] as const;
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+// pending (first try or retrying) → delivered, or dead after WEBHOOK_MAX_ATTEMPTS
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'dead';
+
+export interface WebhookAttempt {
+  at: Date;
+  // Absent when no response came back (timeout, connection refused...)
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+}
+
+// One event to one URL
+export interface WebhookDelivery {
+  id: string;
+  event: WebhookEvent;
+  url: string;
+  // The JSON sent, kept verbatim so every attempt signs the same bytes:
+  // { id, event, createdAt, data }
+  body: string;
+  status: WebhookDeliveryStatus;
+  // Oldest first
+  attempts: WebhookAttempt[];
+  // While pending
+  nextAttemptAt?: Date;
+  createdAt: Date;
+  deliveredAt?: Date;
+}
+
+// ============================================================
+// Rider ↔ driver relay
+// ============================================================
+
+// Why a relay closed: the booking completed or was cancelled, the rider
+// ended the chat, or the conversation ended
+export type DriverRelayCloseReason = 'ride_completed' | 'ride_cancelled' | 'rider_ended' | 'conversation_closed';
+
+// open → closed. While open, what the rider types goes to the driver.
+export interface DriverRelay {
+  status: 'open' | 'closed';
+  driverId: string;
+  openedAt: Date;
+  closedAt?: Date;
+  closeReason?: DriverRelayCloseReason;
+}
+
+// sent (stored) → delivered (the push went out or the recipient fetched
+// it) → read (the recipient said so)
+export type RelayReceiptStatus = 'sent' | 'delivered' | 'read';
+
+// ChatMessage.metadata.relay on what the rider sent the driver and the
+// driver sent back
+export interface RelayReceipt {
+  status: RelayReceiptStatus;
+  deliveredAt?: Date;
+  readAt?: Date;
+  // The driver's quick reply, when they sent one
+  template?: string;
+}
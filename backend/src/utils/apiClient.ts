@@ -1,180 +1,155 @@
+import config from '../config';
 import logger from './logger';
-import dummyService from '../services/dummyService';
+import {
+  BookingDetails,
+  Driver,
+  DriverLocation,
+  PaymentDetails,
+  TrafficInfo,
+  NotificationResult,
+  CancellationResult,
+  User,
+} from '../types';
+import { DummyApiBackend } from './dummyApiBackend';
+import { HttpApiBackend } from './httpApiBackend';
+import { CircuitBreaker, CircuitBreakerOptions } from './circuitBreaker';
 
 /**
- * API Client that directly uses the DummyService for instant data access.
- * No HTTP roundtrip — calls the service directly for maximum speed.
- * In production, replace dummyService calls with real HTTP client calls.
+ * Data source behind ApiClient. Selected by API_MODE:
+ * - 'dummy' (default): in-process DummyService, no network
+ * - 'http': booking/driver/payment/notification services at the configured URLs
+ */
+export interface ApiBackend {
+  getBooking(bookingId: string): Promise<BookingDetails>;
+  getDriver(driverId: string): Promise<Driver>;
+  getPaymentDetails(bookingId: string): Promise<PaymentDetails>;
+  sendNotification(userId: string, message: string, data?: any): Promise<NotificationResult>;
+  // Replays with the same idempotency key must return the original result
+  cancelBooking(bookingId: string, reason: string, idempotencyKey?: string): Promise<CancellationResult>;
+  getTrafficInfo(): Promise<TrafficInfo>;
+  getUserProfile(userId: string): Promise<User>;
+  // Calls onLocation with each position the driver-location stream reports
+  // for the driver until the returned function is called
+  watchDriverLocation(driverId: string, onLocation: (location: DriverLocation) => void): () => void;
+}
+
+// Downstream dependencies, each guarded by its own circuit breaker
+export type ApiService = 'booking' | 'driver' | 'payment' | 'notification' | 'traffic' | 'user';
+
+const API_SERVICES: ApiService[] = ['booking', 'driver', 'payment', 'notification', 'traffic', 'user'];
+
+export interface LastKnown<T> {
+  value: T;
+  fetchedAt: Date;
+}
+
+/**
+ * API Client used by the chatbot, flows and routes.
+ * Delegates every call to the configured backend through a per-service
+ * circuit breaker, and remembers the last successful read so callers can
+ * serve cached data while a dependency is down.
  */
 class ApiClient {
-  async getBooking(bookingId: string) {
-    try {
-      const result = dummyService.generateDummyResponse('booking');
-      logger.info('Booking fetched via dummy service', { bookingId });
-      return {
-        id: bookingId,
-        driverId: 'driver_789',
-        status: result.data?.status || 'confirmed',
-        estimatedFare: result.data?.fare || '$24.50',
-        distance: result.data?.distance || '8.3 km',
-        createdAt: result.data?.createdAt || new Date(Date.now() - 10 * 60 * 1000).toISOString(),
-        pickupLocation: result.data?.pickupAddress || '123 Main St, New York',
-        dropoffLocation: result.data?.dropoffAddress || '456 Oak Ave, Brooklyn',
-        rideType: result.data?.rideType || 'comfort',
-        duration: result.data?.duration || '15 min',
-      };
-    } catch (error) {
-      logger.error('Failed to fetch booking', { bookingId, error });
-      return {
-        id: bookingId,
-        driverId: 'driver_789',
-        status: 'confirmed',
-        estimatedFare: '$24.50',
-        distance: '8.3 km',
-        createdAt: new Date(Date.now() - 10 * 60 * 1000).toISOString(),
-        pickupLocation: '123 Main St, New York',
-        dropoffLocation: '456 Oak Ave, Brooklyn',
-        rideType: 'comfort',
-        duration: '15 min',
-      };
-    }
+  private backend: ApiBackend;
+  private breakers: Map<ApiService, CircuitBreaker>;
+  private lastKnown: Map<string, LastKnown<any>>;
+
+  constructor(backend: ApiBackend, breakerOptions: CircuitBreakerOptions) {
+    this.backend = backend;
+    this.breakers = new Map(
+      API_SERVICES.map((service) => [service, new CircuitBreaker(service, breakerOptions)])
+    );
+    this.lastKnown = new Map();
   }
 
-  async getDriver(driverId: string) {
-    try {
-      const result = dummyService.generateDummyResponse('driver');
-      logger.info('Driver fetched via dummy service', { driverId });
-      return {
-        id: driverId,
-        name: result.data?.name || 'John Smith',
-        rating: parseFloat(result.data?.rating) || 4.8,
-        vehicleInfo: result.data?.vehicle || 'Tesla Model 3 • White',
-        licensePlate: result.data?.licensePlate || 'ABC-1234',
-        currentLocation: {
-          lat: parseFloat(result.data?.latitude) || 40.7128,
-          lng: parseFloat(result.data?.longitude) || -74.006,
-        },
-        eta: result.data?.eta || Math.floor(Math.random() * 8 + 3),
-        phone: result.data?.phone || '+1234567890',
-        status: result.data?.status || 'en_route',
-        completedTrips: result.data?.completedTrips || 1247,
-      };
-    } catch (error) {
-      logger.error('Failed to fetch driver', { driverId, error });
-      return {
-        id: driverId,
-        name: 'John Smith',
-        rating: 4.8,
-        vehicleInfo: 'Tesla Model 3 • White',
-        licensePlate: 'ABC-1234',
-        currentLocation: { lat: 40.7128, lng: -74.006 },
-        eta: 5,
-        phone: '+1234567890',
-        status: 'en_route',
-        completedTrips: 1247,
-      };
-    }
+  async getBooking(bookingId: string): Promise<BookingDetails> {
+    return this.call('booking', bookingId, () => this.backend.getBooking(bookingId));
   }
 
-  async getPaymentDetails(bookingId: string) {
-    try {
-      const result = dummyService.generateDummyResponse('payment');
-      logger.info('Payment fetched via dummy service', { bookingId });
-      return {
-        bookingId,
-        estimatedFare: result.data?.estimatedFare || '24.50',
-        amount: result.data?.amount || '$24.50',
-        method: result.data?.method || 'credit_card',
-        status: result.data?.status || 'pending',
-        transactionId: result.data?.transactionId || 'txn_demo',
-        breakdown: result.data?.breakdown || {
-          baseFare: '$3.50',
-          distance: '$12.00',
-          time: '$6.00',
-          serviceFee: '$3.00',
-        },
-      };
-    } catch (error) {
-      logger.error('Failed to fetch payment details', { bookingId, error });
-      return {
-        bookingId,
-        estimatedFare: '24.50',
-        amount: '$24.50',
-        method: 'credit_card',
-        status: 'pending',
-        transactionId: 'txn_demo',
-        breakdown: { baseFare: '$3.50', distance: '$12.00', time: '$6.00', serviceFee: '$3.00' },
-      };
-    }
+  async getDriver(driverId: string): Promise<Driver> {
+    return this.call('driver', driverId, () => this.backend.getDriver(driverId));
   }
 
-  async sendNotification(userId: string, message: string, _data?: any) {
-    logger.info('Notification sent via dummy service', { userId, message });
-    return {
-      success: true,
-      notificationId: `notif_${Math.random().toString(36).substr(2, 9)}`,
-      userId,
-      message,
-      sentAt: new Date().toISOString(),
-      delivered: true,
-    };
+  async getPaymentDetails(bookingId: string): Promise<PaymentDetails> {
+    return this.call('payment', bookingId, () => this.backend.getPaymentDetails(bookingId));
   }
 
-  async cancelBooking(bookingId: string, reason: string) {
-    logger.info('Booking cancelled via dummy service', { bookingId, reason });
-    return {
-      status: 'success',
-      message: 'Booking cancelled successfully',
-      bookingId,
-      cancelledAt: new Date().toISOString(),
-      refundAmount: `$${(Math.random() * 10 + 2).toFixed(2)}`,
-      refundStatus: 'processing',
-    };
+  async sendNotification(userId: string, message: string, data?: any): Promise<NotificationResult> {
+    return this.call('notification', null, () => this.backend.sendNotification(userId, message, data));
   }
 
-  async getTrafficInfo() {
-    try {
-      const result = dummyService.generateDummyResponse('traffic');
-      return {
-        congestionLevel: result.data?.congestionLevel || 'moderate',
-        delayMinutes: result.data?.delayMinutes || 5,
-        roadCondition: result.data?.roadCondition || 'clear',
-        averageSpeed: result.data?.averageSpeed || '45 km/h',
-      };
-    } catch (error) {
-      logger.error('Failed to fetch traffic info', { error });
-      return {
-        congestionLevel: 'moderate',
-        delayMinutes: 5,
-        roadCondition: 'clear',
-        averageSpeed: '45 km/h',
-      };
+  async cancelBooking(bookingId: string, reason: string, idempotencyKey?: string): Promise<CancellationResult> {
+    return this.call('booking', null, () => this.backend.cancelBooking(bookingId, reason, idempotencyKey));
+  }
+
+  async getTrafficInfo(): Promise<TrafficInfo> {
+    return this.call('traffic', 'current', () => this.backend.getTrafficInfo());
+  }
+
+  async getUserProfile(userId: string): Promise<User> {
+    return this.call('user', userId, () => this.backend.getUserProfile(userId));
+  }
+
+  // A stream rather than a call: not behind a circuit breaker, the backend reconnects on its own
+  watchDriverLocation(driverId: string, onLocation: (location: DriverLocation) => void): () => void {
+    return this.backend.watchDriverLocation(driverId, onLocation);
+  }
+
+  // True while the service's circuit is open (calls fail fast)
+  isDegraded(service: ApiService): boolean {
+    return this.breakers.get(service)!.isOpen();
+  }
+
+  getLastKnown<T>(service: ApiService, key: string): LastKnown<T> | null {
+    return this.lastKnown.get(`${service}:${key}`) || null;
+  }
+
+  getHealth(): Record<ApiService, ReturnType<CircuitBreaker['getStats']>> {
+    const health = {} as Record<ApiService, ReturnType<CircuitBreaker['getStats']>>;
+    for (const [service, breaker] of this.breakers) {
+      health[service] = breaker.getStats();
     }
+    return health;
   }
 
-  async getUserProfile(userId: string) {
-    try {
-      const result = dummyService.generateDummyResponse('user');
-      return {
-        id: userId,
-        name: result.data?.name || 'Guest User',
-        email: result.data?.email || 'user@example.com',
-        phone: result.data?.phone || '+1234567890',
-        completedRides: result.data?.completedRides || 42,
-        rating: result.data?.rating || '4.7',
-      };
-    } catch (error) {
-      logger.error('Failed to fetch user profile', { userId, error });
-      return {
-        id: userId,
-        name: 'Guest User',
-        email: 'user@example.com',
-        phone: '+1234567890',
-        completedRides: 42,
-        rating: '4.7',
-      };
+  private async call<T>(service: ApiService, cacheKey: string | null, fn: () => Promise<T>): Promise<T> {
+    const value = await this.breakers.get(service)!.execute(fn);
+    if (cacheKey !== null) {
+      this.lastKnown.set(`${service}:${cacheKey}`, { value, fetchedAt: new Date() });
     }
+    return value;
   }
 }
 
-export default new ApiClient();
+export function createApiBackend(mode: string = config.apiMode): ApiBackend {
+  const dummyBackend = new DummyApiBackend();
+
+  if (mode === 'http') {
+    logger.info('ApiClient using HTTP backend', {
+      bookingApiUrl: config.bookingApiUrl,
+      driverApiUrl: config.driverApiUrl,
+      paymentApiUrl: config.paymentApiUrl,
+      notificationApiUrl: config.notificationApiUrl,
+      driverLocationStreamUrl: config.driverLocationStreamUrl,
+    });
+    return new HttpApiBackend(
+      {
+        bookingApiUrl: config.bookingApiUrl,
+        driverApiUrl: config.driverApiUrl,
+        paymentApiUrl: config.paymentApiUrl,
+        notificationApiUrl: config.notificationApiUrl,
+        driverLocationStreamUrl: config.driverLocationStreamUrl,
+        streamReconnectMs: config.driverLocationReconnectMs,
+        timeouts: config.apiTimeouts,
+        maxAttempts: config.maxRetryAttempts,
+        retryBackoffMs: config.apiRetryBackoffMs,
+      },
+      dummyBackend
+    );
+  }
+
+  return dummyBackend;
+}
+
+export { ApiClient };
+export default new ApiClient(createApiBackend(), config.circuitBreaker);
@@ -0,0 +1,156 @@
+import logger from './logger';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  // Failure rate (0-1) over the rolling window that opens the circuit
+  failureRateThreshold: number;
+  // Minimum calls in the window before the failure rate is evaluated
+  minimumRequests: number;
+  // Number of most recent calls tracked
+  windowSize: number;
+  // How long the circuit stays open before a trial call is allowed
+  openDurationMs: number;
+}
+
+/**
+ * Raised instead of calling the dependency while the circuit is open.
+ */
+export class CircuitOpenError extends Error {
+  service: string;
+
+  constructor(service: string) {
+    super(`Circuit for ${service} is open`);
+    this.name = 'CircuitOpenError';
+    this.service = service;
+  }
+}
+
+/**
+ * Rolling-window circuit breaker.
+ * closed → open when the failure rate crosses the threshold;
+ * open → half_open after openDurationMs; one trial call then
+ * closes the circuit on success or re-opens it on failure.
+ */
+export class CircuitBreaker {
+  private name: string;
+  private options: CircuitBreakerOptions;
+  private state: CircuitState;
+  private outcomes: boolean[];
+  private openedAt: number | null;
+  private trialInFlight: boolean;
+  private lastFailure: { message: string; at: Date } | null;
+
+  constructor(name: string, options: CircuitBreakerOptions) {
+    this.name = name;
+    this.options = options;
+    this.state = 'closed';
+    this.outcomes = [];
+    this.openedAt = null;
+    this.trialInFlight = false;
+    this.lastFailure = null;
+  }
+
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    this.refreshState();
+
+    if (this.state === 'open' || (this.state === 'half_open' && this.trialInFlight)) {
+      throw new CircuitOpenError(this.name);
+    }
+
+    const isTrial = this.state === 'half_open';
+    if (isTrial) this.trialInFlight = true;
+
+    try {
+      const result = await fn();
+      this.recordSuccess(isTrial);
+      return result;
+    } catch (error) {
+      this.recordFailure(isTrial, error);
+      throw error;
+    } finally {
+      if (isTrial) this.trialInFlight = false;
+    }
+  }
+
+  getState(): CircuitState {
+    this.refreshState();
+    return this.state;
+  }
+
+  isOpen(): boolean {
+    return this.getState() === 'open';
+  }
+
+  getStats() {
+    const failures = this.outcomes.filter((ok) => !ok).length;
+    return {
+      state: this.getState(),
+      calls: this.outcomes.length,
+      failures,
+      failureRate: this.outcomes.length ? failures / this.outcomes.length : 0,
+      openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : null,
+      lastFailure: this.lastFailure,
+    };
+  }
+
+  private refreshState(): void {
+    if (
+      this.state === 'open' &&
+      this.openedAt !== null &&
+      Date.now() - this.openedAt >= this.options.openDurationMs
+    ) {
+      this.state = 'half_open';
+      logger.info('Circuit half-open, allowing trial call', { service: this.name });
+    }
+  }
+
+  private recordSuccess(isTrial: boolean): void {
+    if (isTrial) {
+      this.state = 'closed';
+      this.outcomes = [];
+      this.openedAt = null;
+      logger.info('Circuit closed', { service: this.name });
+    }
+    this.pushOutcome(true);
+  }
+
+  private recordFailure(isTrial: boolean, error: unknown): void {
+    this.lastFailure = {
+      message: error instanceof Error ? error.message : String(error),
+      at: new Date(),
+    };
+    this.pushOutcome(false);
+
+    if (isTrial) {
+      this.open();
+      return;
+    }
+
+    const failures = this.outcomes.filter((ok) => !ok).length;
+    if (
+      this.state === 'closed' &&
+      this.outcomes.length >= this.options.minimumRequests &&
+      failures / this.outcomes.length >= this.options.failureRateThreshold
+    ) {
+      this.open();
+    }
+  }
+
+  private open(): void {
+    this.state = 'open';
+    this.openedAt = Date.now();
+    logger.warn('Circuit opened', {
+      service: this.name,
+      openDurationMs: this.options.openDurationMs,
+      lastFailure: this.lastFailure?.message,
+    });
+  }
+
+  private pushOutcome(ok: boolean): void {
+    this.outcomes.push(ok);
+    if (this.outcomes.length > this.options.windowSize) {
+      this.outcomes.shift();
+    }
+  }
+}
@@ -0,0 +1,237 @@
+import logger from './logger';
+import dummyService from '../services/dummyService';
+import {
+  BookingDetails,
+  Driver,
+  DriverLocation,
+  PaymentDetails,
+  TrafficInfo,
+  NotificationResult,
+  CancellationResult,
+  User,
+} from '../types';
+import { ApiBackend } from './apiClient';
+
+/**
+ * Backend that calls the DummyService directly for instant data access.
+ * No HTTP roundtrip — used for local development and demos (API_MODE=dummy).
+ */
+// Same cadence and area as /api/dummy/realtime/driver-location
+const DUMMY_LOCATION_INTERVAL_MS = 2000;
+// The dummy driver goes from pickup to dropoff in DUMMY_TRIP_UPDATES updates, weaving a little
+const DUMMY_PICKUP = { lat: 40.7128, lng: -74.006 };
+const DUMMY_DROPOFF = { lat: 40.6782, lng: -73.9442 };
+const DUMMY_TRIP_UPDATES = 150;
+
+export class DummyApiBackend implements ApiBackend {
+  // Results by idempotency key, so a replayed cancellation is not applied twice
+  private cancellations: Map<string, CancellationResult> = new Map();
+
+  async getBooking(bookingId: string): Promise<BookingDetails> {
+    try {
+      const result = dummyService.generateDummyResponse('booking');
+      logger.info('Booking fetched via dummy service', { bookingId });
+      return {
+        id: bookingId,
+        userId: 'user_456',
+        driverId: 'driver_789',
+        status: (result.data?.status || 'confirmed') as BookingDetails['status'],
+        estimatedFare: result.data?.fare || '$24.50',
+        distance: result.data?.distance || '8.3 km',
+        createdAt: result.data?.createdAt || new Date(Date.now() - 10 * 60 * 1000).toISOString(),
+        pickupLocation: result.data?.pickupAddress || '123 Main St, New York',
+        dropoffLocation: result.data?.dropoffAddress || '456 Oak Ave, Brooklyn',
+        pickupCoordinates: DUMMY_PICKUP,
+        dropoffCoordinates: DUMMY_DROPOFF,
+        rideType: result.data?.rideType || 'comfort',
+        duration: result.data?.duration || '15 min',
+      };
+    } catch (error) {
+      logger.error('Failed to fetch booking', { bookingId, error });
+      return {
+        id: bookingId,
+        userId: 'user_456',
+        driverId: 'driver_789',
+        status: 'confirmed',
+        estimatedFare: '$24.50',
+        distance: '8.3 km',
+        createdAt: new Date(Date.now() - 10 * 60 * 1000).toISOString(),
+        pickupLocation: '123 Main St, New York',
+        dropoffLocation: '456 Oak Ave, Brooklyn',
+        pickupCoordinates: DUMMY_PICKUP,
+        dropoffCoordinates: DUMMY_DROPOFF,
+        rideType: 'comfort',
+        duration: '15 min',
+      };
+    }
+  }
+
+  async getDriver(driverId: string): Promise<Driver> {
+    try {
+      const result = dummyService.generateDummyResponse('driver');
+      logger.info('Driver fetched via dummy service', { driverId });
+      return {
+        id: driverId,
+        name: result.data?.name || 'John Smith',
+        rating: parseFloat(result.data?.rating) || 4.8,
+        vehicleInfo: result.data?.vehicle || 'Tesla Model 3 • White',
+        licensePlate: result.data?.licensePlate || 'ABC-1234',
+        currentLocation: {
+          lat: parseFloat(result.data?.latitude) || 40.7128,
+          lng: parseFloat(result.data?.longitude) || -74.006,
+        },
+        eta: result.data?.eta || Math.floor(Math.random() * 8 + 3),
+        phone: result.data?.phone || '+1234567890',
+        status: (result.data?.status || 'en_route') as Driver['status'],
+        completedTrips: result.data?.completedTrips || 1247,
+      };
+    } catch (error) {
+      logger.error('Failed to fetch driver', { driverId, error });
+      return {
+        id: driverId,
+        name: 'John Smith',
+        rating: 4.8,
+        vehicleInfo: 'Tesla Model 3 • White',
+        licensePlate: 'ABC-1234',
+        currentLocation: { lat: 40.7128, lng: -74.006 },
+        eta: 5,
+        phone: '+1234567890',
+        status: 'en_route',
+        completedTrips: 1247,
+      };
+    }
+  }
+
+  async getPaymentDetails(bookingId: string): Promise<PaymentDetails> {
+    try {
+      const result = dummyService.generateDummyResponse('payment');
+      logger.info('Payment fetched via dummy service', { bookingId });
+      return {
+        bookingId,
+        estimatedFare: result.data?.estimatedFare || '24.50',
+        amount: result.data?.amount || '$24.50',
+        method: result.data?.method || 'credit_card',
+        status: (result.data?.status || 'pending') as PaymentDetails['status'],
+        transactionId: result.data?.transactionId || 'txn_demo',
+        breakdown: result.data?.breakdown || {
+          baseFare: '$3.50',
+          distance: '$12.00',
+          time: '$6.00',
+          serviceFee: '$3.00',
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to fetch payment details', { bookingId, error });
+      return {
+        bookingId,
+        estimatedFare: '24.50',
+        amount: '$24.50',
+        method: 'credit_card',
+        status: 'pending',
+        transactionId: 'txn_demo',
+        breakdown: { baseFare: '$3.50', distance: '$12.00', time: '$6.00', serviceFee: '$3.00' },
+      };
+    }
+  }
+
+  async sendNotification(userId: string, message: string, _data?: any): Promise<NotificationResult> {
+    logger.info('Notification sent via dummy service', { userId, message });
+    return {
+      success: true,
+      notificationId: `notif_${Math.random().toString(36).substr(2, 9)}`,
+      userId,
+      message,
+      sentAt: new Date().toISOString(),
+      delivered: true,
+    };
+  }
+
+  async cancelBooking(bookingId: string, reason: string, idempotencyKey?: string): Promise<CancellationResult> {
+    const previous = idempotencyKey ? this.cancellations.get(idempotencyKey) : undefined;
+    if (previous) {
+      logger.info('Cancellation replayed via dummy service', { bookingId, idempotencyKey });
+      return previous;
+    }
+
+    logger.info('Booking cancelled via dummy service', { bookingId, reason, idempotencyKey });
+    const result: CancellationResult = {
+      status: 'success',
+      message: 'Booking cancelled successfully',
+      bookingId,
+      cancelledAt: new Date().toISOString(),
+      // No refundAmount: the mock doesn't know the fare, so the chat quotes the policy refund
+      refundStatus: 'processing',
+    };
+    if (idempotencyKey) this.cancellations.set(idempotencyKey, result);
+    return result;
+  }
+
+  async getTrafficInfo(): Promise<TrafficInfo> {
+    try {
+      const result = dummyService.generateDummyResponse('traffic');
+      return {
+        congestionLevel: result.data?.congestionLevel || 'moderate',
+        delayMinutes: result.data?.delayMinutes || 5,
+        roadCondition: result.data?.roadCondition || 'clear',
+        averageSpeed: result.data?.averageSpeed || '45 km/h',
+      };
+    } catch (error) {
+      logger.error('Failed to fetch traffic info', { error });
+      return {
+        congestionLevel: 'moderate',
+        delayMinutes: 5,
+        roadCondition: 'clear',
+        averageSpeed: '45 km/h',
+      };
+    }
+  }
+
+  async getUserProfile(userId: string): Promise<User> {
+    try {
+      const result = dummyService.generateDummyResponse('user');
+      return {
+        id: userId,
+        name: result.data?.name || 'Guest User',
+        email: result.data?.email || 'user@example.com',
+        phone: result.data?.phone || '+1234567890',
+        completedRides: result.data?.completedRides || 42,
+        rating: result.data?.rating || '4.7',
+      };
+    } catch (error) {
+      logger.error('Failed to fetch user profile', { userId, error });
+      return {
+        id: userId,
+        name: 'Guest User',
+        email: 'user@example.com',
+        phone: '+1234567890',
+        completedRides: 42,
+        rating: '4.7',
+      };
+    }
+  }
+
+  // A driver wandering around lower Manhattan, getting a minute closer every few updates
+  watchDriverLocation(driverId: string, onLocation: (location: DriverLocation) => void): () => void {
+    let updates = 0;
+    const timer = setInterval(() => {
+      updates++;
+      const progress = Math.min(1, updates / DUMMY_TRIP_UPDATES);
+      const lat = DUMMY_PICKUP.lat + (DUMMY_DROPOFF.lat - DUMMY_PICKUP.lat) * progress + (Math.random() - 0.5) * 0.001;
+      const lng = DUMMY_PICKUP.lng + (DUMMY_DROPOFF.lng - DUMMY_PICKUP.lng) * progress + (Math.random() - 0.5) * 0.001;
+      onLocation({
+        driverId,
+        lat: Number(lat.toFixed(6)),
+        lng: Number(lng.toFixed(6)),
+        heading: Math.floor(Math.random() * 360),
+        speed: Math.floor(Math.random() * 60 + 20),
+        eta: Math.max(1, 10 - Math.floor(updates / 3)),
+        timestamp: new Date(),
+      });
+    }, DUMMY_LOCATION_INTERVAL_MS);
+    // Never keeps the process alive on its own
+    timer.unref();
+
+    logger.info('Driver location stream started via dummy service', { driverId });
+    return () => clearInterval(timer);
+  }
+}
@@ -0,0 +1,385 @@
+import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
+import logger from './logger';
+import {
+  BookingDetails,
+  Driver,
+  DriverLocation,
+  PaymentDetails,
+  TrafficInfo,
+  NotificationResult,
+  CancellationResult,
+  User,
+} from '../types';
+import { ApiBackend } from './apiClient';
+
+export interface HttpApiBackendOptions {
+  bookingApiUrl: string;
+  driverApiUrl: string;
+  paymentApiUrl: string;
+  notificationApiUrl: string;
+  driverLocationStreamUrl: string;
+  // Wait before reconnecting a dropped location stream
+  streamReconnectMs: number;
+  timeouts: {
+    booking: number;
+    driver: number;
+    payment: number;
+    notification: number;
+  };
+  // Total attempts per call (first try included), bounded by config.maxRetryAttempts
+  maxAttempts: number;
+  retryBackoffMs: number;
+}
+
+/**
+ * Raised when a downstream call fails after all attempts.
+ */
+export class ApiRequestError extends Error {
+  operation: string;
+  status?: number;
+  attempts: number;
+
+  constructor(operation: string, message: string, attempts: number, status?: number) {
+    super(`${operation} failed after ${attempts} attempt(s): ${message}`);
+    this.name = 'ApiRequestError';
+    this.operation = operation;
+    this.status = status;
+    this.attempts = attempts;
+  }
+}
+
+// ────────────────────────────────────────────
+// Response mapping
+// Upstream services may wrap payloads in { data: ... } and use either the
+// canonical field names or the legacy ones served by /api/dummy.
+// ────────────────────────────────────────────
+function unwrap(body: any): Record<string, any> {
+  if (body && typeof body === 'object' && body.data && typeof body.data === 'object') {
+    return body.data;
+  }
+  return body || {};
+}
+
+function toNumber(value: any, fallback: number = 0): number {
+  const parsed = typeof value === 'number' ? value : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+const BOOKING_STATUSES: BookingDetails['status'][] = [
+  'confirmed', 'in_progress', 'arrived', 'completed', 'cancelled',
+];
+
+const DRIVER_STATUSES: Record<string, Driver['status']> = {
+  available: 'available',
+  en_route: 'en_route',
+  in_transit: 'en_route',
+  arriving: 'en_route',
+  arrived: 'arrived',
+  waiting: 'arrived',
+  in_ride: 'in_ride',
+};
+
+const PAYMENT_STATUSES: PaymentDetails['status'][] = ['pending', 'completed', 'failed', 'refunded'];
+
+// { lat, lng } or { latitude, longitude }; undefined unless both are numbers
+function mapCoordinates(raw: Record<string, any> | undefined): { lat: number; lng: number } | undefined {
+  if (!raw) return undefined;
+  const lat = toNumber(raw.lat ?? raw.latitude, NaN);
+  const lng = toNumber(raw.lng ?? raw.longitude, NaN);
+  return Number.isFinite(lat) && Number.isFinite(lng) ? { lat, lng } : undefined;
+}
+
+function mapBooking(raw: Record<string, any>, bookingId: string): BookingDetails {
+  const status = BOOKING_STATUSES.includes(raw.status) ? raw.status : 'confirmed';
+  return {
+    id: raw.id || raw.bookingId || bookingId,
+    userId: raw.userId,
+    driverId: raw.driverId,
+    status,
+    pickupLocation: raw.pickupLocation || raw.pickupAddress || '',
+    dropoffLocation: raw.dropoffLocation || raw.dropoffAddress || '',
+    pickupCoordinates: mapCoordinates(raw.pickupCoordinates),
+    dropoffCoordinates: mapCoordinates(raw.dropoffCoordinates),
+    estimatedFare: raw.estimatedFare ?? raw.fare ?? '',
+    actualFare: raw.actualFare,
+    distance: raw.distance,
+    duration: raw.duration,
+    rideType: raw.rideType,
+    rideStartTime: raw.rideStartTime,
+    rideEndTime: raw.rideEndTime,
+    createdAt: raw.createdAt,
+    driverAssignedAt: raw.driverAssignedAt ?? raw.assignedAt,
+  };
+}
+
+function mapDriver(raw: Record<string, any>, driverId: string): Driver {
+  const location = raw.currentLocation || {};
+  return {
+    id: raw.id || raw.driverId || driverId,
+    name: raw.name || '',
+    rating: toNumber(raw.rating),
+    vehicleInfo: raw.vehicleInfo || raw.vehicle || '',
+    licensePlate: raw.licensePlate,
+    currentLocation: {
+      lat: toNumber(location.lat ?? raw.latitude),
+      lng: toNumber(location.lng ?? raw.longitude),
+    },
+    eta: toNumber(raw.eta),
+    phone: raw.phone || '',
+    status: DRIVER_STATUSES[raw.status] || 'en_route',
+    completedTrips: raw.completedTrips !== undefined ? toNumber(raw.completedTrips) : undefined,
+  };
+}
+
+// { driverId, latitude, longitude, heading, speed, eta, timestamp }, as /api/dummy/realtime/driver-location sends
+function mapDriverLocation(raw: Record<string, any>, driverId: string): DriverLocation | null {
+  const position = raw.currentLocation || raw.location || {};
+  const lat = toNumber(position.lat ?? raw.latitude ?? raw.lat, NaN);
+  const lng = toNumber(position.lng ?? raw.longitude ?? raw.lng, NaN);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  return {
+    driverId: raw.driverId || driverId,
+    lat,
+    lng,
+    heading: raw.heading !== undefined ? toNumber(raw.heading) : undefined,
+    speed: raw.speed !== undefined ? toNumber(raw.speed) : undefined,
+    eta: raw.eta !== undefined ? toNumber(raw.eta) : undefined,
+    timestamp: raw.timestamp ? new Date(raw.timestamp) : new Date(),
+  };
+}
+
+function mapPayment(raw: Record<string, any>, bookingId: string): PaymentDetails {
+  const breakdown = raw.breakdown || {};
+  return {
+    bookingId: raw.bookingId || bookingId,
+    estimatedFare: String(raw.estimatedFare ?? ''),
+    amount: String(raw.amount ?? ''),
+    method: raw.method || '',
+    status: PAYMENT_STATUSES.includes(raw.status) ? raw.status : 'pending',
+    transactionId: raw.transactionId || '',
+    currency: raw.currency,
+    breakdown: {
+      baseFare: String(breakdown.baseFare ?? ''),
+      distance: String(breakdown.distance ?? ''),
+      time: String(breakdown.time ?? ''),
+      serviceFee: String(breakdown.serviceFee ?? ''),
+    },
+  };
+}
+
+/**
+ * Backend that calls the booking, driver, payment and notification services
+ * over HTTP (API_MODE=http). Traffic and user profile have no configured
+ * service yet and are served by the fallback backend.
+ */
+export class HttpApiBackend implements ApiBackend {
+  private http: AxiosInstance;
+  private options: HttpApiBackendOptions;
+  private fallback: ApiBackend;
+
+  constructor(options: HttpApiBackendOptions, fallback: ApiBackend) {
+    this.options = options;
+    this.fallback = fallback;
+    this.http = axios.create({
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  async getBooking(bookingId: string): Promise<BookingDetails> {
+    const body = await this.request('getBooking', {
+      method: 'GET',
+      url: `${this.options.bookingApiUrl}/${encodeURIComponent(bookingId)}`,
+      timeout: this.options.timeouts.booking,
+    });
+    return mapBooking(unwrap(body), bookingId);
+  }
+
+  async getDriver(driverId: string): Promise<Driver> {
+    const body = await this.request('getDriver', {
+      method: 'GET',
+      url: `${this.options.driverApiUrl}/${encodeURIComponent(driverId)}`,
+      timeout: this.options.timeouts.driver,
+    });
+    return mapDriver(unwrap(body), driverId);
+  }
+
+  async getPaymentDetails(bookingId: string): Promise<PaymentDetails> {
+    const body = await this.request('getPaymentDetails', {
+      method: 'GET',
+      url: `${this.options.paymentApiUrl}/booking/${encodeURIComponent(bookingId)}`,
+      timeout: this.options.timeouts.payment,
+    });
+    return mapPayment(unwrap(body), bookingId);
+  }
+
+  async sendNotification(userId: string, message: string, data?: any): Promise<NotificationResult> {
+    // POSTs are not retried: a timed-out request may still have been delivered
+    const body = await this.request(
+      'sendNotification',
+      {
+        method: 'POST',
+        url: `${this.options.notificationApiUrl}/send`,
+        timeout: this.options.timeouts.notification,
+        data: { userId, message, data },
+      },
+      false
+    );
+    const raw = unwrap(body);
+    return {
+      success: raw.success ?? true,
+      notificationId: raw.notificationId || '',
+      userId: raw.userId || userId,
+      message: raw.message || message,
+      sentAt: raw.sentAt || new Date().toISOString(),
+      delivered: raw.delivered ?? false,
+    };
+  }
+
+  async cancelBooking(bookingId: string, reason: string, idempotencyKey?: string): Promise<CancellationResult> {
+    // Safe to retry only when the booking service can de-duplicate the request
+    const body = await this.request(
+      'cancelBooking',
+      {
+        method: 'POST',
+        url: `${this.options.bookingApiUrl}/${encodeURIComponent(bookingId)}/cancel`,
+        timeout: this.options.timeouts.booking,
+        data: { reason },
+        headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
+      },
+      !!idempotencyKey
+    );
+    const raw = unwrap(body);
+    return {
+      status: body?.status || 'success',
+      message: body?.message || 'Booking cancelled successfully',
+      bookingId: raw.bookingId || bookingId,
+      cancelledAt: raw.cancelledAt || new Date().toISOString(),
+      refundAmount: raw.refundAmount,
+      refundStatus: raw.refundStatus,
+    };
+  }
+
+  async getTrafficInfo(): Promise<TrafficInfo> {
+    return this.fallback.getTrafficInfo();
+  }
+
+  async getUserProfile(userId: string): Promise<User> {
+    return this.fallback.getUserProfile(userId);
+  }
+
+  // ────────────────────────────────────────────
+  // Driver-location stream (server-sent events). Reconnects after
+  // streamReconnectMs whenever the connection drops, until stopped.
+  // ────────────────────────────────────────────
+  watchDriverLocation(driverId: string, onLocation: (location: DriverLocation) => void): () => void {
+    let stopped = false;
+    let controller: AbortController | undefined;
+    let reconnectTimer: NodeJS.Timeout | undefined;
+
+    const reconnect = (reason: string) => {
+      if (stopped || reconnectTimer) return;
+      logger.warn('Driver location stream dropped', { driverId, reason, retryInMs: this.options.streamReconnectMs });
+      reconnectTimer = setTimeout(() => {
+        reconnectTimer = undefined;
+        connect();
+      }, this.options.streamReconnectMs);
+    };
+
+    const connect = () => {
+      controller = new AbortController();
+      this.http
+        .get(this.options.driverLocationStreamUrl, {
+          params: { driverId },
+          responseType: 'stream',
+          headers: { Accept: 'text/event-stream' },
+          signal: controller.signal,
+        })
+        .then((response) => {
+          let buffer = '';
+          response.data.on('data', (chunk: Buffer) => {
+            buffer += chunk.toString('utf8');
+            // Events are separated by a blank line; the last piece may be incomplete
+            const events = buffer.split(/\r?\n\r?\n/);
+            buffer = events.pop() || '';
+            for (const event of events) {
+              const data = event
+                .split(/\r?\n/)
+                .filter((line) => line.startsWith('data:'))
+                .map((line) => line.slice(5).trim())
+                .join('\n');
+              if (!data) continue;
+              try {
+                const location = mapDriverLocation(JSON.parse(data), driverId);
+                if (location && location.driverId === driverId) onLocation(location);
+              } catch (error) {
+                logger.warn('Unreadable driver location event', { driverId, data, error });
+              }
+            }
+          });
+          response.data.on('end', () => reconnect('ended'));
+          response.data.on('error', (error: Error) => reconnect(error.message));
+        })
+        .catch((error) => reconnect(error instanceof Error ? error.message : String(error)));
+    };
+
+    connect();
+    return () => {
+      stopped = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      controller?.abort();
+    };
+  }
+
+  // ────────────────────────────────────────────
+  // Request with per-call timeout and bounded retries.
+  // Retries only on network errors, timeouts, 429 and 5xx.
+  // ────────────────────────────────────────────
+  private async request(
+    operation: string,
+    requestConfig: AxiosRequestConfig,
+    retryable: boolean = true
+  ): Promise<any> {
+    const maxAttempts = retryable ? Math.max(1, this.options.maxAttempts) : 1;
+    let lastError: any;
+    let attempts = 0;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      attempts = attempt;
+      const startTime = Date.now();
+      try {
+        const response = await this.http.request(requestConfig);
+        logger.info('Downstream API call succeeded', {
+          operation,
+          attempt,
+          durationMs: Date.now() - startTime,
+        });
+        return response.data;
+      } catch (error) {
+        lastError = error;
+        const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+        const shouldRetry =
+          attempt < maxAttempts && (status === undefined || status === 429 || status >= 500);
+
+        logger.warn('Downstream API call failed', {
+          operation,
+          attempt,
+          status,
+          durationMs: Date.now() - startTime,
+          message: error instanceof Error ? error.message : String(error),
+          willRetry: shouldRetry,
+        });
+
+        if (!shouldRetry) break;
+        await new Promise((resolve) => setTimeout(resolve, this.options.retryBackoffMs * attempt));
+      }
+    }
+
+    const status = axios.isAxiosError(lastError) ? lastError.response?.status : undefined;
+    throw new ApiRequestError(
+      operation,
+      lastError instanceof Error ? lastError.message : 'Unknown error',
+      attempts,
+      status
+    );
+  }
+}
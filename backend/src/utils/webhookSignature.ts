@@ -0,0 +1,28 @@
+import crypto from 'crypto';
+
+// A receiver should reject signatures older than this (replays)
+export const WEBHOOK_SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+/**
+ * X-Webhook-Signature for a delivery: `sha256=` and the hex HMAC-SHA256,
+ * keyed with the shared secret, of `<X-Webhook-Timestamp>.<raw body>`.
+ */
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+  return 'sha256=' + crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// How a receiver checks a delivery: signature over the exact bytes received, timestamp recent
+export function verifyWebhook(
+  secret: string,
+  timestamp: number,
+  body: string,
+  signature: string,
+  now: number = Date.now()
+): boolean {
+  if (!Number.isFinite(timestamp) || Math.abs(now - timestamp * 1000) > WEBHOOK_SIGNATURE_TOLERANCE_MS) {
+    return false;
+  }
+  const expected = Buffer.from(signWebhook(secret, timestamp, body));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
@@ -0,0 +1,140 @@
+import { ApiClient } from '../src/utils/apiClient';
+import { DummyApiBackend } from '../src/utils/dummyApiBackend';
+import { ApiRequestError, HttpApiBackend, HttpApiBackendOptions } from '../src/utils/httpApiBackend';
+import { CircuitOpenError } from '../src/utils/circuitBreaker';
+import { StubServer } from './stubServer';
+
+const stub = new StubServer();
+let options: HttpApiBackendOptions;
+
+beforeAll(async () => {
+  const url = await stub.start();
+  options = {
+    bookingApiUrl: `${url}/bookings`,
+    driverApiUrl: `${url}/drivers`,
+    paymentApiUrl: `${url}/payments`,
+    notificationApiUrl: `${url}/notifications`,
+    driverLocationStreamUrl: `${url}/drivers/locations/stream`,
+    streamReconnectMs: 50,
+    timeouts: { booking: 200, driver: 200, payment: 200, notification: 200 },
+    maxAttempts: 3,
+    retryBackoffMs: 10,
+  };
+});
+
+afterAll(() => stub.stop());
+
+const backend = () => new HttpApiBackend(options, new DummyApiBackend());
+
+// Answers with `failures` first, then 200 with `body`
+const failingThen = (failures: Array<{ status: number; delayMs?: number }>, body: unknown) => {
+  let calls = 0;
+  return () => (calls < failures.length ? failures[calls++] : { status: 200, body });
+};
+
+describe('HttpApiBackend', () => {
+  it('maps a wrapped booking with legacy field names', async () => {
+    stub.reset(() => ({
+      status: 200,
+      body: { data: { bookingId: 'BK-1', status: 'in_progress', pickupAddress: '1 Main St', fare: '$12.50' } },
+    }));
+
+    const booking = await backend().getBooking('BK-1');
+
+    expect(stub.requests[0]).toMatchObject({ method: 'GET', url: '/bookings/BK-1' });
+    expect(booking).toMatchObject({ id: 'BK-1', status: 'in_progress', pickupLocation: '1 Main St', estimatedFare: '$12.50' });
+  });
+
+  it('retries a 5xx and returns the answer that follows', async () => {
+    stub.reset(failingThen([{ status: 503 }, { status: 500 }], { id: 'driver_1', name: 'Ana', rating: '4.9' }));
+
+    const driver = await backend().getDriver('driver_1');
+
+    expect(stub.requests).toHaveLength(3);
+    expect(driver).toMatchObject({ id: 'driver_1', name: 'Ana', rating: 4.9 });
+  });
+
+  it('retries a timed-out call', async () => {
+    stub.reset(failingThen([{ status: 200, delayMs: 400 }], { bookingId: 'BK-2', amount: '9.00', status: 'completed' }));
+
+    const payment = await backend().getPaymentDetails('BK-2');
+
+    expect(stub.requests).toHaveLength(2);
+    expect(payment).toMatchObject({ bookingId: 'BK-2', amount: '9.00', status: 'completed' });
+  });
+
+  it('gives up after maxAttempts', async () => {
+    stub.reset(() => ({ status: 502 }));
+
+    const error = await backend().getBooking('BK-3').catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(ApiRequestError);
+    expect(error).toMatchObject({ operation: 'getBooking', attempts: 3, status: 502 });
+    expect(stub.requests).toHaveLength(3);
+  });
+
+  it('does not retry a 4xx', async () => {
+    stub.reset(() => ({ status: 404, body: { error: 'not found' } }));
+
+    await expect(backend().getBooking('BK-404')).rejects.toMatchObject({ attempts: 1, status: 404 });
+    expect(stub.requests).toHaveLength(1);
+  });
+
+  it('does not retry a notification, which may have gone out', async () => {
+    stub.reset(() => ({ status: 503 }));
+
+    await expect(backend().sendNotification('rider_1', 'hello')).rejects.toBeInstanceOf(ApiRequestError);
+    expect(stub.requests).toHaveLength(1);
+    expect(JSON.parse(stub.requests[0].body)).toMatchObject({ userId: 'rider_1', message: 'hello' });
+  });
+
+  it('retries a cancellation only with an idempotency key', async () => {
+    stub.reset(() => ({ status: 503 }));
+    await expect(backend().cancelBooking('BK-4', 'changed plans')).rejects.toMatchObject({ attempts: 1 });
+
+    stub.reset(failingThen([{ status: 503 }], { data: { bookingId: 'BK-4', refundAmount: 5 } }));
+    const result = await backend().cancelBooking('BK-4', 'changed plans', 'key-1');
+
+    expect(stub.requests).toHaveLength(2);
+    expect(stub.requests.every((request) => request.headers['idempotency-key'] === 'key-1')).toBe(true);
+    expect(result).toMatchObject({ bookingId: 'BK-4', refundAmount: 5 });
+  });
+});
+
+describe('ApiClient circuit breaker over the HTTP backend', () => {
+  const breakerOptions = { failureRateThreshold: 0.5, minimumRequests: 2, windowSize: 4, openDurationMs: 100 };
+
+  it('fails fast while open, then closes after a successful trial call', async () => {
+    stub.reset(() => ({ status: 500 }));
+    const client = new ApiClient(new HttpApiBackend({ ...options, maxAttempts: 1 }, new DummyApiBackend()), breakerOptions);
+
+    await expect(client.getBooking('BK-5')).rejects.toBeInstanceOf(ApiRequestError);
+    await expect(client.getBooking('BK-5')).rejects.toBeInstanceOf(ApiRequestError);
+    expect(client.isDegraded('booking')).toBe(true);
+
+    await expect(client.getBooking('BK-5')).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(stub.requests).toHaveLength(2);
+    // Each dependency has its own circuit
+    expect(client.isDegraded('driver')).toBe(false);
+
+    await new Promise((resolve) => setTimeout(resolve, breakerOptions.openDurationMs));
+    stub.reset(() => ({ status: 200, body: { id: 'BK-5', status: 'confirmed' } }));
+
+    await expect(client.getBooking('BK-5')).resolves.toMatchObject({ id: 'BK-5' });
+    expect(client.isDegraded('booking')).toBe(false);
+    expect(client.getLastKnown('booking', 'BK-5')?.value).toMatchObject({ id: 'BK-5' });
+  });
+
+  it('opens again when the trial call fails', async () => {
+    stub.reset(() => ({ status: 500 }));
+    const client = new ApiClient(new HttpApiBackend({ ...options, maxAttempts: 1 }, new DummyApiBackend()), breakerOptions);
+
+    await client.getBooking('BK-6').catch(() => undefined);
+    await client.getBooking('BK-6').catch(() => undefined);
+    await new Promise((resolve) => setTimeout(resolve, breakerOptions.openDurationMs));
+
+    await expect(client.getBooking('BK-6')).rejects.toBeInstanceOf(ApiRequestError);
+    await expect(client.getBooking('BK-6')).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(stub.requests).toHaveLength(3);
+  });
+});
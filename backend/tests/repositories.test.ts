@@ -0,0 +1,143 @@
+import {
+  InMemoryConversationRepository,
+  InMemoryEscalationRepository,
+  InMemorySafetyIncidentRepository,
+} from '../src/repositories/inMemoryRepository';
+import { Repositories } from '../src/repositories/types';
+import { ChatMessage, Conversation, SupportTicket } from '../src/types';
+
+type SharedRepositories = Pick<Repositories, 'conversations' | 'escalations' | 'safetyIncidents'>;
+
+const at = (minute: number) => new Date(Date.UTC(2026, 0, 1, 12, minute));
+
+const conversation = (id: string, userId: string, updatedAt: Date): Conversation => ({
+  id,
+  bookingId: `booking_${id}`,
+  userId,
+  messages: [],
+  status: 'active',
+  createdAt: at(0),
+  updatedAt,
+  language: 'en',
+});
+
+const message = (id: string, conversationId: string, minute: number): ChatMessage => ({
+  id,
+  conversationId,
+  sender: 'user',
+  message: `message ${id}`,
+  timestamp: at(minute),
+});
+
+const ticket = (id: string, priority: SupportTicket['priority'], minute: number): SupportTicket => ({
+  id,
+  escalationRequestId: `esc_${id}`,
+  conversationId: 'conv_1',
+  userId: 'rider_1',
+  status: 'open',
+  priority,
+  createdAt: at(minute),
+  events: [],
+});
+
+/**
+ * Behaviour every repository implementation must share; run it against
+ * each backend so the in-memory one stays a faithful stand-in.
+ */
+function describeRepositories(name: string, create: () => SharedRepositories): void {
+  describe(name, () => {
+    let repositories: SharedRepositories;
+
+    beforeEach(() => {
+      repositories = create();
+    });
+
+    describe('conversations', () => {
+      it('stores a conversation and applies only the changed fields', async () => {
+        await repositories.conversations.insertConversation(conversation('conv_1', 'rider_1', at(1)));
+        await repositories.conversations.updateConversation('conv_1', { status: 'escalated', updatedAt: at(2) });
+
+        const stored = await repositories.conversations.findConversation('conv_1');
+        expect(stored).toMatchObject({ status: 'escalated', bookingId: 'booking_conv_1', updatedAt: at(2) });
+        expect(await repositories.conversations.findConversation('missing')).toBeNull();
+      });
+
+      it('returns the latest messages in order, up to the limit', async () => {
+        await repositories.conversations.insertConversation(conversation('conv_1', 'rider_1', at(1)));
+        for (const minute of [1, 2, 3]) {
+          await repositories.conversations.appendMessage(message(`msg_${minute}`, 'conv_1', minute));
+        }
+
+        const all = await repositories.conversations.findMessages('conv_1');
+        const latest = await repositories.conversations.findMessages('conv_1', 2);
+        expect(all.map((m) => m.id)).toEqual(['msg_1', 'msg_2', 'msg_3']);
+        expect(latest.map((m) => m.id)).toEqual(['msg_2', 'msg_3']);
+      });
+
+      it('does not let callers change stored state through returned values', async () => {
+        const original = conversation('conv_1', 'rider_1', at(1));
+        await repositories.conversations.insertConversation(original);
+        await repositories.conversations.appendMessage(message('msg_1', 'conv_1', 1));
+        original.status = 'closed';
+
+        const transcript = await repositories.conversations.findMessages('conv_1');
+        transcript.push(message('msg_2', 'conv_1', 2));
+        transcript[0].message = 'edited';
+        const found = await repositories.conversations.findConversation('conv_1');
+        found!.status = 'resolved';
+
+        const stored = await repositories.conversations.findConversation('conv_1');
+        expect(stored!.status).toBe('active');
+        expect(stored!.messages.map((m) => m.message)).toEqual(['message msg_1']);
+      });
+
+      it("lists a user's conversations, most recently updated first", async () => {
+        await repositories.conversations.insertConversation(conversation('conv_1', 'rider_1', at(1)));
+        await repositories.conversations.insertConversation(conversation('conv_2', 'rider_1', at(3)));
+        await repositories.conversations.insertConversation(conversation('conv_3', 'rider_2', at(2)));
+
+        const found = await repositories.conversations.findConversationsByUser('rider_1', 10);
+        expect(found.map((c) => c.id)).toEqual(['conv_2', 'conv_1']);
+      });
+    });
+
+    describe('escalations', () => {
+      it('lets only one agent claim a ticket', async () => {
+        await repositories.escalations.insertSupportTicket(ticket('ticket_1', 'high', 1));
+
+        const [first, second] = await Promise.all([
+          repositories.escalations.claimSupportTicket('ticket_1', 'agent_1'),
+          repositories.escalations.claimSupportTicket('ticket_1', 'agent_2'),
+        ]);
+        expect(first).toMatchObject({ status: 'in_progress', assignedAgent: 'agent_1' });
+        expect(second).toBeNull();
+      });
+
+      it('lists tickets by priority, then oldest first', async () => {
+        await repositories.escalations.insertSupportTicket(ticket('ticket_1', 'medium', 1));
+        await repositories.escalations.insertSupportTicket(ticket('ticket_2', 'critical', 3));
+        await repositories.escalations.insertSupportTicket(ticket('ticket_3', 'medium', 0));
+
+        const found = await repositories.escalations.findTickets({ statuses: ['open'] });
+        expect(found.map((t) => t.id)).toEqual(['ticket_2', 'ticket_3', 'ticket_1']);
+      });
+    });
+
+    describe('safety incidents', () => {
+      it('does not let callers change the stored audit trail', async () => {
+        await repositories.safetyIncidents.appendAudit({
+          id: 'audit_1', eventId: 'safety_1', action: 'detected', actor: 'system', at: at(1),
+        });
+
+        (await repositories.safetyIncidents.findAudit('safety_1')).length = 0;
+        expect(await repositories.safetyIncidents.findAudit('safety_1')).toHaveLength(1);
+      });
+    });
+  });
+}
+
+describeRepositories('in-memory repositories', () => ({
+  conversations: new InMemoryConversationRepository(),
+  escalations: new InMemoryEscalationRepository(),
+  safetyIncidents: new InMemorySafetyIncidentRepository(),
+}));
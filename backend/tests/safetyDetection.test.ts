@@ -0,0 +1,115 @@
+import config from '../src/config';
+import safetyDetectionService from '../src/services/safetyDetection';
+
+// Each case gets its own conversation so medium runs don't carry over
+let sequence = 0;
+const detect = (text: string, language: 'en' | 'es' | 'fr' = 'en') =>
+  safetyDetectionService.detectSafetyConcerns(text, `conv_${++sequence}`, 'rider_test', undefined, language);
+
+describe('SafetyDetectionService', () => {
+  describe('detectSafetyConcerns', () => {
+    it.each([
+      'thanks for the help',
+      'I need help with my booking',
+      'where is my driver now, I need to check the fare',
+      "I'm not in danger, just curious where the driver is",
+      "I'm not in danger",
+      'I am not in danger',
+      'no emergency, the driver is just late',
+    ])('does not flag "%s" as a concern', (text) => {
+      // Nothing, or a low-severity match that is only tagged for the transcript
+      expect(detect(text)?.severity ?? 'low').toBe('low');
+    });
+
+    it.each([
+      ['the driver is following me and I feel unsafe', 'high'],
+      ['please dont hurt me', 'critical'],
+      ['I need help', 'high'],
+      ['I need help now', 'critical'],
+      ['HELP, the driver will not let me out', 'critical'],
+    ])('flags "%s" as %s', (text, severity) => {
+      expect(detect(text)?.severity).toBe(severity);
+    });
+
+    it('tells a denied concern apart from no concern at all', () => {
+      expect(safetyDetectionService.isNegatedConcern("I'm not in danger")).toBe(true);
+      expect(safetyDetectionService.isNegatedConcern('I am not in danger')).toBe(true);
+      expect(safetyDetectionService.isNegatedConcern('I am in danger')).toBe(false);
+      expect(safetyDetectionService.isNegatedConcern('where is my driver')).toBe(false);
+    });
+
+    it('does not negate a plea that contains a negation', () => {
+      const event = detect("don't touch me");
+      expect(event).not.toBeNull();
+      expect(safetyDetectionService.isEscalationRequired(event!)).toBe(true);
+    });
+
+    it('reads the conversation language and English', () => {
+      expect(detect('necesito ayuda', 'es')?.severity).toBe('high');
+      expect(detect("j'ai besoin d'aide", 'fr')?.severity).toBe('high');
+      expect(detect('call the police', 'fr')).not.toBeNull();
+    });
+
+    it('records the event for the rider and the driver', () => {
+      const event = safetyDetectionService.detectSafetyConcerns(
+        'the driver is harassing me', `conv_${++sequence}`, 'rider_recorded', 'driver_recorded'
+      );
+
+      expect(event).toMatchObject({ userId: 'rider_recorded', driverId: 'driver_recorded', status: 'detected' });
+      expect(safetyDetectionService.getRecentEvents('rider_recorded')).toContain(event);
+      expect(safetyDetectionService.getDriverEvents('driver_recorded')).toContain(event);
+    });
+  });
+
+  describe('event ids', () => {
+    it('stay unique for events in the same conversation and millisecond', () => {
+      jest.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000);
+      try {
+        const conversationId = `conv_${++sequence}`;
+        const first = safetyDetectionService.detectSafetyConcerns('I feel unsafe', conversationId, 'rider_ids');
+        const second = safetyDetectionService.recordRideAnomaly(
+          'route_deviation', 'no answer to the check-in', 'high', conversationId, 'rider_ids'
+        );
+        expect(first!.id).not.toBe(second.id);
+      } finally {
+        jest.restoreAllMocks();
+      }
+    });
+  });
+
+  describe('driver flags', () => {
+    afterEach(() => jest.useRealTimers());
+
+    it('flags a driver named by several riders and lifts the flag once their events age out', () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T12:00:00Z') });
+      for (let rider = 1; rider <= config.driverFlagRiderCount; rider++) {
+        safetyDetectionService.detectSafetyConcerns(
+          'I feel unsafe', `conv_${++sequence}`, `rider_flag_${rider}`, 'driver_flagged'
+        );
+      }
+      expect(safetyDetectionService.getDriverFlag('driver_flagged')).toMatchObject({
+        riderCount: config.driverFlagRiderCount,
+      });
+
+      jest.setSystemTime(Date.now() + (config.driverFlagWindowDays + 1) * 24 * 60 * 60 * 1000);
+      expect(safetyDetectionService.getDriverFlag('driver_flagged')).toBeUndefined();
+      expect(safetyDetectionService.getFlaggedDrivers().map((flag) => flag.driverId)).not.toContain('driver_flagged');
+      expect(safetyDetectionService.getDriverEvents('driver_flagged')).toEqual([]);
+    });
+  });
+
+  describe('isEscalationRequired', () => {
+    it('escalates a medium concern only once it repeats in the ride', () => {
+      const conversationId = `conv_${++sequence}`;
+      const report = () =>
+        safetyDetectionService.detectSafetyConcerns('the driver is taking a detour', conversationId, 'rider_medium')!;
+
+      for (let run = 1; run < config.safetyMediumEscalationCount; run++) {
+        const event = report();
+        expect(event.severity).toBe('medium');
+        expect(safetyDetectionService.isEscalationRequired(event)).toBe(false);
+      }
+      expect(safetyDetectionService.isEscalationRequired(report())).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+export interface StubRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+export type StubHandler = (request: StubRequest) => { status: number; body?: unknown; delayMs?: number };
+
+/**
+ * A local HTTP server answering with whatever the handler returns; every
+ * request it receives is kept in `requests`.
+ */
+export class StubServer {
+  requests: StubRequest[] = [];
+  handler: StubHandler = () => ({ status: 200, body: {} });
+  private server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const request: StubRequest = { method: req.method || '', url: req.url || '', headers: req.headers, body };
+      this.requests.push(request);
+      const { status, body: reply, delayMs } = this.handler(request);
+      setTimeout(() => {
+        if (res.destroyed) return;
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(reply === undefined ? '' : JSON.stringify(reply));
+      }, delayMs || 0);
+    });
+  });
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  reset(handler: StubHandler): void {
+    this.requests = [];
+    this.handler = handler;
+  }
+}
@@ -0,0 +1,90 @@
+import config from '../src/config';
+import { WebhookDelivery } from '../src/types';
+import { verifyWebhook } from '../src/utils/webhookSignature';
+import { StubServer } from './stubServer';
+
+const receiver = new StubServer();
+let webhookService: typeof import('../src/services/webhookService').default;
+
+beforeAll(async () => {
+  const url = await receiver.start();
+  // Read when the service is created
+  config.webhookUrls = [`${url}/hooks`];
+  config.webhookSecret = 'test-secret';
+  config.webhookMaxAttempts = 3;
+  config.webhookRetryBaseMs = 50;
+  webhookService = (await import('../src/services/webhookService')).default;
+});
+
+afterAll(() => receiver.stop());
+
+// The service retries on its own; wait for the delivery to settle
+async function settled(delivery: WebhookDelivery, timeoutMs = 8000): Promise<WebhookDelivery> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const current = await webhookService.getDelivery(delivery.id);
+    if (current && current.status !== 'pending') return current;
+    if (Date.now() > deadline) throw new Error(`Delivery ${delivery.id} still pending`);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+}
+
+describe('WebhookService', () => {
+  it('posts a signed delivery the receiver can verify', async () => {
+    receiver.reset(() => ({ status: 204 }));
+
+    const [delivery] = await webhookService.enqueue('ticket_created', { ticketId: 'T-1' });
+    const result = await settled(delivery);
+
+    expect(result.status).toBe('delivered');
+    expect(receiver.requests).toHaveLength(1);
+    const { headers, body } = receiver.requests[0];
+    expect(headers['x-webhook-event']).toBe('ticket_created');
+    expect(headers['x-webhook-id']).toBe(delivery.id);
+    expect(JSON.parse(body)).toMatchObject({ id: delivery.id, event: 'ticket_created', data: { ticketId: 'T-1' } });
+    expect(
+      verifyWebhook('test-secret', Number(headers['x-webhook-timestamp']), body, String(headers['x-webhook-signature']))
+    ).toBe(true);
+    expect(
+      verifyWebhook('other-secret', Number(headers['x-webhook-timestamp']), body, String(headers['x-webhook-signature']))
+    ).toBe(false);
+  });
+
+  it('retries a failed delivery until the receiver accepts it', async () => {
+    let calls = 0;
+    receiver.reset(() => ({ status: ++calls === 1 ? 503 : 200 }));
+
+    const [delivery] = await webhookService.enqueue('ticket_updated', { ticketId: 'T-2', status: 'in_progress' });
+    const result = await settled(delivery);
+
+    expect(result.status).toBe('delivered');
+    expect(result.attempts.map((attempt) => attempt.statusCode)).toEqual([503, 200]);
+    // Every attempt carries the same body, signed afresh
+    expect(new Set(receiver.requests.map((request) => request.body)).size).toBe(1);
+  });
+
+  it('dead-letters after the last attempt, and redelivers on request', async () => {
+    receiver.reset(() => ({ status: 500 }));
+
+    const [delivery] = await webhookService.enqueue('escalation_created', { requestId: 'E-1' });
+    const dead = await settled(delivery);
+
+    expect(dead.status).toBe('dead');
+    expect(dead.attempts).toHaveLength(config.webhookMaxAttempts);
+    expect(dead.nextAttemptAt).toBeUndefined();
+
+    receiver.reset(() => ({ status: 200 }));
+    const redelivered = await webhookService.redeliver(delivery.id);
+
+    expect(redelivered?.status).toBe('delivered');
+    expect(receiver.requests).toHaveLength(1);
+  });
+
+  it('refuses to redeliver anything but a dead letter', async () => {
+    receiver.reset(() => ({ status: 200 }));
+    const [delivery] = await webhookService.enqueue('ticket_created', { ticketId: 'T-3' });
+    await settled(delivery);
+
+    await expect(webhookService.redeliver(delivery.id)).rejects.toThrow(/only dead letters/);
+  });
+});
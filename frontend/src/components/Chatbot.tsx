@@ -104,7 +104,10 @@ const Chatbot: React.FC<ChatbotProps> = ({
       ok_thanks: 'OK, thanks',
       wait: 'I\'ll wait',
       emergency_contact: 'Emergency help',
+      share_trip: 'Share my trip',
       retry: 'Try again',
+      confirm_cancel: 'Yes, cancel',
+      keep_booking: 'Keep my booking',
     };
     return labels[action] || action.replace(/_/g, ' ');
   };
@@ -124,7 +127,10 @@ const Chatbot: React.FC<ChatbotProps> = ({
       ok_thanks: '✅',
       wait: '⏳',
       emergency_contact: '🆘',
+      share_trip: '📡',
       retry: '🔄',
+      confirm_cancel: '✔️',
+      keep_booking: '↩️',
     };
     return icons[action] || '💬';
   };
@@ -170,7 +176,10 @@ const Chatbot: React.FC<ChatbotProps> = ({
         },
       };
 
-      setMessages((prev) => [...prev, botMessage]);
+      // Empty while a support agent has the conversation: they reply, not the bot
+      if (botMessage.text) {
+        setMessages((prev) => [...prev, botMessage]);
+      }
 
       // Update quick actions from response
       if (response.suggestedActions) {
@@ -242,7 +251,9 @@ const Chatbot: React.FC<ChatbotProps> = ({
         },
       };
 
-      setMessages((prev) => [...prev, botMessage]);
+      if (botMessage.text) {
+        setMessages((prev) => [...prev, botMessage]);
+      }
 
       // Update quick actions based on response
       if (response.suggestedActions) {
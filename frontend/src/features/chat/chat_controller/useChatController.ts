@@ -99,7 +99,10 @@ export const useChatController = ({ userId, bookingId, driverId }: UseChatContro
                 intent: response.intent,
                 metadata: response.metadata,
             };
-            setMessages((prev) => [...prev, botMsg]);
+            // Empty while a support agent has the conversation: they reply, not the bot
+            if (botMsg.text) {
+                setMessages((prev) => [...prev, botMsg]);
+            }
 
             // Update quick actions if provided
             if (response.suggestedActions) {
@@ -158,7 +161,9 @@ export const useChatController = ({ userId, bookingId, driverId }: UseChatContro
                 intent: response.intent,
                 metadata: response.metadata,
             };
-            setMessages((prev) => [...prev, botMsg]);
+            if (botMsg.text) {
+                setMessages((prev) => [...prev, botMsg]);
+            }
 
             // Update quick actions
             if (response.suggestedActions) {
@@ -216,7 +221,10 @@ export const useChatController = ({ userId, bookingId, driverId }: UseChatContro
             ok_thanks: 'OK, thanks',
             wait: "I'll wait",
             emergency_contact: 'Emergency help',
+            share_trip: 'Share my trip',
             retry: 'Try again',
+            confirm_cancel: 'Yes, cancel',
+            keep_booking: 'Keep my booking',
         };
         return labels[action] || action.replace(/_/g, ' ');
     };
@@ -237,7 +245,10 @@ export const useChatController = ({ userId, bookingId, driverId }: UseChatContro
             ok_thanks: '✅',
             wait: '⏳',
             emergency_contact: '🆘',
+            share_trip: '📡',
             retry: '🔄',
+            confirm_cancel: '✔️',
+            keep_booking: '↩️',
         };
         return icons[action] || '💬';
     };
@@ -245,7 +256,7 @@ export const useChatController = ({ userId, bookingId, driverId }: UseChatContro
     // Helper: Get action variant
     const getActionVariant = (action: string): 'primary' | 'danger' | 'warning' | undefined => {
         if (action === 'safety_concern' || action === 'emergency_contact') return 'danger';
-        if (action === 'cancel_booking') return 'warning';
+        if (action === 'cancel_booking' || action === 'confirm_cancel') return 'warning';
         return 'primary';
     };
 
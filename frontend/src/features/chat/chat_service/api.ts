@@ -8,6 +8,20 @@ import { ChatRequest, ChatResponse, InitResponse, EscalationRequest } from '../c
 const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:3001';
 
 export class ChatService {
+    // Bearer token for the chatbot API (issued by the host app's auth flow)
+    private authToken: string = process.env.REACT_APP_AUTH_TOKEN || '';
+
+    setAuthToken(token: string): void {
+        this.authToken = token;
+    }
+
+    private headers(): Record<string, string> {
+        return {
+            'Content-Type': 'application/json',
+            ...(this.authToken ? { Authorization: `Bearer ${this.authToken}` } : {}),
+        };
+    }
+
     /**
      * BRD §5.1, Epic 1: Initialize chatbot after booking confirmation
      * Endpoint: POST /api/chatbot/initiate
@@ -16,7 +30,7 @@ export class ChatService {
         try {
             const response = await fetch(`${API_BASE_URL}/api/chatbot/initiate`, {
                 method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
+                headers: this.headers(),
                 body: JSON.stringify({ bookingId, userId, driverId }),
             });
 
@@ -44,7 +58,7 @@ export class ChatService {
         try {
             const response = await fetch(`${API_BASE_URL}/api/chatbot/message`, {
                 method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
+                headers: this.headers(),
                 body: JSON.stringify({ conversationId, bookingId, userId, message }),
             });
 
@@ -72,7 +86,7 @@ export class ChatService {
         try {
             const response = await fetch(`${API_BASE_URL}/api/chatbot/quick-action`, {
                 method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
+                headers: this.headers(),
                 body: JSON.stringify({ conversationId, bookingId, userId, action }),
             });
 
@@ -95,7 +109,7 @@ export class ChatService {
         try {
             const response = await fetch(`${API_BASE_URL}/api/chatbot/escalate`, {
                 method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
+                headers: this.headers(),
                 body: JSON.stringify(request),
             });
 
@@ -118,7 +132,7 @@ export class ChatService {
         try {
             const response = await fetch(`${API_BASE_URL}/api/chatbot/close`, {
                 method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
+                headers: this.headers(),
                 body: JSON.stringify({ conversationId, reason }),
             });
 
@@ -2,9 +2,15 @@ import axios from 'axios';
 
 class ChatbotApiService {
   private baseUrl: string;
+  private authToken: string;
 
-  constructor(baseUrl: string) {
+  constructor(baseUrl: string, authToken: string = process.env.REACT_APP_AUTH_TOKEN || '') {
     this.baseUrl = baseUrl;
+    this.authToken = authToken;
+  }
+
+  private get config() {
+    return this.authToken ? { headers: { Authorization: `Bearer ${this.authToken}` } } : {};
   }
 
   async initiateChatbot(bookingId: string, userId: string, driverId?: string) {
@@ -12,7 +18,7 @@ class ChatbotApiService {
       bookingId,
       userId,
       driverId,
-    });
+    }, this.config);
     return response.data;
   }
 
@@ -27,7 +33,7 @@ class ChatbotApiService {
       bookingId,
       userId,
       message,
-    });
+    }, this.config);
     return response.data;
   }
 
@@ -42,12 +48,12 @@ class ChatbotApiService {
       bookingId,
       userId,
       action,
-    });
+    }, this.config);
     return response.data;
   }
 
   async getConversation(conversationId: string) {
-    const response = await axios.get(`${this.baseUrl}/api/chatbot/conversation/${conversationId}`);
+    const response = await axios.get(`${this.baseUrl}/api/chatbot/conversation/${conversationId}`, this.config);
     return response.data;
   }
 
@@ -64,7 +70,7 @@ class ChatbotApiService {
       userId,
       escalationType,
       reason,
-    });
+    }, this.config);
     return response.data;
   }
 
@@ -72,7 +78,7 @@ class ChatbotApiService {
     const response = await axios.post(`${this.baseUrl}/api/chatbot/close`, {
       conversationId,
       reason,
-    });
+    }, this.config);
     return response.data;
   }
 }
@@ -9,6 +9,9 @@ API_URL="${API_URL:-http://localhost:3001}"
 BOOKING_ID="test_booking_$(date +%s)"
 USER_ID="test_user_$(date +%s)"
 DRIVER_ID="test_driver_001"
+# Rider token for $USER_ID (signed with the backend's JWT_SECRET unless AUTH_TOKEN is given)
+AUTH_TOKEN="${AUTH_TOKEN:-$(cd "$(dirname "$0")/backend" && npm run --silent token -- "$USER_ID")}"
+AUTH_HEADER="Authorization: Bearer $AUTH_TOKEN"
 
 # Color codes
 GREEN='\033[0;32m'
@@ -48,7 +51,7 @@ fi
 
 # Test 2: Initialize chatbot
 echo -e "\n${YELLOW}Test 2: Initialize Chatbot${NC}"
-INIT_RESPONSE=$(curl -s -X POST "$API_URL/api/chatbot/initiate" \
+INIT_RESPONSE=$(curl -s -X POST "$API_URL/api/chatbot/initiate" -H "$AUTH_HEADER" \
   -H "Content-Type: application/json" \
   -d "{
     \"bookingId\": \"$BOOKING_ID\",
@@ -67,7 +70,7 @@ fi
 
 # Test 3: Send message
 echo -e "\n${YELLOW}Test 3: Send Message${NC}"
-MESSAGE_RESPONSE=$(curl -s -X POST "$API_URL/api/chatbot/message" \
+MESSAGE_RESPONSE=$(curl -s -X POST "$API_URL/api/chatbot/message" -H "$AUTH_HEADER" \
   -H "Content-Type: application/json" \
   -d "{
     \"conversationId\": \"$CONVERSATION_ID\",
@@ -84,7 +87,7 @@ fi
 
 # Test 4: Quick action
 echo -e "\n${YELLOW}Test 4: Quick Action${NC}"
-QUICK_ACTION_RESPONSE=$(curl -s -X POST "$API_URL/api/chatbot/quick-action" \
+QUICK_ACTION_RESPONSE=$(curl -s -X POST "$API_URL/api/chatbot/quick-action" -H "$AUTH_HEADER" \
   -H "Content-Type: application/json" \
   -d "{
     \"conversationId\": \"$CONVERSATION_ID\",
@@ -101,7 +104,7 @@ fi
 
 # Test 5: Safety detection
 echo -e "\n${YELLOW}Test 5: Safety Detection${NC}"
-SAFETY_RESPONSE=$(curl -s -X POST "$API_URL/api/chatbot/message" \
+SAFETY_RESPONSE=$(curl -s -X POST "$API_URL/api/chatbot/message" -H "$AUTH_HEADER" \
   -H "Content-Type: application/json" \
   -d "{
     \"conversationId\": \"$CONVERSATION_ID\",
@@ -118,7 +121,7 @@ fi
 
 # Test 6: Get conversation
 echo -e "\n${YELLOW}Test 6: Get Conversation${NC}"
-CONV_RESPONSE=$(curl -s -X GET "$API_URL/api/chatbot/conversation/$CONVERSATION_ID")
+CONV_RESPONSE=$(curl -s -X GET "$API_URL/api/chatbot/conversation/$CONVERSATION_ID" -H "$AUTH_HEADER")
 
 if echo "$CONV_RESPONSE" | grep -q "$CONVERSATION_ID"; then
   print_test "Get conversation" 0
@@ -128,7 +131,7 @@ fi
 
 # Test 7: Escalate conversation
 echo -e "\n${YELLOW}Test 7: Escalate Conversation${NC}"
-ESCALATE_RESPONSE=$(curl -s -X POST "$API_URL/api/chatbot/escalate" \
+ESCALATE_RESPONSE=$(curl -s -X POST "$API_URL/api/chatbot/escalate" -H "$AUTH_HEADER" \
   -H "Content-Type: application/json" \
   -d "{
     \"conversationId\": \"$CONVERSATION_ID\",
@@ -146,7 +149,7 @@ fi
 
 # Test 8: Close conversation
 echo -e "\n${YELLOW}Test 8: Close Conversation${NC}"
-CLOSE_RESPONSE=$(curl -s -X POST "$API_URL/api/chatbot/close" \
+CLOSE_RESPONSE=$(curl -s -X POST "$API_URL/api/chatbot/close" -H "$AUTH_HEADER" \
   -H "Content-Type: application/json" \
   -d "{
     \"conversationId\": \"$CONVERSATION_ID\",
@@ -163,7 +166,7 @@ fi
 echo -e "\n${YELLOW}Test 9: Performance Check${NC}"
 START_TIME=$(date +%s%N)
 
-curl -s -X POST "$API_URL/api/chatbot/message" \
+curl -s -X POST "$API_URL/api/chatbot/message" -H "$AUTH_HEADER" \
   -H "Content-Type: application/json" \
   -d "{
     \"conversationId\": \"$CONVERSATION_ID\",
@@ -188,7 +191,7 @@ CONCURRENT=5
 SUCCESS_COUNT=0
 
 for i in $(seq 1 $CONCURRENT); do
-  curl -s -X POST "$API_URL/api/chatbot/initiate" \
+  curl -s -X POST "$API_URL/api/chatbot/initiate" -H "$AUTH_HEADER" \
     -H "Content-Type: application/json" \
     -d "{
       \"bookingId\": \"testing_$i\",